@@ -2,6 +2,10 @@ module.exports = function (api) {
 	api.cache(true);
 	return {
 		presets: ["babel-preset-expo"],
-		plugins: ["react-native-reanimated/plugin"],
+		// Frame processors need the worklets-core plugin; Reanimated's stays last.
+		plugins: [
+			"react-native-worklets-core/plugin",
+			"react-native-reanimated/plugin",
+		],
 	};
 };
@@ -24,6 +24,15 @@ export default function TabsLayout() {
 					),
 				}}
 			/>
+			<Tabs.Screen
+				name="settings"
+				options={{
+					title: "Settings",
+					tabBarIcon: ({ color, size }) => (
+						<Ionicons name="settings-outline" color={color} size={size} />
+					),
+				}}
+			/>
 		</Tabs>
 	);
 }
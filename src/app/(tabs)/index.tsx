@@ -3,16 +3,42 @@ import dayjs from "dayjs";
 import { useRouter } from "expo-router";
 import { useCallback, useMemo, useState } from "react";
 import {
+	Alert,
 	Pressable,
 	RefreshControl,
 	ScrollView,
 	Text,
+	TextInput,
 	View,
 } from "react-native";
+import {
+	describeCondition,
+	MEASUREMENT_LABELS,
+	resolveCondition,
+} from "../../lib/conditions";
 import { cancelEvent, snooze } from "../../lib/notify";
+import {
+	checkPrnDose,
+	createPrnEventId,
+	isPrnInstruction,
+	takenInLastDay,
+} from "../../lib/prn";
+import { formatDose, planCycleDay } from "../../lib/schedule";
+import {
+	describeSite,
+	injectionSites,
+	isInjectable,
+	sameSite,
+	suggestNextSite,
+} from "../../lib/sites";
 import { useAppStore } from "../../store";
 import { theme } from "../../theme";
-import { ScheduleEvent } from "../../types";
+import {
+	AdministrationSite,
+	DosageInstruction,
+	ScheduleEvent,
+	TaskCategory,
+} from "../../types";
 
 const groupEventsByTime = (events: ScheduleEvent[]) => {
 	const grouped = new Map<string, ScheduleEvent[]>();
@@ -26,6 +52,38 @@ const groupEventsByTime = (events: ScheduleEvent[]) => {
 	return Array.from(grouped.entries()).sort((a, b) => a[0].localeCompare(b[0]));
 };
 
+/** Amounts offered for an as-needed dose; a range gets one button per whole step. */
+const prnAmounts = (dose: DosageInstruction["dose"]): number[] => {
+	if (dose.maxAmount === undefined || dose.maxAmount - dose.amount > 4) {
+		return [dose.amount];
+	}
+	const amounts: number[] = [];
+	for (let amount = dose.amount; amount <= dose.maxAmount; amount += 1) {
+		amounts.push(amount);
+	}
+	return amounts;
+};
+
+const describePrnLimits = (instruction: DosageInstruction): string => {
+	const limits = instruction.prnLimits;
+	if (!limits) {
+		return "";
+	}
+	return [
+		limits.maxAmountPerDay !== undefined
+			? `max ${limits.maxAmountPerDay} ${instruction.dose.unit}/24 h`
+			: undefined,
+		limits.maxDosesPerDay !== undefined
+			? `max ${limits.maxDosesPerDay} doses/24 h`
+			: undefined,
+		limits.minIntervalHours !== undefined
+			? `${limits.minIntervalHours} h apart`
+			: undefined,
+	]
+		.filter(Boolean)
+		.join(" · ");
+};
+
 const statusLabel: Record<ScheduleEvent["status"], string> = {
 	scheduled: "Scheduled",
 	snoozed: "Snoozed",
@@ -33,14 +91,29 @@ const statusLabel: Record<ScheduleEvent["status"], string> = {
 	missed: "Missed",
 };
 
+const taskCategoryLabel: Record<TaskCategory, string> = {
+	measurement: "Measurement",
+	exercise: "Exercise",
+	hydration: "Hydration",
+	care: "Care",
+};
+
 export default function TodayScreen() {
 	const router = useRouter();
 	const events = useAppStore((state) => state.events);
 	const medPlans = useAppStore((state) => state.medPlans);
 	const updateEventStatus = useAppStore((state) => state.updateEventStatus);
 	const shiftEvent = useAppStore((state) => state.shiftEvent);
+	const logEvent = useAppStore((state) => state.logEvent);
+	const annotateEvent = useAppStore((state) => state.annotateEvent);
 	const setNotificationRef = useAppStore((state) => state.setNotificationRef);
 	const [refreshing, setRefreshing] = useState(false);
+	// Readings typed for conditional doses, keyed by event id.
+	const [readings, setReadings] = useState<Record<string, string>>({});
+	// Injection sites the patient picked instead of the suggested one.
+	const [pickedSites, setPickedSites] = useState<
+		Record<string, AdministrationSite>
+	>({});
 
 	// Debug logging
 	console.log(
@@ -51,7 +124,32 @@ export default function TodayScreen() {
 	);
 
 	const planLookup = useMemo(
-		() => new Map(medPlans.map((plan) => [plan.id, plan.name])),
+		() => new Map(medPlans.map((plan) => [plan.id, plan])),
+		[medPlans],
+	);
+
+	const cycleStatuses = useMemo(
+		() =>
+			medPlans.flatMap((plan) =>
+				plan.instructions.flatMap((instruction, index) => {
+					const cycleDay = planCycleDay(plan, instruction, dayjs());
+					return cycleDay
+						? [{ key: `${plan.id}-${index}`, name: plan.name, cycleDay }]
+						: [];
+				}),
+			),
+		[medPlans],
+	);
+
+	const prnItems = useMemo(
+		() =>
+			medPlans.flatMap((plan) =>
+				plan.instructions.flatMap((instruction, index) =>
+					plan.kind !== "task" && isPrnInstruction(instruction)
+						? [{ plan, instruction, index }]
+						: [],
+				),
+			),
 		[medPlans],
 	);
 
@@ -62,10 +160,24 @@ export default function TodayScreen() {
 
 	const grouped = useMemo(() => groupEventsByTime(todayEvents), [todayEvents]);
 
+	const siteFor = useCallback(
+		(event: ScheduleEvent) => {
+			const plan = planLookup.get(event.medPlanId);
+			return plan && isInjectable(plan)
+				? (pickedSites[event.id] ?? suggestNextSite(plan, events))
+				: undefined;
+		},
+		[planLookup, pickedSites, events],
+	);
+
 	const handleTaken = useCallback(
 		async (event: ScheduleEvent) => {
 			console.log("[TodayScreen] handleTaken called for event:", event.id);
 			try {
+				const site = siteFor(event);
+				if (site) {
+					annotateEvent(event.id, { site });
+				}
 				updateEventStatus(event.id, "taken");
 				try {
 					await cancelEvent(event.id);
@@ -80,7 +192,7 @@ export default function TodayScreen() {
 				console.error("[TodayScreen] Error in handleTaken:", error);
 			}
 		},
-		[updateEventStatus, setNotificationRef],
+		[siteFor, annotateEvent, updateEventStatus, setNotificationRef],
 	);
 
 	const handleSkip = useCallback(
@@ -130,6 +242,57 @@ export default function TodayScreen() {
 		[updateEventStatus, shiftEvent, setNotificationRef],
 	);
 
+	const handleCheckCondition = useCallback(
+		async (event: ScheduleEvent) => {
+			const condition = event.condition;
+			const value = Number.parseFloat(
+				(readings[event.id] ?? "").replace(",", "."),
+			);
+			if (!condition || !Number.isFinite(value)) {
+				Alert.alert("Enter a reading", "Type the measurement first.");
+				return;
+			}
+			annotateEvent(event.id, { measurement: value });
+			const outcome = resolveCondition(condition, value);
+			const { unit } = MEASUREMENT_LABELS[condition.measurement];
+			Alert.alert(
+				outcome === "take" ? "Take this dose" : "Skip this dose",
+				`${describeCondition(condition)}. You entered ${value} ${unit}.`,
+			);
+			if (outcome === "take") {
+				await handleTaken(event);
+			} else {
+				await handleSkip(event);
+			}
+		},
+		[readings, annotateEvent, handleTaken, handleSkip],
+	);
+
+	const handleLogPrn = useCallback(
+		(item: (typeof prnItems)[number], amount: number) => {
+			const now = dayjs();
+			const check = checkPrnDose(item.plan, item.index, events, amount, now);
+			if (!check.allowed) {
+				Alert.alert(
+					"Not yet",
+					check.nextAllowedAt
+						? `${check.reason}. Next dose allowed at ${check.nextAllowedAt.format("ddd HH:mm")}.`
+						: `${check.reason}.`,
+				);
+				return;
+			}
+			logEvent({
+				id: createPrnEventId(item.plan.id, item.index, now),
+				medPlanId: item.plan.id,
+				at: now.toISOString(),
+				dose: formatDose({ amount, unit: item.instruction.dose.unit }),
+				amount,
+				status: "taken",
+			});
+		},
+		[events, logEvent],
+	);
+
 	const onRefresh = () => {
 		setRefreshing(true);
 		setTimeout(() => setRefreshing(false), 350);
@@ -151,6 +314,15 @@ export default function TodayScreen() {
 				>
 					{dayjs().format("dddd, MMM D")}
 				</Text>
+				{cycleStatuses.map(({ key, name, cycleDay }) => (
+					<Text
+						key={key}
+						style={{ color: theme.colors.text, marginTop: theme.spacing.xs }}
+					>
+						{name}: cycle day {cycleDay.day} of {cycleDay.length}
+						{cycleDay.active ? "" : " (break)"}
+					</Text>
+				))}
 				<Pressable
 					accessibilityRole="button"
 					onPress={() => {
@@ -188,6 +360,71 @@ export default function TodayScreen() {
 					<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
 				}
 			>
+				{prnItems.length > 0 && (
+					<View
+						style={{
+							marginTop: theme.spacing.lg,
+							padding: theme.spacing.md,
+							borderRadius: theme.radius.md,
+							backgroundColor: theme.colors.surface,
+							gap: theme.spacing.md,
+							...theme.shadow.card,
+						}}
+					>
+						<Text
+							style={[theme.typography.subtitle, { color: theme.colors.text }]}
+						>
+							As needed
+						</Text>
+						{prnItems.map((item) => {
+							const taken = takenInLastDay(item.plan, item.index, events);
+							const limits = describePrnLimits(item.instruction);
+							return (
+								<View
+									key={`${item.plan.id}-${item.index}`}
+									style={{
+										borderWidth: 1,
+										borderColor: theme.colors.border,
+										borderRadius: theme.radius.md,
+										padding: theme.spacing.md,
+										gap: theme.spacing.sm,
+										backgroundColor: theme.colors.background,
+									}}
+								>
+									<Text style={{ fontWeight: "600", color: theme.colors.text }}>
+										{item.plan.name}
+									</Text>
+									<Text style={{ color: theme.colors.textMuted }}>
+										{formatDose(item.instruction.dose)}
+										{limits ? ` · ${limits}` : ""}
+									</Text>
+									{item.instruction.condition ? (
+										<Text style={{ color: theme.colors.textMuted }}>
+											{describeCondition(item.instruction.condition)}
+										</Text>
+									) : null}
+									<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
+										Last 24 h: {taken.length} dose
+										{taken.length === 1 ? "" : "s"}
+										{taken.length
+											? `, last at ${dayjs(taken[taken.length - 1].at).format("HH:mm")}`
+											: ""}
+									</Text>
+									<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+										{prnAmounts(item.instruction.dose).map((amount) => (
+											<ActionButton
+												key={amount}
+												label={`Log ${formatDose({ amount, unit: item.instruction.dose.unit })}`}
+												color={theme.colors.accent}
+												onPress={() => handleLogPrn(item, amount)}
+											/>
+										))}
+									</View>
+								</View>
+							);
+						})}
+					</View>
+				)}
 				{grouped.length === 0 ? (
 					<View
 						style={{
@@ -234,53 +471,169 @@ export default function TodayScreen() {
 									{dayjs(eventItems[0].at).format("MMM D")}
 								</Text>
 							</View>
-							{eventItems.map((event) => (
-								<View
-									key={event.id}
-									style={{
-										borderWidth: 1,
-										borderColor: theme.colors.border,
-										borderRadius: theme.radius.md,
-										padding: theme.spacing.md,
-										gap: theme.spacing.sm,
-										backgroundColor:
-											event.status === "taken"
-												? "#ECFDF5"
-												: event.status === "missed"
-													? "#FEF3C7"
-													: theme.colors.background,
-									}}
-								>
-									<Text style={{ fontWeight: "600", color: theme.colors.text }}>
-										{planLookup.get(event.medPlanId) ?? "Medication"}
-									</Text>
-									<Text style={{ color: theme.colors.textMuted }}>
-										{event.dose}
-									</Text>
-									<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
-										Status: {statusLabel[event.status]}
-									</Text>
-									<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
-										<ActionButton
-											label="Taken"
-											color={theme.colors.accent}
-											onPress={() => handleTaken(event)}
-											disabled={event.status === "taken"}
-										/>
-										<ActionButton
-											label="Snooze"
-											color={theme.colors.primary}
-											onPress={() => handleSnooze(event)}
-										/>
-										<ActionButton
-											label="Skip"
-											color={theme.colors.danger}
-											onPress={() => handleSkip(event)}
-											disabled={event.status === "missed"}
-										/>
+							{eventItems.map((event) => {
+								const plan = planLookup.get(event.medPlanId);
+								// Tasks are marked done; the "taken" status records it.
+								const isTask = plan?.kind === "task";
+								const pendingCheck =
+									event.condition &&
+									(event.status === "scheduled" || event.status === "snoozed");
+								return (
+									<View
+										key={event.id}
+										style={{
+											borderWidth: 1,
+											borderColor: theme.colors.border,
+											borderRadius: theme.radius.md,
+											padding: theme.spacing.md,
+											gap: theme.spacing.sm,
+											backgroundColor:
+												event.status === "taken"
+													? "#ECFDF5"
+													: event.status === "missed"
+														? "#FEF3C7"
+														: theme.colors.background,
+										}}
+									>
+										<Text
+											style={{ fontWeight: "600", color: theme.colors.text }}
+										>
+											{plan?.name ?? "Medication"}
+										</Text>
+										<Text style={{ color: theme.colors.textMuted }}>
+											{isTask
+												? plan?.taskCategory
+													? taskCategoryLabel[plan.taskCategory]
+													: "Task"
+												: event.dose}
+										</Text>
+										<Text
+											style={{ color: theme.colors.textMuted, fontSize: 12 }}
+										>
+											Status:{" "}
+											{isTask && event.status === "taken"
+												? "Done"
+												: statusLabel[event.status]}
+											{event.condition && event.measurement !== undefined
+												? ` · reading ${event.measurement} ${MEASUREMENT_LABELS[event.condition.measurement].unit}`
+												: ""}
+											{event.site ? ` · ${describeSite(event.site)}` : ""}
+										</Text>
+										{plan &&
+										isInjectable(plan) &&
+										event.status !== "taken" &&
+										event.status !== "missed" ? (
+											<View
+												style={{
+													flexDirection: "row",
+													flexWrap: "wrap",
+													gap: theme.spacing.xs,
+												}}
+											>
+												{injectionSites(plan).map((site) => {
+													const selected = sameSite(site, siteFor(event));
+													return (
+														<Pressable
+															key={describeSite(site)}
+															accessibilityRole="button"
+															onPress={() =>
+																setPickedSites((current) => ({
+																	...current,
+																	[event.id]: site,
+																}))
+															}
+															style={{
+																paddingVertical: theme.spacing.xs,
+																paddingHorizontal: theme.spacing.sm,
+																borderRadius: theme.radius.sm,
+																borderWidth: 1,
+																borderColor: selected
+																	? theme.colors.primary
+																	: theme.colors.border,
+																backgroundColor: selected
+																	? theme.colors.primary
+																	: theme.colors.background,
+															}}
+														>
+															<Text
+																style={{
+																	color: selected ? "#fff" : theme.colors.text,
+																	fontSize: 12,
+																}}
+															>
+																{describeSite(site)}
+															</Text>
+														</Pressable>
+													);
+												})}
+											</View>
+										) : null}
+										{event.condition ? (
+											<Text style={{ color: theme.colors.text }}>
+												{describeCondition(event.condition)}
+											</Text>
+										) : null}
+										{event.condition && pendingCheck ? (
+											<View
+												style={{
+													flexDirection: "row",
+													gap: theme.spacing.sm,
+													alignItems: "center",
+												}}
+											>
+												<TextInput
+													value={readings[event.id] ?? ""}
+													onChangeText={(value) =>
+														setReadings((current) => ({
+															...current,
+															[event.id]: value,
+														}))
+													}
+													keyboardType="decimal-pad"
+													placeholder={`Your ${MEASUREMENT_LABELS[event.condition.measurement].label}`}
+													style={{
+														flex: 2,
+														borderWidth: 1,
+														borderColor: theme.colors.border,
+														borderRadius: theme.radius.sm,
+														paddingHorizontal: theme.spacing.sm,
+														paddingVertical: theme.spacing.xs,
+														color: theme.colors.text,
+													}}
+												/>
+												<ActionButton
+													label="Check"
+													color={theme.colors.primary}
+													onPress={() => handleCheckCondition(event)}
+												/>
+											</View>
+										) : null}
+										<View
+											style={{ flexDirection: "row", gap: theme.spacing.sm }}
+										>
+											<ActionButton
+												label={isTask ? "Done" : "Taken"}
+												color={theme.colors.accent}
+												onPress={() => handleTaken(event)}
+												disabled={
+													event.status === "taken" || Boolean(pendingCheck)
+												}
+											/>
+											<ActionButton
+												label="Snooze"
+												color={theme.colors.primary}
+												onPress={() => handleSnooze(event)}
+											/>
+											<ActionButton
+												label="Skip"
+												color={theme.colors.danger}
+												onPress={() => handleSkip(event)}
+												disabled={event.status === "missed"}
+											/>
+										</View>
 									</View>
-								</View>
-							))}
+								);
+							})}
 						</View>
 					))
 				)}
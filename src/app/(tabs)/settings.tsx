@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { ScrollView, Text, TextInput, View } from "react-native";
+import { useAppStore } from "../../store";
+import { theme } from "../../theme";
+import { Routine, RoutineAnchor } from "../../types";
+
+const routineFields: { key: RoutineAnchor; label: string }[] = [
+	{ key: "wake", label: "Wake up" },
+	{ key: "breakfast", label: "Breakfast" },
+	{ key: "lunch", label: "Lunch" },
+	{ key: "dinner", label: "Dinner" },
+	{ key: "bed", label: "Bedtime" },
+];
+
+const CLOCK_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function SettingsScreen() {
+	const routine = useAppStore((state) => state.settings.routine);
+	const updateRoutine = useAppStore((state) => state.updateRoutine);
+	// Edited as free text and saved once it reads as a valid HH:MM.
+	const [drafts, setDrafts] = useState<Routine>(routine);
+
+	useEffect(() => {
+		setDrafts(routine);
+	}, [routine]);
+
+	return (
+		<ScrollView
+			style={{ flex: 1, backgroundColor: theme.colors.background }}
+			contentContainerStyle={{
+				padding: theme.spacing.lg,
+				gap: theme.spacing.md,
+			}}
+			keyboardShouldPersistTaps="handled"
+		>
+			<Text style={[theme.typography.title, { color: theme.colors.text }]}>
+				Settings
+			</Text>
+			<View
+				style={{
+					padding: theme.spacing.md,
+					borderRadius: theme.radius.md,
+					backgroundColor: theme.colors.surface,
+					gap: theme.spacing.md,
+				}}
+			>
+				<Text style={[theme.typography.subtitle, { color: theme.colors.text }]}>
+					Daily routine
+				</Text>
+				<Text style={{ color: theme.colors.textMuted }}>
+					Doses taken before or after meals, on waking or at bedtime are
+					scheduled around these times. Reschedule a plan to apply changes.
+				</Text>
+				{routineFields.map((field) => {
+					const value = drafts[field.key];
+					const valid = CLOCK_REGEX.test(value);
+					return (
+						<View
+							key={field.key}
+							style={{
+								flexDirection: "row",
+								alignItems: "center",
+								justifyContent: "space-between",
+								gap: theme.spacing.md,
+							}}
+						>
+							<Text style={{ color: theme.colors.text, flex: 1 }}>
+								{field.label}
+							</Text>
+							<TextInput
+								value={value}
+								onChangeText={(text) => {
+									const next = text.trim();
+									setDrafts((current) => ({ ...current, [field.key]: next }));
+									if (CLOCK_REGEX.test(next)) {
+										updateRoutine({ [field.key]: next });
+									}
+								}}
+								placeholder="HH:MM"
+								keyboardType="numbers-and-punctuation"
+								style={{
+									width: 96,
+									borderWidth: 1,
+									borderColor: valid
+										? theme.colors.border
+										: theme.colors.warning,
+									borderRadius: theme.radius.sm,
+									paddingHorizontal: theme.spacing.sm,
+									paddingVertical: theme.spacing.xs,
+									backgroundColor: theme.colors.background,
+									color: theme.colors.text,
+									textAlign: "center",
+								}}
+							/>
+						</View>
+					);
+				})}
+			</View>
+		</ScrollView>
+	);
+}
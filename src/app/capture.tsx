@@ -1,29 +1,54 @@
 import Constants from "expo-constants";
+import * as DocumentPicker from "expo-document-picker";
+import * as Haptics from "expo-haptics";
 import * as ImagePicker from "expo-image-picker";
 import { Stack, useRouter } from "expo-router";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
 	ActivityIndicator,
 	Alert,
+	Image,
 	Platform,
 	Pressable,
+	ScrollView,
 	Text,
 	View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import type {
+	Orientation,
 	PhotoFile,
 	Camera as VisionCamera,
 } from "react-native-vision-camera";
-import { recognizeTextFromImage } from "../lib/ocr";
+import {
+	ANALYSIS_FPS,
+	AutoCaptureStatus,
+	analyzeLuma,
+	FrameAnalysis,
+	FrameBox,
+	INITIAL_AUTO_CAPTURE,
+	markCaptured,
+	nextAutoCapture,
+	previewRect,
+	uprightBox,
+} from "../lib/autocapture";
+import {
+	recognizeDocumentFromImage,
+	recognizeDocumentFromPdf,
+} from "../lib/ocr";
+import { mergePageDocuments } from "../lib/pages";
+import type { SheetOutline } from "../lib/preprocess";
 import { useAppStore } from "../store";
 import { theme } from "../theme";
+import { OcrDocument } from "../types";
 
 type VisionCameraModule = typeof import("react-native-vision-camera");
 type UseCameraPermissionState = ReturnType<
 	VisionCameraModule["useCameraPermission"]
 >;
 type UseCameraDevice = VisionCameraModule["useCameraDevice"];
+type UseFrameProcessor = VisionCameraModule["useFrameProcessor"];
+type WorkletsModule = typeof import("react-native-worklets-core");
 
 const visionCameraModule: VisionCameraModule | null = (() => {
 	try {
@@ -60,6 +85,55 @@ const useSafeCameraDevice: UseCameraDevice =
 
 const CameraComponent = visionCameraModule?.Camera ?? null;
 
+const workletsModule: WorkletsModule | null = (() => {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports
+		return require("react-native-worklets-core") as WorkletsModule;
+	} catch {
+		return null;
+	}
+})();
+
+const useSafeFrameProcessor: UseFrameProcessor =
+	visionCameraModule?.useFrameProcessor ??
+	(() => undefined as unknown as ReturnType<UseFrameProcessor>);
+const runAtTargetFps = visionCameraModule?.runAtTargetFps;
+const autoCaptureSupported = Boolean(workletsModule && runAtTargetFps);
+
+type Guide = {
+	status: AutoCaptureStatus;
+	page?: FrameBox; // upright, in fractions of the frame
+	frame?: { width: number; height: number }; // upright frame size
+};
+
+const GUIDE_HINTS: Record<AutoCaptureStatus, string> = {
+	searching: "Fit the page inside the frame",
+	unfocused: "Focusing… move a little further away if it stays blurry",
+	moving: "Hold steady",
+	steady: "Hold steady",
+	capture: "Captured",
+	captured: "Captured. Show the next page or review",
+};
+
+const GUIDE_COLORS: Record<AutoCaptureStatus, string> = {
+	searching: "rgba(255,255,255,0.7)",
+	unfocused: theme.colors.warning,
+	moving: theme.colors.warning,
+	steady: theme.colors.accent,
+	capture: theme.colors.accent,
+	captured: theme.colors.accent,
+};
+
+/** One photographed or picked page of a capture session. */
+type SessionPage = {
+	id: string;
+	uri: string;
+	status: "reading" | "done" | "failed";
+	document?: OcrDocument;
+};
+
+const EMPTY_DOCUMENT: OcrDocument = { text: "", pages: [] };
+
 const ensureFileUri = (photo: PhotoFile) => {
 	const path = photo.path.startsWith("file://")
 		? photo.path
@@ -83,9 +157,22 @@ export default function CaptureScreen() {
 	const [isProcessing, setIsProcessing] = useState(false);
 	const [errorMessage, setErrorMessage] = useState<string | null>(null);
 	const [cameraTimeout, setCameraTimeout] = useState(false);
+	const [pages, setPages] = useState<SessionPage[]>([]);
+	// Pages are recognised one at a time so several large photos do not compete.
+	const ocrQueue = useRef<Promise<void>>(Promise.resolve());
+	const [autoCapture, setAutoCapture] = useState(autoCaptureSupported);
+	const [guide, setGuide] = useState<Guide>({ status: "searching" });
+	const [previewSize, setPreviewSize] = useState<{
+		width: number;
+		height: number;
+	}>();
+	const autoCaptureState = useRef(INITIAL_AUTO_CAPTURE);
+	// Latest sheet outline from frame analysis; crops the photo taken next.
+	const sheetOutline = useRef<SheetOutline | undefined>(undefined);
 
 	const setDraftText = useAppStore((state) => state.setDraftText);
 	const setDraftPlans = useAppStore((state) => state.setDraftPlans);
+	const setDraftOcr = useAppStore((state) => state.setDraftOcr);
 
 	// Check if running on simulator - more reliable detection
 	const isSimulator = Platform.OS === "ios" && !Constants.isDevice;
@@ -107,31 +194,98 @@ export default function CaptureScreen() {
 		}
 	}, [isSimulator]);
 
-	const handleOcr = useCallback(
+	const addPage = useCallback((uri: string, sheet?: SheetOutline) => {
+		const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+		const finish = (changes: Partial<SessionPage>) =>
+			setPages((current) =>
+				current.map((page) =>
+					page.id === id ? { ...page, ...changes } : page,
+				),
+			);
+		setErrorMessage(null);
+		setPages((current) => [...current, { id, uri, status: "reading" }]);
+		ocrQueue.current = ocrQueue.current.then(async () => {
+			try {
+				const document = await recognizeDocumentFromImage(uri, { sheet });
+				finish({ status: document.text ? "done" : "failed", document });
+			} catch (error) {
+				console.error("[capture] OCR failed", error);
+				finish({ status: "failed" });
+			}
+		});
+	}, []);
+
+	const movePage = (id: string, offset: number) =>
+		setPages((current) => {
+			const index = current.findIndex((page) => page.id === id);
+			const target = index + offset;
+			if (index < 0 || target < 0 || target >= current.length) {
+				return current;
+			}
+			const next = [...current];
+			[next[index], next[target]] = [next[target], next[index]];
+			return next;
+		});
+
+	const removePage = (id: string) =>
+		setPages((current) => current.filter((page) => page.id !== id));
+
+	const finishSession = useCallback(() => {
+		if (pages.some((page) => page.status === "reading")) {
+			setErrorMessage("Still reading pages, one moment.");
+			return;
+		}
+		if (!pages.some((page) => page.status === "done")) {
+			setErrorMessage("No text detected. Try again with clearer lighting.");
+			return;
+		}
+		// Unreadable pages keep their place so page numbers match the thumbnails.
+		const document = mergePageDocuments(
+			pages.map((page) => page.document ?? EMPTY_DOCUMENT),
+		);
+		setDraftText(document.text);
+		setDraftOcr(document);
+		setDraftPlans([]);
+		setPages([]);
+		router.push("/review");
+	}, [pages, router, setDraftOcr, setDraftPlans, setDraftText]);
+
+	const handlePdf = useCallback(
 		async (uri: string) => {
 			setIsProcessing(true);
 			setErrorMessage(null);
 			try {
-				const text = await recognizeTextFromImage(uri);
+				const { text, ocr, skippedPages } = await recognizeDocumentFromPdf(uri);
 				if (!text) {
-					setErrorMessage("No text detected. Try again with clearer lighting.");
+					setErrorMessage(
+						"No text found in this PDF. Try photographing the printout instead.",
+					);
 					return;
 				}
+				if (skippedPages.length) {
+					Alert.alert(
+						"Some pages were skipped",
+						skippedPages
+							.map(({ page, reason }) => `Page ${page}: ${reason}.`)
+							.join("\n"),
+					);
+				}
 				setDraftText(text);
+				setDraftOcr(ocr);
 				setDraftPlans([]);
 				router.push("/review");
 			} catch (error) {
-				console.error("[capture] OCR failed", error);
+				console.error("[capture] PDF import failed", error);
 				const message =
 					error instanceof Error && error.message
 						? error.message
-						: "Unable to recognise text. Please try again.";
+						: "Unable to read this PDF. Please try again.";
 				setErrorMessage(message);
 			} finally {
 				setIsProcessing(false);
 			}
 		},
-		[router, setDraftPlans, setDraftText],
+		[router, setDraftOcr, setDraftPlans, setDraftText],
 	);
 
 	const capturePhoto = useCallback(async () => {
@@ -146,6 +300,7 @@ export default function CaptureScreen() {
 			return;
 		}
 
+		const sheet = sheetOutline.current;
 		try {
 			// Request camera permission first
 			const permissionResult =
@@ -164,12 +319,78 @@ export default function CaptureScreen() {
 			if (!photo) {
 				return;
 			}
-			await handleOcr(ensureFileUri(photo));
+			addPage(ensureFileUri(photo), sheet);
 		} catch (error) {
 			console.error("[capture] Failed to capture photo", error);
 			Alert.alert("Capture failed", "Please try again.");
 		}
-	}, [handleOcr, isProcessing]);
+	}, [addPage, isProcessing]);
+
+	useEffect(() => {
+		sheetOutline.current = undefined;
+		if (autoCapture) {
+			autoCaptureState.current = INITIAL_AUTO_CAPTURE;
+			setGuide({ status: "searching" });
+		}
+	}, [autoCapture]);
+
+	const handleAnalysis = useCallback(
+		(analysis: FrameAnalysis, orientation: Orientation, mirrored: boolean) => {
+			const sideways =
+				orientation === "landscape-left" || orientation === "landscape-right";
+			const page =
+				analysis.page && uprightBox(analysis.page, orientation, mirrored);
+			const frame = sideways
+				? { width: analysis.height, height: analysis.width }
+				: { width: analysis.width, height: analysis.height };
+			sheetOutline.current = page && {
+				box: page,
+				aspect: frame.width / frame.height,
+			};
+			let next = nextAutoCapture(
+				autoCaptureState.current,
+				analysis,
+				Date.now(),
+			);
+			if (next.status === "capture") {
+				next = markCaptured(next);
+				Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+				capturePhoto();
+			}
+			autoCaptureState.current = next;
+			setGuide({ status: next.status, page, frame });
+		},
+		[capturePhoto],
+	);
+
+	const reportAnalysis = useMemo(
+		() => workletsModule?.Worklets.createRunOnJS(handleAnalysis),
+		[handleAnalysis],
+	);
+
+	// Looks at a few frames a second for a steady, sharp page to take.
+	const frameProcessor = useSafeFrameProcessor(
+		(frame) => {
+			"worklet";
+			if (!reportAnalysis || !runAtTargetFps) {
+				return;
+			}
+			runAtTargetFps(ANALYSIS_FPS, () => {
+				"worklet";
+				if (frame.pixelFormat !== "yuv") {
+					return;
+				}
+				const analysis = analyzeLuma(
+					new Uint8Array(frame.toArrayBuffer()),
+					frame.width,
+					frame.height,
+					frame.bytesPerRow,
+				);
+				reportAnalysis(analysis, frame.orientation, frame.isMirrored);
+			});
+		},
+		[reportAnalysis],
+	);
 
 	const pickFromLibrary = useCallback(async () => {
 		try {
@@ -189,6 +410,8 @@ export default function CaptureScreen() {
 			const result = await ImagePicker.launchImageLibraryAsync({
 				mediaTypes: "images" as const,
 				allowsEditing: false,
+				allowsMultipleSelection: true,
+				orderedSelection: true,
 				quality: 0.8,
 				base64: false,
 			});
@@ -197,17 +420,34 @@ export default function CaptureScreen() {
 				return;
 			}
 
-			const asset = result.assets[0];
-			if (!asset.uri) {
+			result.assets.forEach((asset) => {
+				if (asset.uri) {
+					addPage(asset.uri);
+				}
+			});
+		} catch (error) {
+			console.error("[pickFromLibrary] Failed to pick image", error);
+			Alert.alert("Image picker failed", "Please try again.");
+		}
+	}, [addPage]);
+
+	const pickPdf = useCallback(async () => {
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				type: "application/pdf",
+				copyToCacheDirectory: true,
+			});
+
+			if (result.canceled || !result.assets?.length) {
 				return;
 			}
 
-			await handleOcr(asset.uri);
+			await handlePdf(result.assets[0].uri);
 		} catch (error) {
-			console.error("[pickFromLibrary] Failed to pick image", error);
-			Alert.alert("Image picker failed", "Please try again.");
+			console.error("[pickPdf] Failed to pick PDF", error);
+			Alert.alert("Document picker failed", "Please try again.");
 		}
-	}, [handleOcr]);
+	}, [handlePdf]);
 
 	const cameraReady =
 		cameraSupported && !!device && hasPermission && !cameraTimeout;
@@ -236,13 +476,43 @@ export default function CaptureScreen() {
 		<SafeAreaView style={{ flex: 1, backgroundColor: "#000" }}>
 			<Stack.Screen options={{ headerShown: false }} />
 			{cameraReady && CameraComponent ? (
-				<CameraComponent
-					ref={cameraRef}
+				<View
 					style={{ flex: 1 }}
-					device={device!}
-					isActive={!isProcessing}
-					photo
-				/>
+					onLayout={(event) => setPreviewSize(event.nativeEvent.layout)}
+				>
+					<CameraComponent
+						ref={cameraRef}
+						style={{ flex: 1 }}
+						device={device!}
+						isActive={!isProcessing}
+						photo
+						pixelFormat="yuv"
+						frameProcessor={autoCapture ? frameProcessor : undefined}
+					/>
+					{autoCapture ? (
+						<CaptureGuide guide={guide} previewSize={previewSize} />
+					) : null}
+					{autoCaptureSupported ? (
+						<Pressable
+							accessibilityRole="switch"
+							accessibilityState={{ checked: autoCapture }}
+							onPress={() => setAutoCapture((current) => !current)}
+							style={{
+								position: "absolute",
+								top: theme.spacing.md,
+								right: theme.spacing.md,
+								paddingVertical: theme.spacing.xs,
+								paddingHorizontal: theme.spacing.sm,
+								borderRadius: theme.radius.sm,
+								backgroundColor: "rgba(0,0,0,0.5)",
+							}}
+						>
+							<Text style={{ color: "#fff", fontWeight: "600" }}>
+								{autoCapture ? "Auto capture on" : "Auto capture off"}
+							</Text>
+						</Pressable>
+					) : null}
+				</View>
 			) : (
 				<View
 					style={{
@@ -260,12 +530,12 @@ export default function CaptureScreen() {
 						}}
 					>
 						{isSimulator || cameraTimeout
-							? 'Camera is not available on simulator. Use "Pick image/PDF" to select an image from your device.'
+							? 'Camera is not available on simulator. Use "Pick image" or "Import PDF" to select a file from your device.'
 							: cameraSupported
 								? awaitingPermission
 									? "Camera permission is required to scan prescriptions."
 									: "Loading camera…"
-								: "Camera capture requires a development build with the Vision Camera module. You can still pick an existing image below."}
+								: "Camera capture requires a development build with the Vision Camera module. You can still pick an existing image or PDF below."}
 					</Text>
 					{awaitingPermission ? (
 						<Pressable
@@ -301,6 +571,37 @@ export default function CaptureScreen() {
 						{errorMessage}
 					</Text>
 				) : null}
+				{pages.length ? (
+					<View
+						style={{ gap: theme.spacing.sm, marginBottom: theme.spacing.md }}
+					>
+						<ScrollView
+							horizontal
+							contentContainerStyle={{ gap: theme.spacing.sm }}
+						>
+							{pages.map((page, index) => (
+								<PageThumbnail
+									key={page.id}
+									page={page}
+									number={index + 1}
+									onMoveBack={
+										index > 0 ? () => movePage(page.id, -1) : undefined
+									}
+									onMoveForward={
+										index < pages.length - 1
+											? () => movePage(page.id, 1)
+											: undefined
+									}
+									onRemove={() => removePage(page.id)}
+								/>
+							))}
+						</ScrollView>
+						<CaptureButton
+							label={`Review ${pages.length} page${pages.length > 1 ? "s" : ""}`}
+							onPress={finishSession}
+						/>
+					</View>
+				) : null}
 				{isProcessing ? (
 					<View
 						style={{
@@ -318,7 +619,7 @@ export default function CaptureScreen() {
 							<CaptureButton label="Capture" onPress={capturePhoto} />
 						) : null}
 						<CaptureButton
-							label="Pick image/PDF"
+							label="Pick image"
 							onPress={pickFromLibrary}
 							variant={
 								isSimulator || cameraTimeout || !cameraSupported
@@ -326,6 +627,11 @@ export default function CaptureScreen() {
 									: "outline"
 							}
 						/>
+						<CaptureButton
+							label="Import PDF"
+							onPress={pickPdf}
+							variant="outline"
+						/>
 					</View>
 				)}
 			</View>
@@ -333,6 +639,119 @@ export default function CaptureScreen() {
 	);
 }
 
+/**
+ * Outline of the page found in the preview, or a placeholder frame to aim at,
+ * with a hint on what auto capture is waiting for.
+ */
+const CaptureGuide = ({
+	guide,
+	previewSize,
+}: {
+	guide: Guide;
+	previewSize?: { width: number; height: number };
+}) => {
+	const outline =
+		guide.page && guide.frame && previewSize
+			? previewRect(guide.page, guide.frame, previewSize)
+			: ({ left: "10%", top: "12%", width: "80%", height: "76%" } as const);
+	return (
+		<View
+			pointerEvents="none"
+			style={{ position: "absolute", top: 0, right: 0, bottom: 0, left: 0 }}
+		>
+			<View
+				style={{
+					position: "absolute",
+					...outline,
+					borderWidth: 3,
+					borderRadius: theme.radius.sm,
+					borderStyle: guide.page ? "solid" : "dashed",
+					borderColor: GUIDE_COLORS[guide.status],
+				}}
+			/>
+			<Text
+				style={{
+					position: "absolute",
+					bottom: theme.spacing.lg,
+					alignSelf: "center",
+					color: "#fff",
+					fontWeight: "600",
+					paddingVertical: theme.spacing.xs,
+					paddingHorizontal: theme.spacing.sm,
+					borderRadius: theme.radius.sm,
+					overflow: "hidden",
+					backgroundColor: "rgba(0,0,0,0.5)",
+				}}
+			>
+				{GUIDE_HINTS[guide.status]}
+			</Text>
+		</View>
+	);
+};
+
+type PageThumbnailProps = {
+	page: SessionPage;
+	number: number;
+	onMoveBack?: () => void;
+	onMoveForward?: () => void;
+	onRemove: () => void;
+};
+
+const PageThumbnail = ({
+	page,
+	number,
+	onMoveBack,
+	onMoveForward,
+	onRemove,
+}: PageThumbnailProps) => (
+	<View style={{ width: 72, gap: theme.spacing.xs, alignItems: "center" }}>
+		<Image
+			source={{ uri: page.uri }}
+			accessibilityLabel={`Page ${number}`}
+			style={{
+				width: 72,
+				height: 96,
+				borderRadius: theme.radius.sm,
+				borderWidth: 1,
+				borderColor: page.status === "failed" ? theme.colors.warning : "#fff",
+				opacity: page.status === "reading" ? 0.5 : 1,
+			}}
+		/>
+		<Text style={{ color: "#fff", fontSize: 12 }}>
+			{page.status === "reading"
+				? `${number} · reading`
+				: page.status === "failed"
+					? `${number} · no text`
+					: `Page ${number}`}
+		</Text>
+		<View style={{ flexDirection: "row", gap: theme.spacing.xs }}>
+			<ThumbnailAction label="‹" hint="Move earlier" onPress={onMoveBack} />
+			<ThumbnailAction label="✕" hint="Remove page" onPress={onRemove} />
+			<ThumbnailAction label="›" hint="Move later" onPress={onMoveForward} />
+		</View>
+	</View>
+);
+
+const ThumbnailAction = ({
+	label,
+	hint,
+	onPress,
+}: {
+	label: string;
+	hint: string;
+	onPress?: () => void;
+}) => (
+	<Pressable
+		accessibilityRole="button"
+		accessibilityLabel={hint}
+		disabled={!onPress}
+		onPress={onPress}
+		style={{ paddingHorizontal: theme.spacing.xs, opacity: onPress ? 1 : 0.3 }}
+	>
+		<Text style={{ color: "#fff", fontSize: 16 }}>{label}</Text>
+	</Pressable>
+);
+
 type CaptureButtonProps = {
 	label: string;
 	onPress: () => void;
@@ -1,15 +1,49 @@
+import dayjs from "dayjs";
 import { Stack, useRouter } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import {
+	Pressable,
+	ScrollView,
+	Share,
+	Switch,
+	Text,
+	TextInput,
+	View,
+} from "react-native";
 import { z } from "zod";
-import { parsePrescriptionText } from "../lib/parse";
+import { MEASUREMENT_LABELS } from "../lib/conditions";
+import { describeDirective, findDirectiveTarget } from "../lib/directives";
+import { findDrug, isCorrection, suggestDrugNames } from "../lib/drugs";
+import { getLocale } from "../lib/locales";
+import { uncertainElements } from "../lib/ocr";
+import { formatTrace, needsReview, parsePrescription } from "../lib/parse";
+import {
+	courseEndDate,
+	describeFrequency,
+	SUBSTANCE_DOSE_UNITS,
+} from "../lib/schedule";
+import { isInjectable } from "../lib/sites";
 import { useAppStore } from "../store";
 import { theme } from "../theme";
 import {
+	AdministrationSite,
+	ClarificationQuestion,
 	DosageInstruction,
+	DoseCondition,
+	FieldMeta,
 	Frequency,
+	InstructionField,
+	Laterality,
+	Measurement,
 	MedicationPlan,
+	ParsedPlan,
+	ParseResult,
+	PlanField,
+	PrnLimits,
+	RoutineAnchor,
+	SiteLocation,
 	TimingWhen,
+	Weekday,
 } from "../types";
 
 const SAMPLE_TEXT = `Amoxicillin 500 mg
@@ -25,6 +59,8 @@ const frequencyOptions: { value: Frequency; label: string }[] = [
 	{ value: "QPM", label: "QPM" },
 	{ value: "QHS", label: "QHS" },
 	{ value: "QOD", label: "QOD" },
+	{ value: "QW", label: "Weekly" },
+	{ value: "INTERVAL", label: "Every N h" },
 	{ value: "PRN", label: "PRN" },
 ];
 
@@ -37,41 +73,226 @@ const timingOptions: { value: TimingWhen; label: string }[] = [
 	{ value: "AFTER_MEAL", label: "After meal" },
 ];
 
-const dosageSchema = z.object({
-	amount: z.number().positive(),
-	unit: z.enum(["mg", "ml", "tab", "caps", "drops", "sprays"]),
-});
+const weekdayOptions: { value: Weekday; label: string }[] = [
+	{ value: 1, label: "Mon" },
+	{ value: 2, label: "Tue" },
+	{ value: 3, label: "Wed" },
+	{ value: 4, label: "Thu" },
+	{ value: 5, label: "Fri" },
+	{ value: 6, label: "Sat" },
+	{ value: 0, label: "Sun" },
+];
 
-const dosageInstructionSchema = z.object({
-	dose: dosageSchema,
-	frequency: z.enum([
-		"QD",
-		"BID",
-		"TID",
-		"QID",
-		"QHS",
-		"QAM",
-		"QPM",
-		"QOD",
-		"PRN",
-	]),
-	timesOfDay: z.array(z.string()).optional(),
-	when: z
-		.array(
-			z.enum(["MORN", "NOON", "EVE", "NIGHT", "BEFORE_MEAL", "AFTER_MEAL"]),
-		)
-		.optional(),
-	durationDays: z.number().positive().optional(),
-	prn: z.boolean().optional(),
+// Starting point when the patient adds a condition the parser missed.
+const DEFAULT_CONDITION: DoseCondition = {
+	measurement: "bloodPressure",
+	comparator: "<",
+	threshold: 100,
+	action: "skip",
+};
+
+const conditionActionOptions: {
+	value: DoseCondition["action"];
+	label: string;
+}[] = [
+	{ value: "skip", label: "Skip if" },
+	{ value: "take", label: "Take only if" },
+];
+
+const measurementOptions: { value: Measurement; label: string }[] = [
+	{ value: "bloodPressure", label: "BP (systolic)" },
+	{ value: "pulse", label: "Pulse" },
+	{ value: "temperature", label: "Temperature" },
+	{ value: "glucose", label: "Blood sugar" },
+];
+
+const comparatorOptions: {
+	value: DoseCondition["comparator"];
+	label: string;
+}[] = [
+	{ value: "<", label: "<" },
+	{ value: "<=", label: "≤" },
+	{ value: ">", label: ">" },
+	{ value: ">=", label: "≥" },
+];
+
+const siteLocationOptions: { value: SiteLocation; label: string }[] = [
+	{ value: "eye", label: "Eye" },
+	{ value: "ear", label: "Ear" },
+	{ value: "nostril", label: "Nostril" },
+	{ value: "abdomen", label: "Abdomen" },
+	{ value: "thigh", label: "Thigh" },
+	{ value: "arm", label: "Upper arm" },
+	{ value: "buttock", label: "Buttock" },
+];
+
+const sideOptions: { value: Laterality; label: string }[] = [
+	{ value: "left", label: "Left" },
+	{ value: "right", label: "Right" },
+	{ value: "both", label: "Both / each" },
+];
+
+const anchorOptions: { value: RoutineAnchor; label: string }[] = [
+	{ value: "wake", label: "Waking" },
+	{ value: "breakfast", label: "Breakfast" },
+	{ value: "lunch", label: "Lunch" },
+	{ value: "dinner", label: "Dinner" },
+	{ value: "bed", label: "Bedtime" },
+];
+
+const dosageSchema = z
+	.object({
+		amount: z.number().positive(),
+		maxAmount: z.number().positive().optional(),
+		unit: z.enum(
+			[
+				"mg",
+				"mcg",
+				"g",
+				"ml",
+				"IU",
+				"units",
+				"tab",
+				"caps",
+				"drops",
+				"sprays",
+				"puffs",
+				"patches",
+				"sachets",
+				"supp",
+			],
+			"Use a unit such as mg, mcg, g, ml, IU, units, tab, caps, drops, sprays, puffs, patches, sachets or supp.",
+		),
+	})
+	.refine(
+		(dose) => dose.maxAmount === undefined || dose.maxAmount > dose.amount,
+		{ message: "The upper dose must be larger than the lower one." },
+	);
+
+const clockSchema = z
+	.string()
+	.regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM for times.");
+
+const isoDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD for dates.");
+
+const intervalSchema = z.object({
+	everyHours: z.number().int().min(1).max(24),
+	anchor: clockSchema.optional(),
 });
 
+const dosageInstructionSchema = z
+	.object({
+		dose: dosageSchema,
+		frequency: z.enum([
+			"QD",
+			"BID",
+			"TID",
+			"QID",
+			"QHS",
+			"QAM",
+			"QPM",
+			"QOD",
+			"QW",
+			"INTERVAL",
+			"PRN",
+		]),
+		interval: intervalSchema.optional(),
+		cycle: z
+			.object({
+				daysOn: z.number().int().min(1),
+				daysOff: z.number().int().min(1),
+				startDate: isoDateSchema.optional(),
+			})
+			.optional(),
+		weekdays: z
+			.object({
+				days: z.array(z.number().int().min(0).max(6)).optional(),
+				everyWeeks: z.number().int().min(1).optional(),
+			})
+			.optional(),
+		timesOfDay: z.array(z.string()).optional(),
+		when: z
+			.array(
+				z.enum(["MORN", "NOON", "EVE", "NIGHT", "BEFORE_MEAL", "AFTER_MEAL"]),
+			)
+			.optional(),
+		mealTiming: z
+			.object({
+				offsetMins: z.number().int().min(-720).max(720),
+				anchors: z
+					.array(z.enum(["wake", "breakfast", "lunch", "dinner", "bed"]))
+					.optional(),
+			})
+			.optional(),
+		durationDays: z.number().positive().optional(),
+		quantity: z.number().positive().optional(),
+		untilFinished: z.boolean().optional(),
+		startDate: isoDateSchema.optional(),
+		endDate: isoDateSchema.optional(),
+		prn: z.boolean().optional(),
+		condition: z
+			.object({
+				measurement: z.enum([
+					"bloodPressure",
+					"pulse",
+					"temperature",
+					"glucose",
+				]),
+				comparator: z.enum(["<", "<=", ">", ">="]),
+				threshold: z.number({ message: "Enter the condition's threshold." }),
+				action: z.enum(["take", "skip"]),
+			})
+			.optional(),
+		prnLimits: z
+			.object({
+				maxAmountPerDay: z.number().positive().optional(),
+				maxDosesPerDay: z.number().int().min(1).optional(),
+				minIntervalHours: z.number().positive().optional(),
+			})
+			.optional(),
+		phase: z.number().int().nonnegative().optional(),
+	})
+	.refine(
+		(instruction) =>
+			instruction.frequency !== "INTERVAL" || Boolean(instruction.interval),
+		{ message: "Set the number of hours between doses." },
+	);
+
 const medicationPlanSchema = z.object({
 	id: z.string().min(1),
 	name: z.string().min(1),
+	genericName: z.string().optional(),
+	kind: z.enum(["medication", "task"]).optional(),
+	directive: z
+		.union([
+			z.object({ action: z.literal("stop") }),
+			z.object({
+				action: z.literal("modify"),
+				strength: z.string().optional(),
+				instruction: z.record(z.string(), z.unknown()).optional(),
+			}),
+		])
+		.optional(),
+	taskCategory: z
+		.enum(["measurement", "exercise", "hydration", "care"])
+		.optional(),
 	strength: z.string().optional(),
 	route: z
-		.enum(["po", "im", "iv", "inh", "sl", "topical", "nasal", "oph"])
+		.enum(["po", "im", "sc", "iv", "inh", "sl", "topical", "nasal", "oph"])
+		.optional(),
+	site: z
+		.object({
+			location: z
+				.enum(["eye", "ear", "nostril", "abdomen", "thigh", "arm", "buttock"])
+				.optional(),
+			side: z.enum(["left", "right", "both"]).optional(),
+		})
 		.optional(),
+	startDate: isoDateSchema.optional(),
+	endDate: isoDateSchema.optional(),
+	startsWith: z.enum(["next_period"]).optional(),
 	notes: z.string().optional(),
 	instructions: z.array(dosageInstructionSchema).min(1),
 });
@@ -81,10 +302,13 @@ export default function ReviewScreen() {
 	const draft = useAppStore((state) => state.draft);
 	const setDraftText = useAppStore((state) => state.setDraftText);
 	const setDraftPlans = useAppStore((state) => state.setDraftPlans);
+	const developerMode = useAppStore((state) => state.settings.developerMode);
+	const setDeveloperMode = useAppStore((state) => state.setDeveloperMode);
 
 	const [text, setText] = useState(() => draft.rawText);
 	const [plans, setPlans] = useState<MedicationPlan[]>(() => draft.parsed);
 	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+	const [parseResult, setParseResult] = useState<ParseResult | null>(null);
 
 	useEffect(() => {
 		setText(draft.rawText);
@@ -96,16 +320,29 @@ export default function ReviewScreen() {
 
 	const parseText = useCallback(
 		(sourceText: string) => {
-			const result = parsePrescriptionText(sourceText);
-			setPlans(result);
-			setDraftPlans(result);
+			const result = parsePrescription(sourceText, { explain: developerMode });
+			const parsedPlans = result.plans.map((parsed) => parsed.plan);
+			setParseResult(result);
+			setPlans(parsedPlans);
+			setDraftPlans(parsedPlans);
 			setErrorMessage(
-				result.length ? null : "Parser did not find any medications.",
+				parsedPlans.length ? null : "Parser did not find any medications.",
 			);
 		},
-		[setDraftPlans],
+		[setDraftPlans, developerMode],
 	);
 
+	const handleShareTrace = () => {
+		if (!parseResult?.trace) {
+			return;
+		}
+		Share.share({
+			message: `${parseResult.rawText}\n\n${formatTrace(parseResult.trace)}`,
+		}).catch((error) => {
+			console.warn("[ReviewScreen] Failed to share parser trace", error);
+		});
+	};
+
 	const handleParse = () => {
 		if (!text.trim()) {
 			setErrorMessage("Paste or capture your prescription first.");
@@ -125,6 +362,155 @@ export default function ReviewScreen() {
 		);
 	}, []);
 
+	const parsedLookup = useMemo(
+		() =>
+			new Map(
+				(parseResult?.plans ?? []).map(
+					(parsed) => [parsed.plan.id, parsed] as const,
+				),
+			),
+		[parseResult],
+	);
+
+	const updateParsed = useCallback(
+		(planId: string, update: (parsed: ParsedPlan) => ParsedPlan) => {
+			setParseResult((current) =>
+				current
+					? {
+							...current,
+							plans: current.plans.map((parsed) =>
+								parsed.plan.id === planId ? update(parsed) : parsed,
+							),
+						}
+					: current,
+			);
+		},
+		[],
+	);
+
+	const confirmField = useCallback(
+		(planId: string, field: PlanField) =>
+			updateParsed(planId, (parsed) => ({
+				...parsed,
+				fields: { ...parsed.fields, [field]: userMeta },
+			})),
+		[updateParsed],
+	);
+
+	const confirmInstructionField = useCallback(
+		(planId: string, index: number, field: InstructionField) =>
+			updateParsed(planId, (parsed) => ({
+				...parsed,
+				instructionFields: parsed.instructionFields.map((fields, position) =>
+					position === index ? { ...fields, [field]: userMeta } : fields,
+				),
+			})),
+		[updateParsed],
+	);
+
+	// Flags and questions are kept by instruction index, so they move up with
+	// the instructions after a removed one; the removed one's go with it.
+	const removeInstructionMeta = useCallback((planId: string, index: number) => {
+		const moved = (position: number) =>
+			position > index ? position - 1 : position;
+		setParseResult((current) =>
+			current
+				? {
+						...current,
+						plans: current.plans.map((parsed) =>
+							parsed.plan.id === planId
+								? {
+										...parsed,
+										instructionFields: parsed.instructionFields.filter(
+											(_, position) => position !== index,
+										),
+									}
+								: parsed,
+						),
+						questions: current.questions
+							.filter(
+								(question) =>
+									question.planId !== planId || question.instruction !== index,
+							)
+							.map((question) =>
+								question.planId === planId
+									? { ...question, instruction: moved(question.instruction) }
+									: question,
+							),
+					}
+				: current,
+		);
+	}, []);
+
+	// A question is settled once its field is answered or edited by hand.
+	const openQuestions = useMemo(
+		() =>
+			(parseResult?.questions ?? []).filter((question) => {
+				const plan = plans.find((item) => item.id === question.planId);
+				if (!plan?.instructions[question.instruction]) {
+					return false;
+				}
+				const meta = parsedLookup.get(question.planId)?.instructionFields[
+					question.instruction
+				]?.[question.field];
+				return meta?.source !== "user";
+			}),
+		[parseResult, plans, parsedLookup],
+	);
+
+	const answerQuestion = (
+		question: ClarificationQuestion,
+		changes: Partial<DosageInstruction>,
+	) => {
+		const plan = plans.find((item) => item.id === question.planId);
+		if (!plan) {
+			return;
+		}
+		updatePlan({
+			...plan,
+			instructions: plan.instructions.map((instruction, index) =>
+				index === question.instruction
+					? { ...instruction, ...changes }
+					: instruction,
+			),
+		});
+		confirmInstructionField(plan.id, question.instruction, question.field);
+	};
+
+	// Brand and generic names of the same medicine share a generic name.
+	const duplicateLookup = useMemo(() => {
+		const lookup = new Map<string, string>();
+		plans.forEach((plan, index) => {
+			const earlier = plans
+				.slice(0, index)
+				.find(
+					(other) => plan.genericName && other.genericName === plan.genericName,
+				);
+			if (earlier) {
+				lookup.set(plan.id, earlier.name);
+			}
+		});
+		return lookup;
+	}, [plans]);
+
+	const flaggedCount = useMemo(
+		() =>
+			plans.reduce((count, plan) => {
+				const parsed = parsedLookup.get(plan.id);
+				if (!parsed) {
+					return count;
+				}
+				const metas = [
+					...Object.values(parsed.fields),
+					...parsed.instructionFields.flatMap((fields) =>
+						Object.values(fields),
+					),
+				];
+				return count + metas.filter((meta) => needsReview(meta)).length;
+			}, 0),
+		[plans, parsedLookup],
+	);
+
 	const validatePlans = useCallback(() => {
 		try {
 			medicationPlanSchema.array().min(1).parse(plans);
@@ -145,6 +531,13 @@ export default function ReviewScreen() {
 			return;
 		}
 
+		if (openQuestions.length) {
+			setErrorMessage(
+				`Answer ${openQuestions.length} open question${openQuestions.length > 1 ? "s" : ""} before scheduling.`,
+			);
+			return;
+		}
+
 		if (!validatePlans()) {
 			return;
 		}
@@ -154,6 +547,15 @@ export default function ReviewScreen() {
 		router.push("/schedule");
 	};
 
+	// Only meaningful while the text is still what OCR produced.
+	const uncertainWords = useMemo(
+		() =>
+			draft.ocr && draft.ocr.text === text
+				? uncertainElements(draft.ocr).map((element) => element.text)
+				: [],
+		[draft.ocr, text],
+	);
+
 	const parsedCountLabel = useMemo(() => {
 		if (!plans.length) {
 			return "No medications parsed yet.";
@@ -196,20 +598,128 @@ export default function ReviewScreen() {
 							textAlignVertical: "top",
 						}}
 					/>
+					{uncertainWords.length ? (
+						<Text style={{ color: theme.colors.warning, fontSize: 12 }}>
+							OCR was unsure of: {uncertainWords.join(", ")}. Check these words
+							against the paper.
+						</Text>
+					) : null}
 					<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
 						<SecondaryButton label="Insert sample" onPress={handleSample} />
 						<PrimaryButton label="Run parser" onPress={handleParse} />
 					</View>
 					<Text style={{ color: theme.colors.textMuted }}>
 						{parsedCountLabel}
+						{parseResult?.locale
+							? ` Language: ${getLocale(parseResult.locale)?.name ?? parseResult.locale}.`
+							: ""}
 					</Text>
 					{errorMessage ? (
 						<Text style={{ color: theme.colors.warning }}>{errorMessage}</Text>
 					) : null}
+					{flaggedCount ? (
+						<Text style={{ color: theme.colors.warning }}>
+							{flaggedCount} field{flaggedCount > 1 ? "s were" : " was"} guessed
+							or unclear. Please double-check the highlighted values.
+						</Text>
+					) : null}
+					<View
+						style={{
+							flexDirection: "row",
+							alignItems: "center",
+							justifyContent: "space-between",
+						}}
+					>
+						<Text style={{ color: theme.colors.textMuted }}>
+							Developer: parser trace
+						</Text>
+						<Switch
+							accessibilityLabel="Show parser trace"
+							value={developerMode}
+							onValueChange={setDeveloperMode}
+						/>
+					</View>
+					{developerMode ? (
+						parseResult?.trace ? (
+							<View
+								style={{
+									gap: theme.spacing.sm,
+									padding: theme.spacing.md,
+									borderRadius: theme.radius.md,
+									backgroundColor: theme.colors.surface,
+								}}
+							>
+								<Text
+									selectable
+									style={{
+										fontFamily: "monospace",
+										fontSize: 11,
+										color: theme.colors.text,
+									}}
+								>
+									{formatTrace(parseResult.trace)}
+								</Text>
+								<SecondaryButton
+									label="Share trace"
+									onPress={handleShareTrace}
+								/>
+							</View>
+						) : (
+							<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
+								Run the parser to record a trace.
+							</Text>
+						)
+					) : null}
 				</View>
 
+				{openQuestions.length ? (
+					<View
+						style={{
+							gap: theme.spacing.sm,
+							padding: theme.spacing.md,
+							borderRadius: theme.radius.md,
+							backgroundColor: theme.colors.surface,
+							borderWidth: 1,
+							borderColor: theme.colors.warning,
+						}}
+					>
+						<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
+							Question 1 of {openQuestions.length}
+						</Text>
+						<Text style={{ color: theme.colors.text, fontWeight: "600" }}>
+							{openQuestions[0].prompt}
+						</Text>
+						<ChoiceChips
+							options={openQuestions[0].options.map((option, index) => ({
+								value: String(index),
+								label: option.label,
+							}))}
+							onSelect={(value) =>
+								answerQuestion(
+									openQuestions[0],
+									openQuestions[0].options[Number(value)].changes,
+								)
+							}
+						/>
+					</View>
+				) : null}
+
 				{plans.map((plan) => (
-					<MedicationCard key={plan.id} plan={plan} onChange={updatePlan} />
+					<MedicationCard
+						key={plan.id}
+						plan={plan}
+						onChange={updatePlan}
+						parsed={parsedLookup.get(plan.id)}
+						duplicateOf={duplicateLookup.get(plan.id)}
+						rawText={parseResult?.rawText ?? ""}
+						onConfirmField={(field) => confirmField(plan.id, field)}
+						onConfirmInstructionField={(index, field) =>
+							confirmInstructionField(plan.id, index, field)
+						}
+						onRemoveInstruction={(index) =>
+							removeInstructionMeta(plan.id, index)
+						}
+					/>
 				))}
 			</ScrollView>
 			<View
@@ -225,31 +735,149 @@ export default function ReviewScreen() {
 	);
 }
 
+const userMeta: FieldMeta = { source: "user", confidence: 1 };
+
 type MedicationCardProps = {
 	plan: MedicationPlan;
 	onChange: (plan: MedicationPlan) => void;
+	parsed?: ParsedPlan;
+	duplicateOf?: string; // name of an earlier plan with the same generic
+	rawText: string;
+	onConfirmField: (field: PlanField) => void;
+	onConfirmInstructionField: (index: number, field: InstructionField) => void;
+	onRemoveInstruction: (index: number) => void;
 };
 
-const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
-	const instruction = plan.instructions[0];
+const MedicationCard = ({
+	plan,
+	onChange,
+	parsed,
+	duplicateOf,
+	rawText,
+	onConfirmField,
+	onConfirmInstructionField,
+	onRemoveInstruction,
+}: MedicationCardProps) => {
+	const isTask = plan.kind === "task";
+	const nameSuggestions = useMemo(
+		() =>
+			isTask
+				? []
+				: suggestDrugNames(plan.name).filter((match) =>
+						isCorrection(match, plan.name),
+					),
+		[isTask, plan.name],
+	);
+	const routine = useAppStore((state) => state.settings.routine);
+	const medPlans = useAppStore((state) => state.medPlans);
+	const directiveTarget = useMemo(
+		() => (plan.directive ? findDirectiveTarget(plan, medPlans) : undefined),
+		[plan, medPlans],
+	);
+	const lastDose = useMemo(
+		() => (plan.directive ? undefined : courseEndDate(plan, dayjs(), routine)),
+		[plan, routine],
+	);
 
-	const updateInstruction = (changes: Partial<DosageInstruction>) => {
-		const nextInstruction = { ...instruction, ...changes };
-		if (nextInstruction.frequency !== "PRN") {
-			nextInstruction.prn = undefined;
-		} else {
-			nextInstruction.prn = true;
+	// Tapping the selected chip again clears that part of the site.
+	const updateSite = (changes: AdministrationSite) => {
+		onConfirmField("site");
+		const next = { ...plan.site };
+		if (changes.location) {
+			next.location =
+				changes.location === next.location ? undefined : changes.location;
 		}
-		onChange({ ...plan, instructions: [nextInstruction] });
+		if (changes.side) {
+			next.side = changes.side === next.side ? undefined : changes.side;
+		}
+		onChange({
+			...plan,
+			site: next.location || next.side ? next : undefined,
+		});
 	};
 
-	const toggleTiming = (value: TimingWhen) => {
-		const existing = instruction.when ?? [];
-		const hasValue = existing.includes(value);
-		const next = hasValue
-			? existing.filter((item) => item !== value)
-			: [...existing, value];
-		updateInstruction({ when: next.length ? next : undefined });
+	const phaseNumbers = Array.from(
+		new Set(plan.instructions.map((instruction) => instruction.phase ?? 0)),
+	).sort((a, b) => a - b);
+	const slotsInPhase = (phase: number) =>
+		plan.instructions.filter(
+			(instruction) => (instruction.phase ?? 0) === phase,
+		);
+
+	const instructionTitle = (instruction: DosageInstruction) => {
+		const phase = instruction.phase ?? 0;
+		return (
+			[
+				phaseNumbers.length > 1
+					? `Phase ${phaseNumbers.indexOf(phase) + 1}`
+					: undefined,
+				slotsInPhase(phase).length > 1
+					? (instruction.timesOfDay?.join(", ") ??
+						describeFrequency(instruction))
+					: undefined,
+			]
+				.filter(Boolean)
+				.join(" · ") || undefined
+		);
+	};
+
+	const updateInstruction = (index: number, next: DosageInstruction) => {
+		onChange({
+			...plan,
+			instructions: plan.instructions.map((instruction, position) =>
+				position === index ? next : instruction,
+			),
+		});
+	};
+
+	// Time slots share their phase number; phases are renumbered from zero.
+	const renumberPhases = (instructions: DosageInstruction[]) => {
+		const phases = Array.from(
+			new Set(instructions.map((instruction) => instruction.phase ?? 0)),
+		).sort((a, b) => a - b);
+		return phases.length > 1
+			? instructions.map((instruction) => ({
+					...instruction,
+					phase: phases.indexOf(instruction.phase ?? 0),
+				}))
+			: instructions.map(({ phase: _phase, ...instruction }) => instruction);
+	};
+
+	const addPhase = () => {
+		const lastPhase = phaseNumbers[phaseNumbers.length - 1];
+		onChange({
+			...plan,
+			instructions: renumberPhases([
+				...plan.instructions,
+				...slotsInPhase(lastPhase).map((instruction) => ({
+					...instruction,
+					durationDays: undefined,
+					quantity: undefined,
+					phase: lastPhase + 1,
+				})),
+			]),
+		});
+	};
+
+	const addTimeSlot = () => {
+		const last = plan.instructions[plan.instructions.length - 1];
+		onChange({
+			...plan,
+			instructions: [
+				...plan.instructions,
+				{ ...last, frequency: "QD", timesOfDay: undefined, when: undefined },
+			],
+		});
+	};
+
+	const removeInstruction = (index: number) => {
+		onRemoveInstruction(index);
+		onChange({
+			...plan,
+			instructions: renumberPhases(
+				plan.instructions.filter((_, position) => position !== index),
+			),
+		});
 	};
 
 	return (
@@ -263,48 +891,542 @@ const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
 				borderColor: theme.colors.border,
 			}}
 		>
-			<TextInput
-				value={plan.name}
-				onChangeText={(name) => onChange({ ...plan, name })}
-				placeholder="Medication name"
-				style={inputStyle}
-			/>
-			<TextInput
-				value={plan.strength ?? ""}
-				onChangeText={(strength) => onChange({ ...plan, strength })}
-				placeholder="Strength (e.g. 500 mg)"
-				style={inputStyle}
-			/>
+			{plan.directive ? (
+				<View style={{ gap: theme.spacing.xs }}>
+					<Text style={{ fontWeight: "600", color: theme.colors.text }}>
+						{describeDirective(plan)}
+					</Text>
+					<Text
+						style={{
+							color: directiveTarget
+								? theme.colors.textMuted
+								: theme.colors.warning,
+							fontSize: 12,
+						}}
+					>
+						{directiveTarget
+							? `Applies to your current plan "${directiveTarget.name}".`
+							: "No current plan matches this name; correct the name or add it as a new medication."}
+					</Text>
+					<Pressable
+						accessibilityRole="button"
+						onPress={() => onChange({ ...plan, directive: undefined })}
+					>
+						<Text style={{ color: theme.colors.primary }}>
+							Add as a new medication instead
+						</Text>
+					</Pressable>
+				</View>
+			) : (
+				<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+					{[
+						{ task: false, label: "Medication" },
+						{ task: true, label: "Task" },
+					].map((option) => {
+						const selected = isTask === option.task;
+						return (
+							<Pressable
+								key={option.label}
+								accessibilityRole="button"
+								onPress={() =>
+									onChange(
+										option.task
+											? {
+													...plan,
+													kind: "task",
+													genericName: undefined,
+													strength: undefined,
+												}
+											: {
+													...plan,
+													kind: undefined,
+													taskCategory: undefined,
+													genericName: findDrug(plan.name)?.generic,
+												},
+									)
+								}
+								style={{
+									paddingVertical: theme.spacing.xs,
+									paddingHorizontal: theme.spacing.sm,
+									borderRadius: theme.radius.sm,
+									backgroundColor: selected
+										? theme.colors.primary
+										: theme.colors.background,
+									borderWidth: 1,
+									borderColor: selected
+										? theme.colors.primary
+										: theme.colors.border,
+								}}
+							>
+								<Text style={{ color: selected ? "#fff" : theme.colors.text }}>
+									{option.label}
+								</Text>
+							</Pressable>
+						);
+					})}
+				</View>
+			)}
+			<View>
+				<TextInput
+					value={plan.name}
+					onChangeText={(name) => {
+						onConfirmField("name");
+						onChange({
+							...plan,
+							name,
+							genericName: isTask ? undefined : findDrug(name)?.generic,
+						});
+					}}
+					placeholder={isTask ? "What to do" : "Medication name"}
+					style={[inputStyle, flaggedInput(parsed?.fields.name)]}
+				/>
+				<FieldFlag meta={parsed?.fields.name} rawText={rawText} />
+				{nameSuggestions.length ? (
+					<View
+						style={{
+							flexDirection: "row",
+							flexWrap: "wrap",
+							alignItems: "center",
+							gap: theme.spacing.sm,
+							marginTop: theme.spacing.xs,
+						}}
+					>
+						<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
+							Did you mean
+						</Text>
+						{nameSuggestions.map((match) => (
+							<Pressable
+								key={match.generic}
+								accessibilityRole="button"
+								onPress={() => {
+									onConfirmField("name");
+									onChange({
+										...plan,
+										name: match.corrected,
+										genericName: match.generic,
+									});
+								}}
+								style={{
+									paddingVertical: theme.spacing.xs,
+									paddingHorizontal: theme.spacing.sm,
+									borderRadius: theme.radius.sm,
+									borderWidth: 1,
+									borderColor: theme.colors.primary,
+								}}
+							>
+								<Text style={{ color: theme.colors.primary }}>
+									{match.corrected}
+								</Text>
+							</Pressable>
+						))}
+					</View>
+				) : null}
+				{plan.genericName && plan.genericName !== plan.name.toLowerCase() ? (
+					<Text
+						style={{
+							color: theme.colors.textMuted,
+							fontSize: 12,
+							marginTop: theme.spacing.xs,
+						}}
+					>
+						Generic: {plan.genericName}
+					</Text>
+				) : null}
+				{plan.sourcePage ? (
+					<Text
+						style={{
+							color: theme.colors.textMuted,
+							fontSize: 12,
+							marginTop: theme.spacing.xs,
+						}}
+					>
+						From page {plan.sourcePage}
+					</Text>
+				) : null}
+				{duplicateOf ? (
+					<Text
+						style={{
+							color: theme.colors.warning,
+							fontSize: 12,
+							marginTop: theme.spacing.xs,
+						}}
+					>
+						Same medicine as {duplicateOf}; check it is not listed twice.
+					</Text>
+				) : null}
+				{lastDose ? (
+					<Text
+						style={{
+							color: theme.colors.textMuted,
+							fontSize: 12,
+							marginTop: theme.spacing.xs,
+						}}
+					>
+						{isTask ? "Last reminder" : "Last dose"}{" "}
+						{lastDose.format("ddd, MMM D")}
+					</Text>
+				) : null}
+			</View>
+			{isTask || plan.directive ? null : (
+				<View>
+					<TextInput
+						value={plan.strength ?? ""}
+						onChangeText={(strength) => {
+							onConfirmField("strength");
+							onChange({ ...plan, strength });
+						}}
+						placeholder="Strength (e.g. 500 mg)"
+						style={[inputStyle, flaggedInput(parsed?.fields.strength)]}
+					/>
+					<FieldFlag meta={parsed?.fields.strength} rawText={rawText} />
+				</View>
+			)}
+			{isTask || plan.directive ? null : (
+				<View style={{ gap: theme.spacing.sm }}>
+					<Text style={labelStyle}>
+						{isInjectable(plan) ? "Injection site" : "Site"}
+					</Text>
+					<ChoiceChips
+						options={siteLocationOptions}
+						selected={plan.site?.location}
+						onSelect={(location) => updateSite({ location })}
+					/>
+					<ChoiceChips
+						options={sideOptions}
+						selected={plan.site?.side}
+						onSelect={(side) => updateSite({ side })}
+					/>
+					{isInjectable(plan) &&
+					plan.site?.side !== "left" &&
+					plan.site?.side !== "right" ? (
+						<Text style={{ color: theme.colors.textMuted, fontSize: 12 }}>
+							Today suggests the next site in rotation for each injection.
+						</Text>
+					) : null}
+					<FieldFlag meta={parsed?.fields.site} rawText={rawText} />
+				</View>
+			)}
 			<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
 				<View style={{ flex: 1 }}>
-					<Text style={labelStyle}>Dose amount</Text>
+					<Text style={labelStyle}>Start date</Text>
 					<TextInput
-						value={instruction.dose.amount.toString()}
-						keyboardType="decimal-pad"
+						value={plan.startDate ?? ""}
 						onChangeText={(value) => {
-							const amount =
-								Number.parseFloat(value) || instruction.dose.amount;
-							updateInstruction({ dose: { ...instruction.dose, amount } });
+							onConfirmField("startDate");
+							onChange({ ...plan, startDate: value.trim() || undefined });
 						}}
-						style={inputStyle}
+						placeholder="YYYY-MM-DD"
+						style={[inputStyle, flaggedInput(parsed?.fields.startDate)]}
 					/>
 				</View>
 				<View style={{ flex: 1 }}>
-					<Text style={labelStyle}>Unit</Text>
+					<Text style={labelStyle}>End date</Text>
 					<TextInput
-						value={instruction.dose.unit}
-						onChangeText={(unit) =>
-							updateInstruction({
-								dose: {
-									...instruction.dose,
-									unit: unit as DosageInstruction["dose"]["unit"],
-								},
-							})
-						}
-						style={inputStyle}
+						value={plan.endDate ?? ""}
+						onChangeText={(value) => {
+							onConfirmField("endDate");
+							onChange({ ...plan, endDate: value.trim() || undefined });
+						}}
+						placeholder="YYYY-MM-DD"
+						style={[inputStyle, flaggedInput(parsed?.fields.endDate)]}
 					/>
 				</View>
 			</View>
+			{plan.startsWith === "next_period" && !plan.startDate ? (
+				<Text style={{ color: theme.colors.warning, fontSize: 12 }}>
+					Starts with your next period. Enter that date to schedule reminders.
+				</Text>
+			) : (
+				<FieldFlag meta={parsed?.fields.startDate} rawText={rawText} />
+			)}
+			<FieldFlag meta={parsed?.fields.endDate} rawText={rawText} />
+
+			{plan.directive ? null : (
+				<>
+					{plan.instructions.map((instruction, index) => (
+						<InstructionEditor
+							key={index}
+							title={instructionTitle(instruction)}
+							instruction={instruction}
+							isTask={isTask}
+							fields={parsed?.instructionFields[index] ?? {}}
+							rawText={rawText}
+							onChange={(next, field) => {
+								if (field) {
+									onConfirmInstructionField(index, field);
+								}
+								updateInstruction(index, next);
+							}}
+							onRemove={
+								plan.instructions.length > 1
+									? () => removeInstruction(index)
+									: undefined
+							}
+						/>
+					))}
+					<SecondaryButton label="Add time slot" onPress={addTimeSlot} />
+					<SecondaryButton label="Add phase (then…)" onPress={addPhase} />
+				</>
+			)}
+
+			<TextInput
+				value={plan.notes ?? ""}
+				onChangeText={(notes) => onChange({ ...plan, notes })}
+				placeholder="Notes"
+				style={inputStyle}
+			/>
+		</View>
+	);
+};
+
+type InstructionEditorProps = {
+	title?: string;
+	instruction: DosageInstruction;
+	isTask?: boolean; // tasks have no dose or pack to edit
+	fields: Partial<Record<InstructionField, FieldMeta>>;
+	rawText: string;
+	onChange: (instruction: DosageInstruction, field?: InstructionField) => void;
+	onRemove?: () => void;
+};
+
+const InstructionEditor = ({
+	title,
+	instruction,
+	isTask,
+	fields: instructionFields,
+	rawText,
+	onChange,
+	onRemove,
+}: InstructionEditorProps) => {
+	const updateInstruction = (
+		changes: Partial<DosageInstruction>,
+		field?: InstructionField,
+	) => {
+		const nextInstruction = { ...instruction, ...changes };
+		if (nextInstruction.frequency !== "PRN") {
+			nextInstruction.prn = undefined;
+		} else {
+			nextInstruction.prn = true;
+		}
+		if (nextInstruction.frequency !== "INTERVAL") {
+			nextInstruction.interval = undefined;
+		} else if (!nextInstruction.interval && !("interval" in changes)) {
+			nextInstruction.interval = { everyHours: 8 };
+		}
+		onChange(nextInstruction, field);
+	};
+
+	const updateCycle = (changes: {
+		daysOn?: string;
+		daysOff?: string;
+		startDate?: string;
+	}) => {
+		const readDays = (value: string | undefined, fallback = 0) => {
+			if (value === undefined) {
+				return fallback;
+			}
+			const days = Number.parseInt(value, 10);
+			return Number.isFinite(days) ? days : 0;
+		};
+		const daysOn = readDays(changes.daysOn, instruction.cycle?.daysOn);
+		const daysOff = readDays(changes.daysOff, instruction.cycle?.daysOff);
+		const startDate =
+			changes.startDate !== undefined
+				? changes.startDate.trim() || undefined
+				: instruction.cycle?.startDate;
+		updateInstruction(
+			{
+				cycle: daysOn || daysOff ? { daysOn, daysOff, startDate } : undefined,
+			},
+			"cycle",
+		);
+	};
+
+	// Kept as typed so "37." can be entered on the way to "37.5".
+	const threshold = instruction.condition?.threshold;
+	const [thresholdDraft, setThresholdDraft] = useState(
+		threshold?.toString() ?? "",
+	);
+	useEffect(() => {
+		setThresholdDraft((current) =>
+			Number.parseFloat(current.replace(",", ".")) === threshold
+				? current
+				: (threshold?.toString() ?? ""),
+		);
+	}, [threshold]);
+	const updateCondition = (changes: Partial<DoseCondition>) => {
+		updateInstruction(
+			{
+				condition: {
+					...DEFAULT_CONDITION,
+					...instruction.condition,
+					...changes,
+				},
+			},
+			"condition",
+		);
+	};
+
+	const updatePrnLimits = (
+		changes: Partial<Record<keyof PrnLimits, string>>,
+	) => {
+		const limits: PrnLimits = { ...instruction.prnLimits };
+		(Object.keys(changes) as (keyof PrnLimits)[]).forEach((key) => {
+			const value = Number.parseFloat(changes[key] ?? "");
+			limits[key] = Number.isFinite(value) && value > 0 ? value : undefined;
+		});
+		const hasLimits = Object.values(limits).some(
+			(value) => value !== undefined,
+		);
+		updateInstruction(
+			{ prnLimits: hasLimits ? limits : undefined },
+			"prnLimits",
+		);
+	};
+
+	const toggleWeekday = (value: Weekday) => {
+		const existing = instruction.weekdays?.days ?? [];
+		const days = existing.includes(value)
+			? existing.filter((item) => item !== value)
+			: [...existing, value].sort((a, b) => a - b);
+		const weekdays = { ...instruction.weekdays, days };
+		updateInstruction(
+			{
+				weekdays:
+					days.length || (weekdays.everyWeeks ?? 1) > 1 ? weekdays : undefined,
+			},
+			"weekdays",
+		);
+	};
+
+	const updateMealTiming = (changes: {
+		minutes?: string;
+		before?: boolean;
+		anchor?: RoutineAnchor;
+	}) => {
+		const current = instruction.mealTiming;
+		let minutes = Math.abs(current?.offsetMins ?? 0);
+		if (changes.minutes !== undefined) {
+			const parsed = Number.parseInt(changes.minutes, 10);
+			minutes = Number.isFinite(parsed) ? Math.abs(parsed) : 0;
+		}
+		const before = changes.before ?? (current ? current.offsetMins < 0 : true);
+		let anchors = current?.anchors ?? [];
+		if (changes.anchor) {
+			anchors = anchors.includes(changes.anchor)
+				? anchors.filter((anchor) => anchor !== changes.anchor)
+				: [...anchors, changes.anchor];
+		}
+		const cleared =
+			changes.minutes !== undefined &&
+			!changes.minutes.trim() &&
+			!anchors.length;
+		updateInstruction(
+			{
+				mealTiming: cleared
+					? undefined
+					: {
+							offsetMins: before ? -minutes : minutes,
+							anchors: anchors.length ? anchors : undefined,
+						},
+			},
+			"mealTiming",
+		);
+	};
+
+	const toggleTiming = (value: TimingWhen) => {
+		const existing = instruction.when ?? [];
+		const hasValue = existing.includes(value);
+		const next = hasValue
+			? existing.filter((item) => item !== value)
+			: [...existing, value];
+		updateInstruction({ when: next.length ? next : undefined }, "when");
+	};
+
+	return (
+		<View style={{ gap: theme.spacing.md }}>
+			{title ? (
+				<View
+					style={{
+						flexDirection: "row",
+						justifyContent: "space-between",
+						alignItems: "center",
+					}}
+				>
+					<Text style={{ fontWeight: "600", color: theme.colors.text }}>
+						{title}
+					</Text>
+					{onRemove ? (
+						<Pressable accessibilityRole="button" onPress={onRemove}>
+							<Text style={{ color: theme.colors.danger }}>Remove</Text>
+						</Pressable>
+					) : null}
+				</View>
+			) : null}
+			{isTask ? null : (
+				<>
+					<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>Dose amount</Text>
+							<TextInput
+								value={instruction.dose.amount.toString()}
+								keyboardType="decimal-pad"
+								onChangeText={(value) => {
+									const amount =
+										Number.parseFloat(value) || instruction.dose.amount;
+									updateInstruction(
+										{ dose: { ...instruction.dose, amount } },
+										"dose",
+									);
+								}}
+								style={[inputStyle, flaggedInput(instructionFields.dose)]}
+							/>
+						</View>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>Up to (optional)</Text>
+							<TextInput
+								value={instruction.dose.maxAmount?.toString() ?? ""}
+								keyboardType="decimal-pad"
+								onChangeText={(value) => {
+									const maxAmount = Number.parseFloat(value);
+									updateInstruction(
+										{
+											dose: {
+												...instruction.dose,
+												maxAmount: Number.isFinite(maxAmount)
+													? maxAmount
+													: undefined,
+											},
+										},
+										"dose",
+									);
+								}}
+								placeholder="–"
+								style={[inputStyle, flaggedInput(instructionFields.dose)]}
+							/>
+						</View>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>Unit</Text>
+							<TextInput
+								value={instruction.dose.unit}
+								onChangeText={(unit) =>
+									updateInstruction(
+										{
+											dose: {
+												...instruction.dose,
+												unit: unit as DosageInstruction["dose"]["unit"],
+											},
+										},
+										"dose",
+									)
+								}
+								style={[inputStyle, flaggedInput(instructionFields.dose)]}
+							/>
+						</View>
+					</View>
+					<FieldFlag meta={instructionFields.dose} rawText={rawText} />
+				</>
+			)}
 
 			<View>
 				<Text style={labelStyle}>Frequency</Text>
@@ -320,7 +1442,9 @@ const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
 						return (
 							<Pressable
 								key={option.value}
-								onPress={() => updateInstruction({ frequency: option.value })}
+								onPress={() =>
+									updateInstruction({ frequency: option.value }, "frequency")
+								}
 								style={{
 									paddingVertical: theme.spacing.xs,
 									paddingHorizontal: theme.spacing.sm,
@@ -341,23 +1465,368 @@ const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
 						);
 					})}
 				</View>
+				<FieldFlag meta={instructionFields.frequency} rawText={rawText} />
+			</View>
+
+			{instruction.frequency === "INTERVAL" ? (
+				<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+					<View style={{ flex: 1 }}>
+						<Text style={labelStyle}>Every (hours)</Text>
+						<TextInput
+							value={instruction.interval?.everyHours.toString() ?? ""}
+							keyboardType="number-pad"
+							onChangeText={(value) => {
+								const everyHours = Number.parseInt(value, 10);
+								updateInstruction(
+									{
+										interval: Number.isFinite(everyHours)
+											? { ...instruction.interval, everyHours }
+											: undefined,
+									},
+									"frequency",
+								);
+							}}
+							placeholder="8"
+							style={inputStyle}
+						/>
+					</View>
+					<View style={{ flex: 1 }}>
+						<Text style={labelStyle}>First dose at</Text>
+						<TextInput
+							value={instruction.interval?.anchor ?? ""}
+							onChangeText={(value) => {
+								if (!instruction.interval) {
+									return;
+								}
+								const anchor = value.trim();
+								updateInstruction(
+									{
+										interval: {
+											...instruction.interval,
+											anchor: anchor.length ? anchor : undefined,
+										},
+									},
+									"frequency",
+								);
+							}}
+							placeholder="08:00"
+							style={inputStyle}
+						/>
+					</View>
+				</View>
+			) : null}
+
+			{instruction.frequency === "PRN" ? (
+				<View>
+					<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>
+								Max per 24 h ({instruction.dose.unit})
+							</Text>
+							<TextInput
+								value={instruction.prnLimits?.maxAmountPerDay?.toString() ?? ""}
+								keyboardType="decimal-pad"
+								onChangeText={(value) =>
+									updatePrnLimits({ maxAmountPerDay: value })
+								}
+								placeholder="–"
+								style={[inputStyle, flaggedInput(instructionFields.prnLimits)]}
+							/>
+						</View>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>Max doses per 24 h</Text>
+							<TextInput
+								value={instruction.prnLimits?.maxDosesPerDay?.toString() ?? ""}
+								keyboardType="number-pad"
+								onChangeText={(value) =>
+									updatePrnLimits({ maxDosesPerDay: value })
+								}
+								placeholder="–"
+								style={[inputStyle, flaggedInput(instructionFields.prnLimits)]}
+							/>
+						</View>
+						<View style={{ flex: 1 }}>
+							<Text style={labelStyle}>Hours between</Text>
+							<TextInput
+								value={
+									instruction.prnLimits?.minIntervalHours?.toString() ?? ""
+								}
+								keyboardType="decimal-pad"
+								onChangeText={(value) =>
+									updatePrnLimits({ minIntervalHours: value })
+								}
+								placeholder="–"
+								style={[inputStyle, flaggedInput(instructionFields.prnLimits)]}
+							/>
+						</View>
+					</View>
+					<FieldFlag meta={instructionFields.prnLimits} rawText={rawText} />
+				</View>
+			) : null}
+
+			<View style={{ gap: theme.spacing.sm }}>
+				<Text style={labelStyle}>Condition</Text>
+				{instruction.condition ? (
+					<>
+						<ChoiceChips
+							options={conditionActionOptions}
+							selected={instruction.condition.action}
+							onSelect={(action) => updateCondition({ action })}
+						/>
+						<ChoiceChips
+							options={measurementOptions}
+							selected={instruction.condition.measurement}
+							onSelect={(measurement) => updateCondition({ measurement })}
+						/>
+						<View
+							style={{
+								flexDirection: "row",
+								alignItems: "center",
+								gap: theme.spacing.sm,
+							}}
+						>
+							<ChoiceChips
+								options={comparatorOptions}
+								selected={instruction.condition.comparator}
+								onSelect={(comparator) => updateCondition({ comparator })}
+							/>
+							<TextInput
+								value={thresholdDraft}
+								keyboardType="decimal-pad"
+								onChangeText={(value) => {
+									setThresholdDraft(value);
+									const threshold = Number.parseFloat(value.replace(",", "."));
+									if (Number.isFinite(threshold)) {
+										updateCondition({ threshold });
+									}
+								}}
+								style={[
+									inputStyle,
+									{ flex: 1 },
+									flaggedInput(instructionFields.condition),
+								]}
+							/>
+							<Text style={{ color: theme.colors.textMuted }}>
+								{MEASUREMENT_LABELS[instruction.condition.measurement].unit}
+							</Text>
+						</View>
+						<Pressable
+							accessibilityRole="button"
+							onPress={() =>
+								updateInstruction({ condition: undefined }, "condition")
+							}
+						>
+							<Text style={{ color: theme.colors.danger }}>
+								Remove condition
+							</Text>
+						</Pressable>
+					</>
+				) : (
+					<Pressable
+						accessibilityRole="button"
+						onPress={() => updateCondition({})}
+					>
+						<Text style={{ color: theme.colors.primary }}>
+							Add a condition (e.g. skip if pulse below 60)
+						</Text>
+					</Pressable>
+				)}
+				<FieldFlag meta={instructionFields.condition} rawText={rawText} />
 			</View>
 
 			<View>
-				<Text style={labelStyle}>Duration (days)</Text>
-				<TextInput
-					value={instruction.durationDays?.toString() ?? ""}
-					keyboardType="number-pad"
-					onChangeText={(value) => {
-						const duration = Number.parseInt(value, 10);
-						updateInstruction({
-							durationDays: Number.isFinite(duration) ? duration : undefined,
-						});
+				<Text style={labelStyle}>
+					{instruction.frequency === "QW"
+						? "Day of the week"
+						: "Days of the week (none selected = every day)"}
+				</Text>
+				<View
+					style={{
+						flexDirection: "row",
+						flexWrap: "wrap",
+						gap: theme.spacing.sm,
 					}}
-					style={inputStyle}
-				/>
+				>
+					{weekdayOptions.map((option) => {
+						const selected = (instruction.weekdays?.days ?? []).includes(
+							option.value,
+						);
+						return (
+							<Pressable
+								key={option.value}
+								onPress={() => toggleWeekday(option.value)}
+								style={{
+									paddingVertical: theme.spacing.xs,
+									paddingHorizontal: theme.spacing.sm,
+									borderRadius: theme.radius.sm,
+									backgroundColor: selected
+										? theme.colors.primaryMuted
+										: theme.colors.background,
+									borderWidth: 1,
+									borderColor: selected
+										? theme.colors.primary
+										: needsReview(instructionFields.weekdays)
+											? theme.colors.warning
+											: theme.colors.border,
+								}}
+							>
+								<Text
+									style={{
+										color: selected ? theme.colors.primary : theme.colors.text,
+									}}
+								>
+									{option.label}
+								</Text>
+							</Pressable>
+						);
+					})}
+				</View>
+				<FieldFlag meta={instructionFields.weekdays} rawText={rawText} />
+				{instruction.frequency === "QW" || instruction.weekdays ? (
+					<View style={{ marginTop: theme.spacing.sm }}>
+						<Text style={labelStyle}>Repeat every (weeks)</Text>
+						<TextInput
+							value={(instruction.weekdays?.everyWeeks ?? 1).toString()}
+							keyboardType="number-pad"
+							onChangeText={(value) => {
+								const everyWeeks = Number.parseInt(value, 10);
+								updateInstruction(
+									{
+										weekdays: {
+											...instruction.weekdays,
+											everyWeeks:
+												Number.isFinite(everyWeeks) && everyWeeks > 1
+													? everyWeeks
+													: undefined,
+										},
+									},
+									"weekdays",
+								);
+							}}
+							style={inputStyle}
+						/>
+					</View>
+				) : null}
 			</View>
 
+			<View>
+				<Text style={labelStyle}>Cycle (days on / days off / day 1)</Text>
+				<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+					<TextInput
+						value={instruction.cycle?.daysOn.toString() ?? ""}
+						keyboardType="number-pad"
+						onChangeText={(value) => updateCycle({ daysOn: value })}
+						placeholder="21"
+						style={[inputStyle, { flex: 1 }]}
+					/>
+					<TextInput
+						value={instruction.cycle?.daysOff.toString() ?? ""}
+						keyboardType="number-pad"
+						onChangeText={(value) => updateCycle({ daysOff: value })}
+						placeholder="7"
+						style={[inputStyle, { flex: 1 }]}
+					/>
+					<TextInput
+						value={instruction.cycle?.startDate ?? ""}
+						onChangeText={(value) => updateCycle({ startDate: value })}
+						placeholder="YYYY-MM-DD"
+						editable={Boolean(instruction.cycle)}
+						style={[inputStyle, { flex: 2 }]}
+					/>
+				</View>
+				<FieldFlag meta={instructionFields.cycle} rawText={rawText} />
+			</View>
+
+			{title || instruction.startDate || instruction.endDate ? (
+				<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+					<View style={{ flex: 1 }}>
+						<Text style={labelStyle}>Phase start</Text>
+						<TextInput
+							value={instruction.startDate ?? ""}
+							onChangeText={(value) =>
+								updateInstruction(
+									{ startDate: value.trim() || undefined },
+									"startDate",
+								)
+							}
+							placeholder="After previous"
+							style={inputStyle}
+						/>
+					</View>
+					<View style={{ flex: 1 }}>
+						<Text style={labelStyle}>Phase end</Text>
+						<TextInput
+							value={instruction.endDate ?? ""}
+							onChangeText={(value) =>
+								updateInstruction(
+									{ endDate: value.trim() || undefined },
+									"endDate",
+								)
+							}
+							placeholder="YYYY-MM-DD"
+							style={inputStyle}
+						/>
+					</View>
+				</View>
+			) : null}
+
+			<View style={{ flexDirection: "row", gap: theme.spacing.sm }}>
+				<View style={{ flex: 1 }}>
+					<Text style={labelStyle}>Duration (days)</Text>
+					<TextInput
+						value={instruction.durationDays?.toString() ?? ""}
+						keyboardType="number-pad"
+						onChangeText={(value) => {
+							const duration = Number.parseInt(value, 10);
+							updateInstruction(
+								{
+									durationDays: Number.isFinite(duration)
+										? duration
+										: undefined,
+								},
+								"durationDays",
+							);
+						}}
+						style={inputStyle}
+					/>
+				</View>
+				{isTask ? null : (
+					<View style={{ flex: 1 }}>
+						<Text style={labelStyle}>
+							{`Pack quantity (${
+								SUBSTANCE_DOSE_UNITS.includes(instruction.dose.unit)
+									? "tablets"
+									: instruction.dose.unit
+							})`}
+						</Text>
+						<TextInput
+							value={instruction.quantity?.toString() ?? ""}
+							keyboardType="decimal-pad"
+							onChangeText={(value) => {
+								const quantity = Number.parseFloat(value);
+								updateInstruction(
+									{
+										quantity:
+											Number.isFinite(quantity) && quantity > 0
+												? quantity
+												: undefined,
+									},
+									"quantity",
+								);
+							}}
+							placeholder="Optional"
+							style={inputStyle}
+						/>
+					</View>
+				)}
+			</View>
+			{instruction.untilFinished && instruction.quantity === undefined ? (
+				<Text style={{ color: theme.colors.warning, fontSize: 12 }}>
+					Taken until the pack is finished; enter how much is in it to end the
+					course on time.
+				</Text>
+			) : null}
+
 			<View>
 				<Text style={labelStyle}>Times of day (HH:MM, comma separated)</Text>
 				<TextInput
@@ -367,9 +1836,12 @@ const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
 							.split(",")
 							.map((item) => item.trim())
 							.filter(Boolean);
-						updateInstruction({
-							timesOfDay: cleaned.length ? cleaned : undefined,
-						});
+						updateInstruction(
+							{
+								timesOfDay: cleaned.length ? cleaned : undefined,
+							},
+							"timesOfDay",
+						);
 					}}
 					placeholder="08:00, 20:00"
 					style={inputStyle}
@@ -417,16 +1889,132 @@ const MedicationCard = ({ plan, onChange }: MedicationCardProps) => {
 				</View>
 			</View>
 
-			<TextInput
-				value={plan.notes ?? ""}
-				onChangeText={(notes) => onChange({ ...plan, notes })}
-				placeholder="Notes"
-				style={inputStyle}
-			/>
+			<View>
+				<Text style={labelStyle}>
+					Minutes before or after meals (blank = fixed times)
+				</Text>
+				<TextInput
+					value={
+						instruction.mealTiming
+							? Math.abs(instruction.mealTiming.offsetMins).toString()
+							: ""
+					}
+					keyboardType="number-pad"
+					onChangeText={(value) => updateMealTiming({ minutes: value })}
+					placeholder="30"
+					style={[inputStyle, flaggedInput(instructionFields.mealTiming)]}
+				/>
+				{instruction.mealTiming ? (
+					<View
+						style={{
+							flexDirection: "row",
+							flexWrap: "wrap",
+							gap: theme.spacing.sm,
+							marginTop: theme.spacing.sm,
+						}}
+					>
+						{[
+							{ before: true, label: "Before" },
+							{ before: false, label: "After" },
+						].map((option) => {
+							const selected =
+								(instruction.mealTiming?.offsetMins ?? 0) < 0 === option.before;
+							return (
+								<Pressable
+									key={option.label}
+									onPress={() => updateMealTiming({ before: option.before })}
+									style={{
+										paddingVertical: theme.spacing.xs,
+										paddingHorizontal: theme.spacing.sm,
+										borderRadius: theme.radius.sm,
+										backgroundColor: selected
+											? theme.colors.primary
+											: theme.colors.background,
+										borderWidth: 1,
+										borderColor: selected
+											? theme.colors.primary
+											: theme.colors.border,
+									}}
+								>
+									<Text
+										style={{ color: selected ? "#fff" : theme.colors.text }}
+									>
+										{option.label}
+									</Text>
+								</Pressable>
+							);
+						})}
+						{anchorOptions.map((option) => {
+							const selected = (instruction.mealTiming?.anchors ?? []).includes(
+								option.value,
+							);
+							return (
+								<Pressable
+									key={option.value}
+									onPress={() => updateMealTiming({ anchor: option.value })}
+									style={{
+										paddingVertical: theme.spacing.xs,
+										paddingHorizontal: theme.spacing.sm,
+										borderRadius: theme.radius.sm,
+										backgroundColor: selected
+											? theme.colors.primaryMuted
+											: theme.colors.background,
+										borderWidth: 1,
+										borderColor: selected
+											? theme.colors.primary
+											: theme.colors.border,
+									}}
+								>
+									<Text
+										style={{
+											color: selected
+												? theme.colors.primary
+												: theme.colors.text,
+										}}
+									>
+										{option.label}
+									</Text>
+								</Pressable>
+							);
+						})}
+					</View>
+				) : null}
+				<FieldFlag meta={instructionFields.mealTiming} rawText={rawText} />
+			</View>
 		</View>
 	);
 };
 
+type FieldFlagProps = {
+	meta?: FieldMeta;
+	rawText: string;
+};
+
+const FieldFlag = ({ meta, rawText }: FieldFlagProps) => {
+	if (!meta || !needsReview(meta)) {
+		return null;
+	}
+	const excerpt = meta.span
+		? rawText.slice(meta.span.start, meta.span.end)
+		: undefined;
+	return (
+		<Text
+			style={{
+				color: theme.colors.warning,
+				fontSize: 12,
+				marginTop: theme.spacing.xs,
+			}}
+		>
+			{meta.source === "defaulted" || !excerpt
+				? "Not found in the text, a default was used. Please check."
+				: `Read from “${excerpt}”, but this may be wrong. Please check.`}
+		</Text>
+	);
+};
+
+const flaggedInput = (meta?: FieldMeta) =>
+	needsReview(meta) ? { borderColor: theme.colors.warning } : undefined;
+
 const inputStyle = {
 	borderRadius: theme.radius.sm,
 	borderWidth: 1,
@@ -464,6 +2052,51 @@ function PrimaryButton({ label, onPress }: ButtonProps) {
 	);
 }
 
+type ChoiceChipsProps<T extends string> = {
+	options: { value: T; label: string }[];
+	selected?: T;
+	onSelect: (value: T) => void;
+};
+
+function ChoiceChips<T extends string>({
+	options,
+	selected,
+	onSelect,
+}: ChoiceChipsProps<T>) {
+	return (
+		<View
+			style={{ flexDirection: "row", flexWrap: "wrap", gap: theme.spacing.sm }}
+		>
+			{options.map((option) => {
+				const isSelected = option.value === selected;
+				return (
+					<Pressable
+						key={option.value}
+						accessibilityRole="button"
+						onPress={() => onSelect(option.value)}
+						style={{
+							paddingVertical: theme.spacing.xs,
+							paddingHorizontal: theme.spacing.sm,
+							borderRadius: theme.radius.sm,
+							backgroundColor: isSelected
+								? theme.colors.primary
+								: theme.colors.background,
+							borderWidth: 1,
+							borderColor: isSelected
+								? theme.colors.primary
+								: theme.colors.border,
+						}}
+					>
+						<Text style={{ color: isSelected ? "#fff" : theme.colors.text }}>
+							{option.label}
+						</Text>
+					</Pressable>
+				);
+			})}
+		</View>
+	);
+}
+
 function SecondaryButton({ label, onPress }: ButtonProps) {
 	return (
 		<Pressable
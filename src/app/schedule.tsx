@@ -9,8 +9,20 @@ import {
 	Text,
 	View,
 } from "react-native";
+import { describeCondition } from "../lib/conditions";
+import {
+	applyDirective,
+	describeDirective,
+	findDirectiveTarget,
+	isFutureEvent,
+} from "../lib/directives";
 import { cancelForPlan, ensurePermissions, scheduleLocal } from "../lib/notify";
-import { expandPlan } from "../lib/schedule";
+import {
+	describeFrequency,
+	expandPlan,
+	formatDose,
+	withCycleStartDates,
+} from "../lib/schedule";
 import { useAppStore } from "../store";
 import { theme } from "../theme";
 import { ScheduleEvent } from "../types";
@@ -33,6 +45,8 @@ export default function ScheduleScreen() {
 	const router = useRouter();
 	const draftPlans = useAppStore((state) => state.draft.parsed);
 	const settings = useAppStore((state) => state.settings);
+	const medPlans = useAppStore((state) => state.medPlans);
+	const events = useAppStore((state) => state.events);
 	const upsertPlans = useAppStore((state) => state.upsertPlans);
 	const setEventsForPlan = useAppStore((state) => state.setEventsForPlan);
 	const setNotificationRef = useAppStore((state) => state.setNotificationRef);
@@ -50,13 +64,42 @@ export default function ScheduleScreen() {
 		setHorizon(settings.horizonDays);
 	}, [settings.horizonDays]);
 
+	// Current plans that stop/change lines in the draft refer to.
+	const directiveTargets = useMemo(
+		() =>
+			new Map(
+				draftPlans.flatMap((plan) => {
+					const target = plan.directive
+						? findDirectiveTarget(plan, medPlans)
+						: undefined;
+					return target ? [[plan.id, target] as const] : [];
+				}),
+			),
+		[draftPlans, medPlans],
+	);
+
 	useEffect(() => {
+		const now = dayjs();
 		const next: Record<string, ScheduleEvent[]> = {};
 		draftPlans.forEach((plan) => {
-			next[plan.id] = expandPlan(plan, dayjs(), horizon);
+			if (!plan.directive) {
+				next[plan.id] = expandPlan(plan, now, horizon, settings.routine);
+				return;
+			}
+			const target = directiveTargets.get(plan.id);
+			// A changed plan only gets new reminders from now on; a stopped one none.
+			next[plan.id] =
+				target && plan.directive.action === "modify"
+					? expandPlan(
+							applyDirective(target, plan, now),
+							now,
+							horizon,
+							settings.routine,
+						).filter((event) => dayjs(event.at).isAfter(now))
+					: [];
 		});
 		setPreviewEvents(next);
-	}, [draftPlans, horizon]);
+	}, [draftPlans, directiveTargets, horizon, settings.routine]);
 
 	const orderedPlans = useMemo(() => draftPlans, [draftPlans]);
 
@@ -91,6 +134,33 @@ export default function ScheduleScreen() {
 			}
 
 			for (const plan of orderedPlans) {
+				if (plan.directive) {
+					const target = directiveTargets.get(plan.id);
+					if (!target) {
+						continue;
+					}
+					const now = dayjs();
+					await cancelForPlan(target.id);
+					clearNotificationsForPlan(target.id);
+					upsertPlans([plan]);
+					const kept = events.filter(
+						(event) =>
+							event.medPlanId === target.id &&
+							!isFutureEvent(event, target.id, now),
+					);
+					const fresh = previewEvents[plan.id] ?? [];
+					setEventsForPlan(target.id, [...kept, ...fresh]);
+					for (const event of fresh) {
+						const identifier = await scheduleLocal(event, {
+							planName: target.name,
+							body: `Dose ${event.dose} for ${target.name}`,
+						});
+						if (identifier) {
+							setNotificationRef(event.id, identifier);
+						}
+					}
+					continue;
+				}
 				await cancelForPlan(plan.id);
 				clearNotificationsForPlan(plan.id);
 				const eventsForPlan = previewEvents[plan.id] ?? [];
@@ -101,7 +171,12 @@ export default function ScheduleScreen() {
 					}
 					const identifier = await scheduleLocal(event, {
 						planName: plan.name,
-						body: `Dose ${event.dose} for ${plan.name}`,
+						body:
+							plan.kind === "task"
+								? `Reminder: ${plan.name}`
+								: event.condition
+									? `Dose ${event.dose} for ${plan.name}. ${describeCondition(event.condition)}.`
+									: `Dose ${event.dose} for ${plan.name}`,
 					});
 					if (identifier) {
 						setNotificationRef(event.id, identifier);
@@ -109,7 +184,11 @@ export default function ScheduleScreen() {
 				}
 			}
 
-			upsertPlans(orderedPlans);
+			upsertPlans(
+				orderedPlans
+					.filter((plan) => !plan.directive)
+					.map((plan) => withCycleStartDates(plan, dayjs())),
+			);
 			Alert.alert("Scheduled", "Notifications ready. View them from Today.");
 			router.replace("/(tabs)");
 		} catch (error) {
@@ -182,17 +261,51 @@ export default function ScheduleScreen() {
 						}}
 					>
 						<Text style={{ fontWeight: "600", color: theme.colors.text }}>
-							{plan.name}
-						</Text>
-						<Text style={{ color: theme.colors.textMuted }}>
-							{plan.instructions[0]?.frequency ?? "QD"} ·{" "}
-							{plan.instructions[0]?.dose.amount}{" "}
-							{plan.instructions[0]?.dose.unit}
+							{plan.directive ? describeDirective(plan) : plan.name}
 						</Text>
+						{plan.directive ? (
+							<Text
+								style={{
+									color: directiveTargets.has(plan.id)
+										? theme.colors.textMuted
+										: theme.colors.warning,
+								}}
+							>
+								{directiveTargets.has(plan.id)
+									? plan.directive.action === "stop"
+										? "Upcoming reminders for it will be removed."
+										: "Upcoming reminders will follow the new instructions."
+									: "No current plan matches this name; nothing will change."}
+							</Text>
+						) : null}
+						{plan.directive
+							? null
+							: plan.instructions.map((instruction, index) => (
+									<Text key={index} style={{ color: theme.colors.textMuted }}>
+										{plan.instructions.length > 1 ? `${index + 1}. ` : ""}
+										{describeFrequency(instruction)}
+										{plan.kind === "task"
+											? ""
+											: ` · ${formatDose(instruction.dose)}`}
+										{instruction.durationDays
+											? ` · ${instruction.durationDays} days`
+											: ""}
+									</Text>
+								))}
 						<Text style={{ color: theme.colors.textMuted }}>
 							{previewEvents[plan.id]?.length ?? 0} reminders over {horizon}{" "}
 							days.
 						</Text>
+						{plan.startsWith && !plan.startDate ? (
+							<Text style={{ color: theme.colors.warning }}>
+								Waiting for a start date. No reminders until it is set.
+							</Text>
+						) : plan.startDate &&
+							dayjs(plan.startDate).isAfter(dayjs(), "day") ? (
+							<Text style={{ color: theme.colors.textMuted }}>
+								Starts {dayjs(plan.startDate).format("ddd, MMM D")}.
+							</Text>
+						) : null}
 					</View>
 				))}
 
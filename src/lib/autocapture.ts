@@ -0,0 +1,387 @@
+import type { Orientation } from "react-native-vision-camera";
+
+/** Box in 0–1 fractions of the frame's width and height. */
+export type FrameBox = {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+};
+
+export type FrameAnalysis = {
+	width: number;
+	height: number;
+	page?: FrameBox; // bright sheet with print on it, in buffer orientation
+	sharpness: number; // strong-edge Laplacian of the luma over the page
+	signature: number[]; // coarse luma grid, compared between frames for motion
+};
+
+export type AutoCaptureStatus =
+	| "searching"
+	| "unfocused"
+	| "moving"
+	| "steady"
+	| "capture"
+	| "captured";
+
+export type AutoCaptureState = {
+	status: AutoCaptureStatus;
+	analysis?: FrameAnalysis;
+	steadySince?: number;
+	// Signature of the last auto-captured frame; the same page is not taken twice.
+	captured?: number[];
+};
+
+export const INITIAL_AUTO_CAPTURE: AutoCaptureState = { status: "searching" };
+
+export const ANALYSIS_FPS = 5;
+export const STEADY_MS = 800;
+
+const GRID_COLUMNS = 32;
+const GRID_ROWS = 24;
+const CELL_SAMPLES = 4; // per side of a grid cell
+const SIGNATURE_CELLS = 4; // grid cells per side of a signature cell
+const SHARPNESS_POINTS = 48; // per side of the page
+// Print covers a small share of a page, so focus is read from its strongest
+// edges rather than an average that sensor noise on the paper would swamp.
+const SHARPNESS_PERCENTILE = 0.95;
+const MIN_PAGE_SHARE = 0.15; // of the frame
+const MIN_PAGE_FILL = 0.6; // of its bounding box, for a roughly rectangular sheet
+const MIN_PAGE_CONTRAST = 30; // mean luma between sheet and background
+const TEXT_CELL_RANGE = 40; // luma spread of a cell with print in it
+const MIN_TEXT_SHARE = 0.04; // of the cells inside the sheet
+const MIN_SHARPNESS = 60;
+const MAX_PAGE_SHIFT = 0.03; // of the frame, per edge between analysed frames
+const MAX_FRAME_CHANGE = 6; // mean luma difference of the signature
+const NEW_PAGE_CHANGE = 18;
+
+/** Otsu threshold of 0–255 values: the split with the widest gap between classes. */
+const otsuThreshold = (values: number[]) => {
+	"worklet";
+	const histogram = new Array(256).fill(0);
+	let total = 0;
+	for (const value of values) {
+		histogram[Math.round(value)]++;
+		total += value;
+	}
+	let best = 0;
+	let threshold = 128;
+	let belowCount = 0;
+	let belowSum = 0;
+	for (let level = 0; level < 256; level++) {
+		belowCount += histogram[level];
+		belowSum += level * histogram[level];
+		const aboveCount = values.length - belowCount;
+		if (!belowCount || !aboveCount) {
+			continue;
+		}
+		const gap = belowSum / belowCount - (total - belowSum) / aboveCount;
+		const spread = belowCount * aboveCount * gap * gap;
+		if (spread > best) {
+			best = spread;
+			threshold = level + 1;
+		}
+	}
+	return threshold;
+};
+
+/** Cells of the largest 4-connected group of bright cells. */
+const largestRegion = (bright: boolean[]) => {
+	"worklet";
+	const seen = new Array(bright.length).fill(false);
+	let largest: number[] = [];
+	for (let start = 0; start < bright.length; start++) {
+		if (!bright[start] || seen[start]) {
+			continue;
+		}
+		const region: number[] = [];
+		const stack = [start];
+		seen[start] = true;
+		while (stack.length) {
+			const cell = stack.pop() as number;
+			region.push(cell);
+			const column = cell % GRID_COLUMNS;
+			const neighbours = [
+				column > 0 ? cell - 1 : -1,
+				column < GRID_COLUMNS - 1 ? cell + 1 : -1,
+				cell - GRID_COLUMNS,
+				cell + GRID_COLUMNS,
+			];
+			for (const next of neighbours) {
+				if (next >= 0 && next < bright.length && bright[next] && !seen[next]) {
+					seen[next] = true;
+					stack.push(next);
+				}
+			}
+		}
+		if (region.length > largest.length) {
+			largest = region;
+		}
+	}
+	return largest;
+};
+
+/**
+ * Looks for a sheet of paper with print on it in the luma (Y) plane of a camera
+ * frame, and measures how sharp and how different from earlier frames it is.
+ * Runs on the frame processor thread, so it samples a coarse grid rather than
+ * every pixel.
+ */
+export const analyzeLuma = (
+	luma: Uint8Array,
+	width: number,
+	height: number,
+	stride: number,
+): FrameAnalysis => {
+	"worklet";
+	const cellWidth = width / GRID_COLUMNS;
+	const cellHeight = height / GRID_ROWS;
+	const means: number[] = [];
+	const ranges: number[] = [];
+	for (let row = 0; row < GRID_ROWS; row++) {
+		for (let column = 0; column < GRID_COLUMNS; column++) {
+			let sum = 0;
+			let min = 255;
+			let max = 0;
+			for (let sy = 0; sy < CELL_SAMPLES; sy++) {
+				const y = Math.floor((row + (sy + 0.5) / CELL_SAMPLES) * cellHeight);
+				for (let sx = 0; sx < CELL_SAMPLES; sx++) {
+					const x = Math.floor(
+						(column + (sx + 0.5) / CELL_SAMPLES) * cellWidth,
+					);
+					const value = luma[y * stride + x];
+					sum += value;
+					min = Math.min(min, value);
+					max = Math.max(max, value);
+				}
+			}
+			means.push(sum / (CELL_SAMPLES * CELL_SAMPLES));
+			ranges.push(max - min);
+		}
+	}
+
+	const signature: number[] = [];
+	for (let row = 0; row < GRID_ROWS; row += SIGNATURE_CELLS) {
+		for (let column = 0; column < GRID_COLUMNS; column += SIGNATURE_CELLS) {
+			let sum = 0;
+			for (let dy = 0; dy < SIGNATURE_CELLS; dy++) {
+				for (let dx = 0; dx < SIGNATURE_CELLS; dx++) {
+					sum += means[(row + dy) * GRID_COLUMNS + column + dx];
+				}
+			}
+			signature.push(sum / (SIGNATURE_CELLS * SIGNATURE_CELLS));
+		}
+	}
+
+	const threshold = otsuThreshold(means);
+	const bright = means.map((mean) => mean >= threshold);
+	const region = largestRegion(bright);
+	const inRegion = new Array(means.length).fill(false);
+	let left = GRID_COLUMNS;
+	let top = GRID_ROWS;
+	let right = 0;
+	let bottom = 0;
+	let regionLuma = 0;
+	for (const cell of region) {
+		inRegion[cell] = true;
+		const column = cell % GRID_COLUMNS;
+		const row = Math.floor(cell / GRID_COLUMNS);
+		left = Math.min(left, column);
+		top = Math.min(top, row);
+		right = Math.max(right, column + 1);
+		bottom = Math.max(bottom, row + 1);
+		regionLuma += means[cell];
+	}
+	const darkCells = means.length - region.length;
+	const backgroundLuma = darkCells
+		? (means.reduce((sum, mean) => sum + mean, 0) - regionLuma) / darkCells
+		: 255;
+	// Print inside the sheet; its edges would count as contrast too.
+	let textCells = 0;
+	let innerCells = 0;
+	for (const cell of region) {
+		const column = cell % GRID_COLUMNS;
+		const inner =
+			column > 0 &&
+			column < GRID_COLUMNS - 1 &&
+			inRegion[cell - 1] &&
+			inRegion[cell + 1] &&
+			inRegion[cell - GRID_COLUMNS] &&
+			inRegion[cell + GRID_COLUMNS];
+		if (inner) {
+			innerCells++;
+			if (ranges[cell] >= TEXT_CELL_RANGE) {
+				textCells++;
+			}
+		}
+	}
+	const boxCells = Math.max(1, (right - left) * (bottom - top));
+	const isPage =
+		region.length >= means.length * MIN_PAGE_SHARE &&
+		region.length >= boxCells * MIN_PAGE_FILL &&
+		regionLuma / Math.max(1, region.length) - backgroundLuma >=
+			MIN_PAGE_CONTRAST &&
+		innerCells > 0 &&
+		textCells >= innerCells * MIN_TEXT_SHARE;
+	const page = isPage
+		? {
+				left: left / GRID_COLUMNS,
+				top: top / GRID_ROWS,
+				width: (right - left) / GRID_COLUMNS,
+				height: (bottom - top) / GRID_ROWS,
+			}
+		: undefined;
+
+	// Focus is judged where the page is, or over the whole frame without one.
+	const area = page ?? { left: 0, top: 0, width: 1, height: 1 };
+	const edges: number[] = [];
+	for (let py = 0; py < SHARPNESS_POINTS; py++) {
+		const y = Math.floor(
+			(area.top + (area.height * (py + 0.5)) / SHARPNESS_POINTS) * height,
+		);
+		if (y < 1 || y >= height - 1) {
+			continue;
+		}
+		for (let px = 0; px < SHARPNESS_POINTS; px++) {
+			const x = Math.floor(
+				(area.left + (area.width * (px + 0.5)) / SHARPNESS_POINTS) * width,
+			);
+			if (x < 1 || x >= width - 1) {
+				continue;
+			}
+			const index = y * stride + x;
+			const laplacian =
+				4 * luma[index] -
+				luma[index - 1] -
+				luma[index + 1] -
+				luma[index - stride] -
+				luma[index + stride];
+			edges.push(Math.abs(laplacian));
+		}
+	}
+
+	return {
+		width,
+		height,
+		page,
+		sharpness: edges.length
+			? edges.sort((a, b) => a - b)[
+					Math.floor((edges.length - 1) * SHARPNESS_PERCENTILE)
+				]
+			: 0,
+		signature,
+	};
+};
+
+const signatureChange = (a: number[], b: number[]) =>
+	a.length === b.length && a.length
+		? a.reduce((sum, value, index) => sum + Math.abs(value - b[index]), 0) /
+			a.length
+		: Number.POSITIVE_INFINITY;
+
+const pageShift = (a: FrameBox, b: FrameBox) =>
+	Math.max(
+		Math.abs(a.left - b.left),
+		Math.abs(a.top - b.top),
+		Math.abs(a.left + a.width - b.left - b.width),
+		Math.abs(a.top + a.height - b.top - b.height),
+	);
+
+/**
+ * Next auto-capture state after an analysed frame. A page has to stay in focus
+ * and in place for {@link STEADY_MS} before the status turns to "capture"; after
+ * a capture nothing happens until the page leaves or the view changes.
+ */
+export const nextAutoCapture = (
+	state: AutoCaptureState,
+	analysis: FrameAnalysis,
+	now: number,
+): AutoCaptureState => {
+	const previous = state.analysis;
+	if (
+		state.captured &&
+		analysis.page &&
+		signatureChange(state.captured, analysis.signature) < NEW_PAGE_CHANGE
+	) {
+		return { status: "captured", analysis, captured: state.captured };
+	}
+	if (!analysis.page) {
+		return { status: "searching", analysis };
+	}
+	if (analysis.sharpness < MIN_SHARPNESS) {
+		return { status: "unfocused", analysis };
+	}
+	if (
+		!previous?.page ||
+		pageShift(previous.page, analysis.page) > MAX_PAGE_SHIFT ||
+		signatureChange(previous.signature, analysis.signature) > MAX_FRAME_CHANGE
+	) {
+		return { status: "moving", analysis };
+	}
+	const steadySince = state.steadySince ?? now;
+	return {
+		status: now - steadySince >= STEADY_MS ? "capture" : "steady",
+		analysis,
+		steadySince,
+	};
+};
+
+/** State once the photo has been taken for a "capture" status. */
+export const markCaptured = (state: AutoCaptureState): AutoCaptureState => ({
+	status: "captured",
+	analysis: state.analysis,
+	captured: state.analysis?.signature,
+});
+
+/** The box as the preview shows it, with the frame turned upright. */
+export const uprightBox = (
+	box: FrameBox,
+	orientation: Orientation,
+	mirrored: boolean,
+): FrameBox => {
+	const turned =
+		orientation === "landscape-left"
+			? {
+					left: box.top,
+					top: 1 - box.left - box.width,
+					width: box.height,
+					height: box.width,
+				}
+			: orientation === "landscape-right"
+				? {
+						left: 1 - box.top - box.height,
+						top: box.left,
+						width: box.height,
+						height: box.width,
+					}
+				: orientation === "portrait-upside-down"
+					? {
+							...box,
+							left: 1 - box.left - box.width,
+							top: 1 - box.top - box.height,
+						}
+					: box;
+	return mirrored
+		? { ...turned, left: 1 - turned.left - turned.width }
+		: turned;
+};
+
+/**
+ * Pixel rectangle of an upright frame box in a preview of the given size. The
+ * preview fills its view and crops the overflow, like resizeMode "cover".
+ */
+export const previewRect = (
+	box: FrameBox,
+	frame: { width: number; height: number },
+	view: { width: number; height: number },
+) => {
+	const scale = Math.max(view.width / frame.width, view.height / frame.height);
+	const offsetX = (view.width - frame.width * scale) / 2;
+	const offsetY = (view.height - frame.height * scale) / 2;
+	return {
+		left: offsetX + box.left * frame.width * scale,
+		top: offsetY + box.top * frame.height * scale,
+		width: box.width * frame.width * scale,
+		height: box.height * frame.height * scale,
+	};
+};
@@ -0,0 +1,43 @@
+import { DoseCondition, Measurement } from "../types";
+
+export const MEASUREMENT_LABELS: Record<
+	Measurement,
+	{ label: string; unit: string }
+> = {
+	bloodPressure: { label: "blood pressure (systolic)", unit: "mmHg" },
+	pulse: { label: "pulse", unit: "bpm" },
+	temperature: { label: "temperature", unit: "°C" },
+	glucose: { label: "blood sugar", unit: "mmol/L" },
+};
+
+const holds = (condition: DoseCondition, value: number): boolean => {
+	switch (condition.comparator) {
+		case "<":
+			return value < condition.threshold;
+		case "<=":
+			return value <= condition.threshold;
+		case ">":
+			return value > condition.threshold;
+		case ">=":
+			return value >= condition.threshold;
+	}
+};
+
+/** Whether the dose is taken or skipped for the reading the patient entered. */
+export const resolveCondition = (
+	condition: DoseCondition,
+	value: number,
+): "take" | "skip" => {
+	const met = holds(condition, value);
+	if (condition.action === "take") {
+		return met ? "take" : "skip";
+	}
+	return met ? "skip" : "take";
+};
+
+/** Rule as shown to the patient, e.g. "Skip if pulse < 60 bpm". */
+export const describeCondition = (condition: DoseCondition): string => {
+	const { label, unit } = MEASUREMENT_LABELS[condition.measurement];
+	const verb = condition.action === "skip" ? "Skip" : "Take only";
+	return `${verb} if ${label} ${condition.comparator} ${condition.threshold} ${unit}`;
+};
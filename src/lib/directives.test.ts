@@ -0,0 +1,52 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { applyDirective, findDirectiveTarget } from "./directives";
+import { parsePrescription } from "./parse";
+import { expandPlan } from "./schedule";
+
+const referenceDate = dayjs("2026-10-19T10:00");
+
+const parsePlan = (text: string) =>
+	parsePrescription(text, { referenceDate }).plans[0].plan;
+
+describe("modify directives", () => {
+	it("changes the dose of a plan dosed in the new strength's unit", () => {
+		const target = parsePlan("Metoprolol 25 mg twice daily");
+		const directive = parsePlan("Increase metoprolol to 50 mg");
+		expect(directive.genericName).toBe("metoprolol");
+		expect(findDirectiveTarget(directive, [target])).toBe(target);
+
+		const changed = applyDirective(target, directive, referenceDate);
+		expect(changed.strength).toBe("50 mg");
+		expect(changed.instructions).toEqual([
+			{ dose: { amount: 50, unit: "mg" }, frequency: "BID" },
+		]);
+	});
+
+	it("keeps a tablet count when only the strength changes", () => {
+		const target = parsePlan("Metoprolol 25 mg 1 tab twice daily");
+		const directive = parsePlan("Increase metoprolol to 50 mg");
+
+		const changed = applyDirective(target, directive, referenceDate);
+		expect(changed.strength).toBe("50 mg");
+		expect(changed.instructions[0].dose).toEqual({ amount: 1, unit: "tab" });
+	});
+});
+
+describe("course length changes", () => {
+	it("counts a new course length from the directive date", () => {
+		const target = {
+			...parsePlan("Omeprazole 20 mg 1 cap daily for 14 days"),
+			startDate: "2026-09-28",
+		};
+		const directive = parsePlan("Change omeprazole to 1 cap daily for 7 days");
+		expect(directive.directive).toMatchObject({
+			action: "modify",
+			instruction: { durationDays: 7 },
+		});
+
+		const changed = applyDirective(target, directive, referenceDate);
+		expect(changed.startDate).toBe("2026-10-19");
+		expect(expandPlan(changed, referenceDate, 14)).toHaveLength(7);
+	});
+});
@@ -0,0 +1,117 @@
+import dayjs, { Dayjs } from "dayjs";
+import { DosageInstruction, MedicationPlan, ScheduleEvent } from "../types";
+import { formatDose, strengthAsDose } from "./schedule";
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const isDirective = (plan: MedicationPlan) => Boolean(plan.directive);
+
+/**
+ * The current plan a stop/modify line refers to: same generic when both are
+ * known, otherwise the same name. The latest matching plan wins.
+ */
+export const findDirectiveTarget = (
+	directive: MedicationPlan,
+	plans: MedicationPlan[],
+): MedicationPlan | undefined =>
+	plans
+		.filter((plan) => !isDirective(plan) && plan.kind !== "task")
+		.reverse()
+		.find((plan) =>
+			directive.genericName && plan.genericName
+				? directive.genericName === plan.genericName
+				: normalizeName(directive.name) === normalizeName(plan.name),
+		);
+
+/**
+ * The target plan after the directive: ended today, or with the changes
+ * applied. A new frequency or set of times replaces the old timing outright,
+ * so per-slot or phased instructions collapse into one. A new course length
+ * counts from the directive date, so the plan restarts then.
+ */
+export const applyDirective = (
+	target: MedicationPlan,
+	directive: MedicationPlan,
+	now: Dayjs = dayjs(),
+): MedicationPlan => {
+	const rule = directive.directive;
+	if (!rule) {
+		return target;
+	}
+	if (rule.action === "stop") {
+		return { ...target, endDate: now.format("YYYY-MM-DD") };
+	}
+	// Where the plan is dosed in the strength's unit ("25 mg twice daily"), a
+	// new strength is also the new dose.
+	const strengthDose = rule.strength && strengthAsDose(rule.strength);
+	const rescaled = (instruction: DosageInstruction): DosageInstruction =>
+		strengthDose && instruction.dose.unit === strengthDose.unit
+			? { ...instruction, dose: strengthDose }
+			: instruction;
+	const changes = rule.instruction;
+	const retimed = Boolean(changes?.frequency || changes?.timesOfDay);
+	const restarted = changes?.durationDays !== undefined;
+	const [first] = target.instructions;
+	const dated = (instruction: DosageInstruction): DosageInstruction =>
+		restarted
+			? { ...instruction, startDate: undefined, endDate: undefined }
+			: instruction;
+	return {
+		...target,
+		...(restarted
+			? { startDate: now.format("YYYY-MM-DD"), endDate: undefined }
+			: {}),
+		strength: rule.strength ?? target.strength,
+		instructions:
+			retimed && first
+				? [
+						{
+							...dated(rescaled(first)),
+							interval: undefined,
+							timesOfDay: undefined,
+							when: undefined,
+							phase: undefined,
+							...changes,
+						},
+					]
+				: target.instructions.map((instruction) => ({
+						...dated(rescaled(instruction)),
+						...changes,
+					})),
+	};
+};
+
+/** Events of a plan that have not happened yet and should be dropped when it changes. */
+export const isFutureEvent = (
+	event: ScheduleEvent,
+	planId: string,
+	now: Dayjs = dayjs(),
+) =>
+	event.medPlanId === planId &&
+	dayjs(event.at).isAfter(now) &&
+	(event.status === "scheduled" || event.status === "snoozed");
+
+/** Short description of what a directive does, for the Review and Schedule screens. */
+export const describeDirective = (directive: MedicationPlan): string => {
+	const rule = directive.directive;
+	if (!rule) {
+		return "";
+	}
+	if (rule.action === "stop") {
+		return `Stop ${directive.name}`;
+	}
+	const changes = [
+		rule.strength,
+		rule.instruction?.dose ? formatDose(rule.instruction.dose) : undefined,
+		rule.instruction?.frequency === "INTERVAL" && rule.instruction.interval
+			? `q${rule.instruction.interval.everyHours}h`
+			: rule.instruction?.frequency,
+		rule.instruction?.timesOfDay?.join(", "),
+		rule.instruction?.durationDays
+			? `${rule.instruction.durationDays} days`
+			: undefined,
+	].filter(Boolean);
+	return changes.length
+		? `Change ${directive.name}: ${changes.join(", ")}`
+		: `Change ${directive.name}`;
+};
@@ -0,0 +1,464 @@
+type DrugEntry = {
+	generic: string; // INN used as the canonical name
+	names: string[]; // generic spellings, English and Russian
+	brands: string[];
+};
+
+/** Bundled so name matching works offline; common outpatient medicines only. */
+const DRUG_DICTIONARY: DrugEntry[] = [
+	{
+		generic: "amoxicillin",
+		names: ["Amoxicillin", "Амоксициллин"],
+		brands: ["Amoxil", "Flemoxin Solutab", "Флемоксин Солютаб", "Флемоксин"],
+	},
+	{
+		generic: "amoxicillin/clavulanic acid",
+		names: ["Amoxicillin/Clavulanate", "Co-amoxiclav"],
+		brands: ["Augmentin", "Amoxiclav", "Аугментин", "Амоксиклав"],
+	},
+	{
+		generic: "azithromycin",
+		names: ["Azithromycin", "Азитромицин"],
+		brands: ["Zithromax", "Sumamed", "Сумамед"],
+	},
+	{
+		generic: "ciprofloxacin",
+		names: ["Ciprofloxacin", "Ципрофлоксацин"],
+		brands: ["Cipro", "Tsiprolet", "Ципролет"],
+	},
+	{
+		generic: "levofloxacin",
+		names: ["Levofloxacin", "Левофлоксацин"],
+		brands: ["Tavanic", "Таваник"],
+	},
+	{
+		generic: "doxycycline",
+		names: ["Doxycycline", "Доксициклин"],
+		brands: ["Unidox Solutab", "Юнидокс Солютаб", "Юнидокс"],
+	},
+	{
+		generic: "fluconazole",
+		names: ["Fluconazole", "Флуконазол"],
+		brands: ["Diflucan", "Дифлюкан"],
+	},
+	{
+		generic: "aciclovir",
+		names: ["Aciclovir", "Acyclovir", "Ацикловир"],
+		brands: ["Zovirax", "Зовиракс"],
+	},
+	{
+		generic: "ibuprofen",
+		names: ["Ibuprofen", "Ибупрофен"],
+		brands: ["Nurofen", "Advil", "Motrin", "Нурофен"],
+	},
+	{
+		generic: "paracetamol",
+		names: ["Paracetamol", "Acetaminophen", "Парацетамол"],
+		brands: ["Tylenol", "Panadol", "Панадол"],
+	},
+	{
+		generic: "acetylsalicylic acid",
+		names: ["Acetylsalicylic acid", "Ацетилсалициловая кислота"],
+		brands: ["Aspirin", "Аспирин", "Thrombo ASS", "Тромбо АСС"],
+	},
+	{
+		generic: "ketorolac",
+		names: ["Ketorolac", "Кеторолак"],
+		brands: ["Toradol", "Ketorol", "Кеторол", "Кетанов"],
+	},
+	{
+		generic: "diclofenac",
+		names: ["Diclofenac", "Диклофенак"],
+		brands: ["Voltaren", "Вольтарен"],
+	},
+	{
+		generic: "nimesulide",
+		names: ["Nimesulide", "Нимесулид"],
+		brands: ["Nise", "Nimesil", "Найз", "Нимесил"],
+	},
+	{
+		generic: "metformin",
+		names: ["Metformin", "Метформин"],
+		brands: ["Glucophage", "Siofor", "Глюкофаж", "Сиофор"],
+	},
+	{
+		generic: "levothyroxine",
+		names: ["Levothyroxine", "Левотироксин"],
+		brands: ["Euthyrox", "Synthroid", "L-Thyroxine", "Эутирокс", "L-Тироксин"],
+	},
+	{
+		generic: "prednisolone",
+		names: ["Prednisolone", "Преднизолон"],
+		brands: [],
+	},
+	{
+		generic: "prednisone",
+		names: ["Prednisone", "Преднизон"],
+		brands: [],
+	},
+	{
+		generic: "methylprednisolone",
+		names: ["Methylprednisolone", "Метилпреднизолон"],
+		brands: ["Medrol", "Метипред", "Медрол"],
+	},
+	{
+		generic: "omeprazole",
+		names: ["Omeprazole", "Омепразол"],
+		brands: ["Losec", "Omez", "Лосек", "Омез"],
+	},
+	{
+		generic: "pantoprazole",
+		names: ["Pantoprazole", "Пантопразол"],
+		brands: ["Controloc", "Nolpaza", "Контролок", "Нольпаза"],
+	},
+	{
+		generic: "atorvastatin",
+		names: ["Atorvastatin", "Аторвастатин"],
+		brands: ["Lipitor", "Atoris", "Липримар", "Аторис"],
+	},
+	{
+		generic: "rosuvastatin",
+		names: ["Rosuvastatin", "Розувастатин"],
+		brands: ["Crestor", "Крестор"],
+	},
+	{
+		generic: "amlodipine",
+		names: ["Amlodipine", "Амлодипин"],
+		brands: ["Norvasc", "Норваск"],
+	},
+	{
+		generic: "lisinopril",
+		names: ["Lisinopril", "Лизиноприл"],
+		brands: ["Diroton", "Диротон"],
+	},
+	{
+		generic: "enalapril",
+		names: ["Enalapril", "Эналаприл"],
+		brands: ["Enap", "Энап"],
+	},
+	{
+		generic: "bisoprolol",
+		names: ["Bisoprolol", "Бисопролол"],
+		brands: ["Concor", "Конкор"],
+	},
+	{
+		generic: "metoprolol",
+		names: ["Metoprolol", "Метопролол"],
+		brands: ["Betaloc", "Egilok", "Беталок", "Эгилок"],
+	},
+	{
+		generic: "losartan",
+		names: ["Losartan", "Лозартан"],
+		brands: ["Cozaar", "Lozap", "Лозап"],
+	},
+	{
+		generic: "furosemide",
+		names: ["Furosemide", "Фуросемид"],
+		brands: ["Lasix", "Лазикс"],
+	},
+	{
+		generic: "spironolactone",
+		names: ["Spironolactone", "Спиронолактон"],
+		brands: ["Aldactone", "Veroshpiron", "Верошпирон"],
+	},
+	{
+		generic: "warfarin",
+		names: ["Warfarin", "Варфарин"],
+		brands: ["Coumadin"],
+	},
+	{
+		generic: "apixaban",
+		names: ["Apixaban", "Апиксабан"],
+		brands: ["Eliquis", "Эликвис"],
+	},
+	{
+		generic: "rivaroxaban",
+		names: ["Rivaroxaban", "Ривароксабан"],
+		brands: ["Xarelto", "Ксарелто"],
+	},
+	{
+		generic: "clopidogrel",
+		names: ["Clopidogrel", "Клопидогрел"],
+		brands: ["Plavix", "Плавикс"],
+	},
+	{
+		generic: "enoxaparin",
+		names: ["Enoxaparin", "Эноксапарин"],
+		brands: ["Clexane", "Lovenox", "Клексан"],
+	},
+	{
+		generic: "cetirizine",
+		names: ["Cetirizine", "Цетиризин"],
+		brands: ["Zyrtec", "Зиртек"],
+	},
+	{
+		generic: "loratadine",
+		names: ["Loratadine", "Лоратадин"],
+		brands: ["Claritin", "Кларитин"],
+	},
+	{
+		generic: "salbutamol",
+		names: ["Salbutamol", "Albuterol", "Сальбутамол"],
+		brands: ["Ventolin", "Вентолин"],
+	},
+	{
+		generic: "budesonide",
+		names: ["Budesonide", "Будесонид"],
+		brands: ["Pulmicort", "Пульмикорт"],
+	},
+	{
+		generic: "insulin glargine",
+		names: ["Insulin glargine", "Инсулин гларгин"],
+		brands: ["Lantus", "Toujeo", "Лантус", "Туджео"],
+	},
+	{
+		generic: "insulin aspart",
+		names: ["Insulin aspart", "Инсулин аспарт"],
+		brands: ["NovoRapid", "Новорапид"],
+	},
+	{
+		generic: "methotrexate",
+		names: ["Methotrexate", "Метотрексат"],
+		brands: [],
+	},
+	{
+		generic: "folic acid",
+		names: ["Folic acid", "Фолиевая кислота"],
+		brands: [],
+	},
+	{
+		generic: "colecalciferol",
+		names: [
+			"Colecalciferol",
+			"Cholecalciferol",
+			"Vitamin D3",
+			"Колекальциферол",
+		],
+		brands: ["Aquadetrim", "Vigantol", "Аквадетрим", "Вигантол"],
+	},
+	{
+		generic: "melatonin",
+		names: ["Melatonin", "Мелатонин"],
+		brands: ["Melaxen", "Мелаксен"],
+	},
+	{
+		generic: "sertraline",
+		names: ["Sertraline", "Сертралин"],
+		brands: ["Zoloft", "Золофт"],
+	},
+	{
+		generic: "escitalopram",
+		names: ["Escitalopram", "Эсциталопрам"],
+		brands: ["Lexapro", "Cipralex", "Ципралекс"],
+	},
+	{
+		generic: "gabapentin",
+		names: ["Gabapentin", "Габапентин"],
+		brands: ["Neurontin", "Нейронтин"],
+	},
+	{
+		generic: "metoclopramide",
+		names: ["Metoclopramide", "Метоклопрамид"],
+		brands: ["Reglan", "Cerucal", "Церукал"],
+	},
+	{
+		generic: "drotaverine",
+		names: ["Drotaverine", "Дротаверин"],
+		brands: ["No-Spa", "Но-шпа"],
+	},
+	{
+		generic: "smectite",
+		names: ["Diosmectite", "Smectite", "Диосмектит", "Смектит"],
+		brands: ["Smecta", "Смекта"],
+	},
+	{
+		generic: "pancreatin",
+		names: ["Pancreatin", "Панкреатин"],
+		brands: ["Creon", "Mezym", "Креон", "Мезим"],
+	},
+	{
+		generic: "ambroxol",
+		names: ["Ambroxol", "Амброксол"],
+		brands: ["Lasolvan", "Лазолван"],
+	},
+	{
+		generic: "acetylcysteine",
+		names: ["Acetylcysteine", "Ацетилцистеин"],
+		brands: ["Fluimucil", "ACC", "Флуимуцил", "АЦЦ"],
+	},
+	{
+		generic: "progesterone",
+		names: ["Progesterone", "Прогестерон"],
+		brands: ["Utrogestan", "Утрожестан"],
+	},
+	{
+		generic: "dydrogesterone",
+		names: ["Dydrogesterone", "Дидрогестерон"],
+		brands: ["Duphaston", "Дюфастон"],
+	},
+	{
+		generic: "letrozole",
+		names: ["Letrozole", "Летрозол"],
+		brands: ["Femara", "Фемара"],
+	},
+	{
+		generic: "tamoxifen",
+		names: ["Tamoxifen", "Тамоксифен"],
+		brands: ["Nolvadex"],
+	},
+];
+
+export type DrugMatch = {
+	generic: string;
+	name: string; // dictionary spelling of the matched name or brand
+	brand: boolean;
+	distance: number; // edits between the text and the dictionary spelling
+	corrected: string; // the input text with the matched words replaced
+};
+
+// OCR mixes up lookalike letters across scripts and digits inside words.
+const LATIN_LOOKALIKES: Record<string, string> = {
+	а: "a",
+	в: "b",
+	е: "e",
+	к: "k",
+	м: "m",
+	н: "h",
+	о: "o",
+	р: "p",
+	с: "c",
+	т: "t",
+	у: "y",
+	х: "x",
+	"0": "o",
+	"1": "l",
+	"5": "s",
+};
+const CYRILLIC_LOOKALIKES: Record<string, string> = {
+	a: "а",
+	b: "в",
+	e: "е",
+	k: "к",
+	m: "м",
+	h: "н",
+	o: "о",
+	p: "р",
+	c: "с",
+	t: "т",
+	y: "у",
+	x: "х",
+	"0": "о",
+	"3": "з",
+	"6": "б",
+};
+
+const normalizeWord = (word: string): string => {
+	const lower = word.toLowerCase().replace(/ё/g, "е");
+	const latin = (lower.match(/[a-z]/g) ?? []).length;
+	const cyrillic = (lower.match(/[а-я]/g) ?? []).length;
+	const lookalikes = latin >= cyrillic ? LATIN_LOOKALIKES : CYRILLIC_LOOKALIKES;
+	return Array.from(lower)
+		.map((char) => lookalikes[char] ?? char)
+		.join("");
+};
+
+const normalizePhrase = (words: string[]) => words.map(normalizeWord).join(" ");
+
+/** Edit distance counting an adjacent swap as one edit. */
+const editDistance = (a: string, b: string): number => {
+	const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+		Array.from({ length: b.length + 1 }, (_, j) =>
+			i === 0 ? j : j === 0 ? i : 0,
+		),
+	);
+	for (let i = 1; i <= a.length; i += 1) {
+		for (let j = 1; j <= b.length; j += 1) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			rows[i][j] = Math.min(
+				rows[i - 1][j] + 1,
+				rows[i][j - 1] + 1,
+				rows[i - 1][j - 1] + cost,
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return rows[a.length][b.length];
+};
+
+const allowedDistance = (length: number) =>
+	length <= 4 ? 0 : length <= 7 ? 1 : length <= 11 ? 2 : 3;
+
+type Candidate = {
+	entry: DrugEntry;
+	name: string;
+	brand: boolean;
+	words: number;
+	normalized: string;
+};
+
+const CANDIDATES: Candidate[] = DRUG_DICTIONARY.flatMap((entry) =>
+	[
+		...entry.names.map((name) => ({ name, brand: false })),
+		...entry.brands.map((name) => ({ name, brand: true })),
+	].map(({ name, brand }) => {
+		const words = name.split(/[\s/]+/);
+		return {
+			entry,
+			name,
+			brand,
+			words: words.length,
+			normalized: normalizePhrase(words),
+		};
+	}),
+);
+
+const WORD_REGEX = /[\p{L}\d][\p{L}\d-]*/gu;
+
+/**
+ * Fuzzy-matches the words of a medication name against the bundled dictionary,
+ * best match first. Each dictionary medicine appears at most once.
+ */
+export const suggestDrugNames = (text: string, limit = 3): DrugMatch[] => {
+	const words = Array.from(text.matchAll(WORD_REGEX));
+	const matches: DrugMatch[] = [];
+	for (const candidate of CANDIDATES) {
+		for (let start = 0; start + candidate.words <= words.length; start += 1) {
+			const phrase = words.slice(start, start + candidate.words);
+			const normalized = normalizePhrase(phrase.map((word) => word[0]));
+			const distance = editDistance(normalized, candidate.normalized);
+			if (distance > allowedDistance(candidate.normalized.length)) {
+				continue;
+			}
+			const first = phrase[0].index ?? 0;
+			const last = phrase[phrase.length - 1];
+			const end = (last.index ?? 0) + last[0].length;
+			matches.push({
+				generic: candidate.entry.generic,
+				name: candidate.name,
+				brand: candidate.brand,
+				distance,
+				corrected: `${text.slice(0, first)}${candidate.name}${text.slice(end)}`,
+			});
+		}
+	}
+	const seen = new Set<string>();
+	return matches
+		.sort((a, b) => a.distance - b.distance)
+		.filter((match) => {
+			if (seen.has(match.generic)) {
+				return false;
+			}
+			seen.add(match.generic);
+			return true;
+		})
+		.slice(0, limit);
+};
+
+/** True when the match would change the text beyond letter case. */
+export const isCorrection = (match: DrugMatch, text: string): boolean =>
+	match.corrected.toLowerCase() !== text.toLowerCase();
+
+export const findDrug = (text: string): DrugMatch | undefined =>
+	suggestDrugNames(text, 1)[0];
@@ -0,0 +1,262 @@
+import { LocalePack } from ".";
+
+// Dosing schemes such as "1-0-1" give the doses at morning, noon and evening.
+const scheme = (pattern: string) =>
+	new RegExp(String.raw`(?<![\d-])${pattern}(?:-0)?(?![\d-])`, "u");
+
+// Meals take their article: "vor dem Frühstück", "zum Essen".
+const meal = (noun: string) =>
+	String.raw`(?:(?:de[mnr]|die|das|einer?)\s+)?(?:${noun})`;
+
+export const de: LocalePack = {
+	code: "de",
+	name: "Deutsch",
+	markers:
+		/[äöüß]|(?<!\p{L})(?:täglich|tgl|morgens|mittags|abends|nachts|tabletten?|kapseln?|tropfen|stunden|tagen?|wochen?|bei\s+bedarf|essen|mal)(?!\p{L})/giu,
+	strengthUnits: ["mg", "µg", "g", "ml", "I.E.", "IE"],
+	doseUnits: {
+		tablette: "tab",
+		tabletten: "tab",
+		tbl: "tab",
+		"tbl.": "tab",
+		kapsel: "caps",
+		kapseln: "caps",
+		kps: "caps",
+		tropfen: "drops",
+		sprühstoß: "sprays",
+		sprühstöße: "sprays",
+		hub: "puffs",
+		hübe: "puffs",
+		pflaster: "patches",
+		beutel: "sachets",
+		zäpfchen: "supp",
+		einheiten: "units",
+		ie: "IU",
+		"i.e.": "IU",
+	},
+	rangeWords: ["bis", "oder"],
+	frequency: [
+		{
+			regex:
+				/(?<!\p{L})alle\s+(\d{1,2})(?:\s?(?:[-–]|bis)\s?(\d{1,2}))?\s*(?:stunden|std\.?|h)(?!\p{L})/iu,
+			value: "INTERVAL",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])(?:1\s*(?:x|×|mal)|einmal)\s*(?:täglich|tgl\.?|am\s+tag|pro\s+tag)(?!\p{L})/iu,
+			value: "QD",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])(?:2\s*(?:x|×|mal)|zweimal)\s*(?:täglich|tgl\.?|am\s+tag|pro\s+tag)(?!\p{L})/iu,
+			value: "BID",
+		},
+		{ regex: scheme("1-0-1"), value: "BID" },
+		{
+			regex:
+				/(?<![\p{L}\d])(?:3\s*(?:x|×|mal)|dreimal)\s*(?:täglich|tgl\.?|am\s+tag|pro\s+tag)(?!\p{L})/iu,
+			value: "TID",
+		},
+		{ regex: scheme("1-1-1"), value: "TID" },
+		{
+			regex:
+				/(?<![\p{L}\d])(?:4\s*(?:x|×|mal)|viermal)\s*(?:täglich|tgl\.?|am\s+tag|pro\s+tag)(?!\p{L})/iu,
+			value: "QID",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:zur\s+nacht|vor\s+dem\s+schlafen(?:gehen)?)(?!\p{L})/iu,
+			value: "QHS",
+		},
+		{ regex: /(?<!\p{L})morgens(?!\p{L})/iu, value: "QAM" },
+		{ regex: scheme("1-0-0"), value: "QAM" },
+		{ regex: /(?<!\p{L})abends(?!\p{L})/iu, value: "QPM" },
+		{ regex: scheme("0-0-1"), value: "QPM" },
+		{
+			regex:
+				/(?<!\p{L})(?:(?:1\s*(?:x|×|mal)|einmal)\s+(?:pro|die|in\s+der)\s+woche|wöchentlich|jede\s+woche|alle\s+(\d)\s+wochen)(?!\p{L})/iu,
+			value: "QW",
+		},
+		{
+			regex: /(?<!\p{L})(?:jeden\s+zweiten\s+tag|alle\s+2\s+tage)(?!\p{L})/iu,
+			value: "QOD",
+		},
+		{ regex: /(?<!\p{L})bei\s+bedarf(?!\p{L})/iu, value: "PRN" },
+	],
+	frequencyKeywords: [
+		{ regex: /(?<!\p{L})dreimal(?!\p{L})/iu, value: "TID" },
+		{ regex: /(?<!\p{L})zweimal(?!\p{L})/iu, value: "BID" },
+		{ regex: /(?<!\p{L})(?:einmal|täglich)(?!\p{L})/iu, value: "QD" },
+	],
+	when: [
+		{
+			regex: /vor\s+(?:dem\s+essen|den\s+mahlzeiten)/i,
+			value: "BEFORE_MEAL",
+		},
+		{
+			regex: /nach\s+(?:dem\s+essen|den\s+mahlzeiten)/i,
+			value: "AFTER_MEAL",
+		},
+		{ regex: /(?<!\p{L})(?:morgens|am\s+morgen)(?!\p{L})/iu, value: "MORN" },
+		{ regex: /(?<!\p{L})(?:mittags|am\s+mittag)(?!\p{L})/iu, value: "NOON" },
+		{ regex: /(?<!\p{L})(?:abends|am\s+abend)(?!\p{L})/iu, value: "EVE" },
+		{ regex: /(?<!\p{L})(?:nachts|zur\s+nacht)(?!\p{L})/iu, value: "NIGHT" },
+	],
+	routes: [
+		{
+			regex: /(?<!\p{L})(?:oral|peroral|zum\s+einnehmen)(?!\p{L})/iu,
+			value: "po",
+		},
+		{ regex: /(?<!\p{L})(?:intramuskulär|i\.m\.)/iu, value: "im" },
+		{ regex: /(?<!\p{L})(?:subkutan|s\.c\.)/iu, value: "sc" },
+		{ regex: /(?<!\p{L})(?:intravenös|i\.v\.)/iu, value: "iv" },
+		{ regex: /(?<!\p{L})inhalieren(?!\p{L})/iu, value: "inh" },
+		{
+			regex: /(?<!\p{L})(?:äußerlich|auf\s+die\s+haut)(?!\p{L})/iu,
+			value: "topical",
+		},
+		{ regex: /nasenspray|in\s+die\s+nase/iu, value: "nasal" },
+		{ regex: /augentropfen|ins\s+auge/iu, value: "oph" },
+	],
+	durationUnits: {
+		day: "tagen?|tage",
+		week: "wochen?",
+		month: "monaten?|monate",
+	},
+	prn: String.raw`bei\s+(?:bedarf|schmerzen)`,
+	articles: "de[mnrs]|die|das",
+	conjunctions: { and: "und", or: "oder" },
+	// "So" is left out: as a word it is far more often "so" than Sunday.
+	weekdays: [
+		"sonntags?",
+		"montags?|mo",
+		"dienstags?|di",
+		"mittwochs?|mi",
+		"donnerstags?|do",
+		"freitags?|fr",
+		"samstags?|sonnabends?|sa",
+	],
+	weekdayGroups: {
+		weekdays: String.raw`werktags|wochentags|an\s+werktagen`,
+		weekends: String.raw`am\s+wochenende|an\s+wochenenden`,
+	},
+	weekdayRangeWords: ["bis"],
+	singlePeriods: [
+		{
+			regex: /(?<!\p{L})(?:für|über)\s+eine\s+woche(?!\p{L})/iu,
+			value: "week",
+		},
+		{
+			regex: /(?<!\p{L})(?:für|über)\s+einen\s+monat(?!\p{L})/iu,
+			value: "month",
+		},
+	],
+	durationConnectors: "für|über",
+	phaseSeparators: String.raw`dann|danach|anschließend`,
+	cycleBreaks: [
+		/(\d+)\s*(?:tage?n?|-?\s*tägige)\s+pause(?!\p{L})/iu,
+		/(?<!\p{L})pause\s+(?:von\s+)?(\d+)\s*tage?n?(?!\p{L})/iu,
+	],
+	cycleBreakPhrases: String.raw`(?:eine\s+)?(?:\d+[\s-]*(?:tage?n?|tägige)\s+)?pause`,
+	cycleCount: "zyklen|zyklus",
+	dates: {
+		start: String.raw`ab(?:\s+dem)?|beginnend(?:\s+am)?|vom`,
+		end: String.raw`bis(?:\s+zum)?`,
+		today: String.raw`ab\s+heute`,
+		tomorrow: String.raw`ab\s+morgen`,
+		nextPeriod: String.raw`(?:mit|ab)\s+(?:de[mr]\s+)?(?:(?:ersten|1\.)\s+tag\s+der\s+)?nächsten\s+(?:periode|menstruation|regel(?:blutung)?|zyklus)`,
+	},
+	supply: {
+		quantity: [
+			/(?<!\p{L})(?:packung|menge|gesamt)\s*(?:mit|zu|:)?\s*(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<![\d.,])(\d+)\s*\p{L}+\.?\s+(?:pro|je|in\s+der)\s+packung(?!\p{L})/iu,
+		],
+		untilFinished: String.raw`bis\s+(?:die\s+)?(?:packung|tabletten)\s+(?:aufgebraucht|leer)(?:\s+(?:ist|sind))?`,
+	},
+	intervalAnchor: String.raw`erste\s+(?:einnahme|dosis)(?:\s+um)?|beginnend\s+um`,
+	meals: {
+		before: "vor",
+		after: "nach",
+		with: "zu[mr]?|mit|während",
+		minutes: String.raw`min\p{L}*`,
+		hours: String.raw`stunden?|std`,
+		nouns: meal(String.raw`essen|mahlzeit(?:en)?`),
+		anchors: {
+			breakfast: meal("frühstück"),
+			lunch: meal("mittagessen"),
+			dinner: meal("abendessen"),
+			bed: meal("schlafen(?:gehen)?"),
+		},
+		emptyStomach: String.raw`nüchtern|auf\s+nüchternen\s+magen`,
+	},
+	conditions: {
+		skip: String.raw`nicht\s+(?:ein)?nehmen|aussetzen|auslassen`,
+		if: "bei|wenn|falls",
+		measurements: {
+			bloodPressure: String.raw`(?:systolische[mnr]?\s+)?(?:blutdruck|RR)`,
+			pulse: "puls|herzfrequenz",
+			temperature: "temperatur|fieber",
+			glucose: "blutzucker|glukose",
+		},
+		below: String.raw`unter|weniger\s+als|niedriger\s+als`,
+		above: String.raw`über|mehr\s+als|höher\s+als`,
+		units: String.raw`mm\s*Hg|\/min|mmol\/l|mg\/dl`,
+	},
+	limits: {
+		maxPerDay: String.raw`maximal|max\.?|höchstens|nicht\s+mehr\s+als|bis\s+zu`,
+		per: "pro|am|je|in",
+		day: String.raw`tag|24\s*(?:stunden|std|h)`,
+		doses: String.raw`mal|einnahmen?|dosen`,
+		minInterval: [
+			/(?<!\p{L})(?:mindestens|frühestens\s+nach)\s+(\d{1,2})\s*(?:stunden|std\.?|h)(?:\s+abstand)?(?!\p{L})/iu,
+			/(?<!\p{L})(?:im\s+)?abstand\s+von\s+(?:mindestens\s+)?(\d{1,2})\s*(?:stunden|std\.?|h)(?!\p{L})/iu,
+		],
+	},
+	sites: {
+		prepositions: "in|ins|auf|am|an",
+		left: String.raw`link\p{L}*`,
+		right: String.raw`recht\p{L}*`,
+		both: String.raw`beide\p{L}*|jede\p{L}*`,
+		nouns: {
+			eye: "augen?",
+			ear: "ohr(?:en)?",
+			nostril: String.raw`nasenl(?:och|öcher|öchern)`,
+			abdomen: "bauch(?:decke)?",
+			thigh: String.raw`oberschenkel\p{L}*`,
+			arm: String.raw`oberarm\p{L}*|arm|schulter`,
+			buttock: String.raw`gesäß(?:muskel)?`,
+		},
+		eyeDrops: "tropfen|auge",
+		injection: String.raw`injektion\p{L}*|injizieren|spritze\p{L}*`,
+	},
+	tasks: [
+		{
+			regex:
+				/(?<!\p{L})(?:(?:blutdruck|puls|blutzucker|temperatur|gewicht|sättigung)\s+(?:messen|kontrollieren)|(?:messung|kontrolle)\s+de[sr]\s+(?:blutdrucks?|pulses|blutzuckers?|temperatur|gewichts?))(?!\p{L})/iu,
+			value: "measurement",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:mindestens\s+)?\d+(?:[.,]\d+)?\s?(?:l|liter|ml)\.?(?:\s+(?:wasser|flüssigkeit))?(?:\s+(?:pro|am)\s+tag|\s+täglich)?\s+trinken(?!\p{L})/iu,
+			value: "hydration",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:physiotherapie|krankengymnastik|atemgymnastik|atemübungen|gymnastik|spazier(?:en|gang|gänge))(?!\p{L})/iu,
+			value: "exercise",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:verbandswechsel|verband\s+wechseln|wundversorgung)(?!\p{L})/iu,
+			value: "care",
+		},
+	],
+	directives: {
+		stop: String.raw`absetzen|nicht\s+mehr\s+(?:ein)?nehmen`,
+		modify: "erhöhen|reduzieren|verringern|senken|ändern|anpassen",
+		dose: String.raw`(?:die\s+)?dosis(?:\s+von)?`,
+		connectors: "auf",
+	},
+	nameWords: String.raw`einnehmen|täglich|tgl`,
+	nameParticles: "am|an|je|mit|nach|vor|zum|zur|und|oder|bei|ab|bis",
+};
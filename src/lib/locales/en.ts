@@ -0,0 +1,236 @@
+import { LocalePack } from ".";
+
+export const en: LocalePack = {
+	code: "en",
+	name: "English",
+	markers:
+		/(?<!\p{L})(?:take|tabs?|tablets?|capsules?|daily|times|a\s+day|morning|evening|night|hours|days|as\s+needed|before|after|meals?)(?!\p{L})/giu,
+	strengthUnits: ["mg", "mcg", "µg", "g", "ml", "IU"],
+	doseUnits: {
+		tab: "tab",
+		tabs: "tab",
+		tablet: "tab",
+		tablets: "tab",
+		cap: "caps",
+		caps: "caps",
+		capsule: "caps",
+		capsules: "caps",
+		drop: "drops",
+		drops: "drops",
+		gtt: "drops",
+		spray: "sprays",
+		sprays: "sprays",
+		puff: "puffs",
+		puffs: "puffs",
+		inhalation: "puffs",
+		inhalations: "puffs",
+		patch: "patches",
+		patches: "patches",
+		sachet: "sachets",
+		sachets: "sachets",
+		packet: "sachets",
+		packets: "sachets",
+		suppository: "supp",
+		suppositories: "supp",
+		supp: "supp",
+		unit: "units",
+		units: "units",
+		iu: "IU",
+		mcg: "mcg",
+		µg: "mcg",
+		μg: "mcg",
+		ug: "mcg",
+		g: "g",
+		gram: "g",
+		grams: "g",
+		ml: "ml",
+		mg: "mg",
+	},
+	rangeWords: ["to", "or"],
+	frequency: [
+		{
+			regex:
+				/\bq\.?\s?(\d{1,2})(?:\s?[-–]\s?(\d{1,2}))?\.?\s?h(?:r?s?)?\.?(?!\p{L})/iu,
+			value: "INTERVAL",
+		},
+		{
+			regex:
+				/\bevery\s+(\d{1,2})(?:\s?(?:[-–]|to|or)\s?(\d{1,2}))?\s*(?:hours?|hrs?|h)\b/i,
+			value: "INTERVAL",
+		},
+		{ regex: /\b(qd|once daily|1\s*time a day)\b/i, value: "QD" },
+		{ regex: /\b(bid|2x\/?day|2\s*times a day)\b/i, value: "BID" },
+		{ regex: /\b(tid|3x\/?day|3\s*times a day)\b/i, value: "TID" },
+		{ regex: /\b(qid|4x\/?day|4\s*times a day)\b/i, value: "QID" },
+		{ regex: /(?<!\p{L})(qhs|at\s+night)(?!\p{L})/iu, value: "QHS" },
+		{ regex: /(?<!\p{L})(qam|in\s+the\s+morning)(?!\p{L})/iu, value: "QAM" },
+		{ regex: /(?<!\p{L})(qpm|in\s+the\s+evening)(?!\p{L})/iu, value: "QPM" },
+		{
+			regex:
+				/\b(?:qw|q\.?\s?wk|once\s+(?:a\s+|per\s+)?week|weekly|every\s+(?:(\d)\s+weeks|week))\b/i,
+			value: "QW",
+		},
+		{ regex: /\b(every other day)\b/i, value: "QOD" },
+		{ regex: /\b(as needed)\b/i, value: "PRN" },
+	],
+	frequencyKeywords: [
+		{ regex: /\bthree times\b/i, value: "TID" },
+		{ regex: /\btwice\b/i, value: "BID" },
+		{ regex: /\bonce\b/i, value: "QD" },
+	],
+	when: [
+		{ regex: /before meals?/i, value: "BEFORE_MEAL" },
+		{ regex: /after meals?/i, value: "AFTER_MEAL" },
+		{ regex: /(?<!\p{L})morning(?!\p{L})/iu, value: "MORN" },
+		{ regex: /(?<!\p{L})(?:noon|midday)(?!\p{L})/iu, value: "NOON" },
+		{ regex: /(?<!\p{L})evening(?!\p{L})/iu, value: "EVE" },
+		{ regex: /(?<!\p{L})night(?!\p{L})/iu, value: "NIGHT" },
+	],
+	routes: [
+		{ regex: /\b(po|per os|by mouth)\b/i, value: "po" },
+		{ regex: /\bim\b/i, value: "im" },
+		{
+			regex: /(?<!\p{L})(?:sc|s\/c|sub-?q|subcut(?:aneous(?:ly)?)?)(?!\p{L})/iu,
+			value: "sc",
+		},
+		{ regex: /\biv\b/i, value: "iv" },
+		{ regex: /\binhal(e|ation)|inh\b/i, value: "inh" },
+		{ regex: /sublingual|sl\b/i, value: "sl" },
+		{ regex: /topical/i, value: "topical" },
+		{ regex: /nasal|intranasal/i, value: "nasal" },
+		{ regex: /ophthalmic/i, value: "oph" },
+	],
+	durationUnits: {
+		day: "days?",
+		week: "weeks?|wks?",
+		month: "months?",
+	},
+	prn: String.raw`as needed|if needed|when needed|prn|for pain`,
+	articles: "the|your",
+	conjunctions: { and: "and", or: "or" },
+	weekdays: [
+		"sun(?:day)?s?",
+		"mon(?:day)?s?",
+		"tue(?:s|sday)?s?",
+		"wed(?:nesday)?s?",
+		"thu(?:rs?|rsday)?s?",
+		"fri(?:day)?s?",
+		"sat(?:urday)?s?",
+	],
+	weekdayGroups: { weekdays: "weekdays", weekends: "weekends" },
+	weekdayRangeWords: ["to", "through"],
+	singlePeriods: [
+		{ regex: /(?<!\p{L})for\s+(?:a|one)\s+week(?!\p{L})/iu, value: "week" },
+		{ regex: /(?<!\p{L})for\s+(?:a|one)\s+month(?!\p{L})/iu, value: "month" },
+	],
+	durationConnectors: "for",
+	phaseSeparators: String.raw`and\s+then|then`,
+	cycleBreaks: [
+		/(\d+)[\s-]*days?\s+(?:off|break|pause|rest|gap)\b/i,
+		/\b(?:break|pause|rest|gap)\s+(?:of\s+|for\s+)?(\d+)\s*days?\b/i,
+	],
+	cycleBreakPhrases: String.raw`(?:a\s+)?(?:\d+[\s-]*days?[\s-]*)?(?:break|pause|off|rest)`,
+	cycleCount: "cycles?",
+	dates: {
+		start: String.raw`starting(?:\s+(?:on|from))?|starts?\s+on|from|beginning`,
+		end: String.raw`until|till|through|up\s+to|to|ending\s+on|ends?\s+on`,
+		today: String.raw`(?:starting|from)\s+today`,
+		tomorrow: String.raw`(?:(?:starting|from)\s+)?tomorrow`,
+		nextPeriod: String.raw`(?:with|from|on)\s+(?:the\s+)?(?:(?:first\s+day|day\s+1)\s+of\s+(?:the\s+|your\s+)?)?next\s+(?:period|menstruation|cycle)`,
+	},
+	supply: {
+		quantity: [
+			/(?<!\p{L})(?:pack|box|bottle|packet)\s+of\s+(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<!\p{L})(?:dispense|disp\.?|qty\.?|quantity|total)\s*:?\s*(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<![\d.,])(\d+)\s*\p{L}+\.?\s+(?:in\s+(?:the|a)\s+(?:pack|box|bottle)|per\s+pack)(?!\p{L})/iu,
+		],
+		untilFinished: String.raw`until\s+(?:the\s+)?(?:pack|box|bottle|course|medicine|tablets)?\s*(?:is\s+|are\s+)?(?:finished|gone|used\s+up|completed)`,
+	},
+	intervalAnchor: String.raw`first\s+dose(?:\s+at)?|starting(?:\s+at)?|start\s+at`,
+	meals: {
+		before: "before",
+		after: "after",
+		with: "with",
+		minutes: String.raw`min\p{L}*`,
+		hours: "h(?:ours?|rs?)?",
+		nouns: "meals?|food|eating",
+		anchors: {
+			breakfast: "breakfast",
+			lunch: "lunch",
+			dinner: "dinner|supper",
+			bed: "bed(?:time)?|sleep",
+		},
+		emptyStomach: String.raw`on\s+an?\s+empty\s+stomach`,
+	},
+	conditions: {
+		skip: String.raw`(?:skip|hold|omit|do\s+not\s+take|don['’]t\s+take)(?:\s+the\s+dose)?`,
+		if: "if|when",
+		linking: "is",
+		measurements: {
+			bloodPressure: String.raw`(?:systolic\s+)?(?:blood\s+pressure|SBP|BP)`,
+			pulse: String.raw`pulse|heart\s+rate|HR`,
+			temperature: "temp(?:erature)?|t°?",
+			glucose: String.raw`(?:blood\s+)?(?:sugar|glucose)`,
+		},
+		below: String.raw`below|under|less\s+than|lower\s+than`,
+		above: String.raw`above|over|greater\s+than|more\s+than|higher\s+than`,
+		units: String.raw`mm\s*Hg|bpm|mmol\/l`,
+	},
+	limits: {
+		maxPerDay: String.raw`no\s+more\s+than|not\s+more\s+than|not\s+to\s+exceed|max(?:imum)?\.?|up\s+to`,
+		per: "per|a|in",
+		day: String.raw`day|24\s*h(?:ours?|rs?)?`,
+		doses: "doses?|times?",
+		minInterval: [
+			/(?<!\p{L})(?:at\s+least|minimum(?:\s+of)?|min\.?)\s+(\d{1,2})\s*(?:hours?|hrs?|h)(?:\s+(?:apart|between(?:\s+doses)?))?(?!\p{L})/iu,
+			/(?<!\p{L})(?:not|no)\s+(?:more\s+)?(?:often|frequently|sooner)\s+than(?:\s+(?:every|once\s+every))?\s+(\d{1,2})\s*(?:hours?|hrs?|h)(?!\p{L})/iu,
+		],
+	},
+	sites: {
+		prepositions: "in(?:to)?|on",
+		left: "left",
+		right: "right",
+		both: "both|each|per",
+		nouns: {
+			eye: "eyes?",
+			ear: "ears?",
+			nostril: "nostrils?",
+			abdomen: "abdomen|belly",
+			thigh: "thighs?",
+			arm: String.raw`(?:upper\s+)?arms?|shoulders?`,
+			buttock: "buttocks?|gluteal",
+		},
+		eyeDrops: "drops?|gtt|ophthalm|eye",
+		injection: String.raw`inject\p{L}*`,
+	},
+	tasks: [
+		{
+			regex:
+				/(?<!\p{L})(?:measure|check|monitor|record|track)\s+(?:your\s+|the\s+)?(?:blood\s+pressure|BP|pulse|heart\s+rate|blood\s+(?:sugar|glucose)|glucose|temperature|weight|saturation)(?!\p{L})/iu,
+			value: "measurement",
+		},
+		{
+			regex:
+				/(?<!\p{L})drink\s+(?:at\s+least\s+)?\d+(?:[.,]\d+)?\s?(?:l|liters?|litres?|ml)\.?(?:\s+(?:of\s+)?(?:water|fluids?|liquid))?(?!\p{L})/iu,
+			value: "hydration",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:physiotherapy|physical\s+therapy|(?:breathing\s+)?exercises?|walk(?:ing)?\s+\d+)(?!\p{L})/iu,
+			value: "exercise",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:change\s+(?:the\s+)?dressing|dressing\s+change|wound\s+care)(?!\p{L})/iu,
+			value: "care",
+		},
+	],
+	directives: {
+		stop: String.raw`stop(?:\s+taking)?|discontinue|cancel|d\/c`,
+		modify: "increase|decrease|reduce|raise|lower|change|adjust|titrate",
+		dose: String.raw`(?:the\s+)?(?:dose|dosage)(?:\s+of)?`,
+		connectors: "to",
+	},
+	nameWords: String.raw`take|daily|(?:a|per)\s+day|at\s+night`,
+	nameParticles: "on|every|at|in|for|from|to|with|and|or|the|per",
+};
@@ -0,0 +1,270 @@
+import { LocalePack } from ".";
+
+const PER_DAY = String.raw`(?:al|por|cada)\s+día|diarias?`;
+
+export const es: LocalePack = {
+	code: "es",
+	name: "Español",
+	markers:
+		/[ñ¿¡]|(?<!\p{L})(?:cada|horas|días?|comprimidos?|tabletas?|cápsulas?|gotas|mañana|noche|después|antes|comidas?|veces|vez|durante|según)(?!\p{L})/giu,
+	strengthUnits: ["mg", "mcg", "g", "ml", "UI"],
+	doseUnits: {
+		comprimido: "tab",
+		comprimidos: "tab",
+		tableta: "tab",
+		tabletas: "tab",
+		comp: "tab",
+		cápsula: "caps",
+		cápsulas: "caps",
+		gota: "drops",
+		gotas: "drops",
+		pulverización: "sprays",
+		pulverizaciones: "sprays",
+		inhalación: "puffs",
+		inhalaciones: "puffs",
+		parche: "patches",
+		parches: "patches",
+		sobre: "sachets",
+		sobres: "sachets",
+		supositorio: "supp",
+		supositorios: "supp",
+		unidades: "units",
+		ui: "IU",
+	},
+	rangeWords: ["a", "o"],
+	frequency: [
+		{
+			regex:
+				/(?<!\p{L})cada\s+(\d{1,2})(?:\s?(?:[-–]|a|o)\s?(\d{1,2}))?\s*(?:horas?|h)(?!\p{L})/iu,
+			value: "INTERVAL",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:1|una)\s+vez\s+(?:${PER_DAY})(?!\p{L})`,
+				"iu",
+			),
+			value: "QD",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:2|dos)\s+veces\s+(?:${PER_DAY})(?!\p{L})`,
+				"iu",
+			),
+			value: "BID",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:3|tres)\s+veces\s+(?:${PER_DAY})(?!\p{L})`,
+				"iu",
+			),
+			value: "TID",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:4|cuatro)\s+veces\s+(?:${PER_DAY})(?!\p{L})`,
+				"iu",
+			),
+			value: "QID",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:al\s+acostarse|antes\s+de\s+dormir|por\s+la\s+noche)(?!\p{L})/iu,
+			value: "QHS",
+		},
+		{ regex: /(?<!\p{L})por\s+la\s+mañana(?!\p{L})/iu, value: "QAM" },
+		{ regex: /(?<!\p{L})por\s+la\s+tarde(?!\p{L})/iu, value: "QPM" },
+		{
+			regex:
+				/(?<!\p{L})(?:(?:1|una)\s+vez\s+(?:a\s+la|por|cada)\s+semana|semanal(?:mente)?|cada\s+(\d)\s+semanas)(?!\p{L})/iu,
+			value: "QW",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:cada\s+(?:dos|2)\s+días|(?:en\s+)?días\s+alternos)(?!\p{L})/iu,
+			value: "QOD",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:según\s+necesidad|si\s+(?:es\s+)?necesario)(?!\p{L})/iu,
+			value: "PRN",
+		},
+	],
+	frequencyKeywords: [
+		{ regex: /(?<!\p{L})tres\s+veces(?!\p{L})/iu, value: "TID" },
+		{ regex: /(?<!\p{L})dos\s+veces(?!\p{L})/iu, value: "BID" },
+		{
+			regex:
+				/(?<!\p{L})(?:una\s+vez|diariamente|todos\s+los\s+días)(?!\p{L})/iu,
+			value: "QD",
+		},
+	],
+	when: [
+		{
+			regex: /antes\s+de\s+(?:las\s+)?comidas?/i,
+			value: "BEFORE_MEAL",
+		},
+		{
+			regex: /(?:después\s+de|tras)\s+(?:las\s+)?comidas?/i,
+			value: "AFTER_MEAL",
+		},
+		{
+			regex: /(?<!\p{L})(?:por|en)\s+la\s+mañana(?!\p{L})/iu,
+			value: "MORN",
+		},
+		{ regex: /(?<!\p{L})(?:al\s+)?mediodía(?!\p{L})/iu, value: "NOON" },
+		{ regex: /(?<!\p{L})por\s+la\s+tarde(?!\p{L})/iu, value: "EVE" },
+		{ regex: /(?<!\p{L})noche(?!\p{L})/iu, value: "NIGHT" },
+	],
+	routes: [
+		{ regex: /(?<!\p{L})(?:vía\s+oral|por\s+boca)(?!\p{L})/iu, value: "po" },
+		{ regex: /(?<!\p{L})intramuscular(?!\p{L})/iu, value: "im" },
+		{ regex: /(?<!\p{L})subcutáne\p{L}*/iu, value: "sc" },
+		{ regex: /(?<!\p{L})intraven\p{L}*/iu, value: "iv" },
+		{ regex: /(?<!\p{L})inhalad\p{L}*/iu, value: "inh" },
+		{ regex: /(?<!\p{L})(?:tópic\p{L}*|uso\s+externo)/iu, value: "topical" },
+		{ regex: /(?<!\p{L})oftálmic\p{L}*|colirio/iu, value: "oph" },
+	],
+	durationUnits: {
+		day: "días?",
+		week: "semanas?",
+		month: "mes(?:es)?",
+	},
+	prn: String.raw`según\s+necesidad|si\s+(?:es\s+)?necesario|a\s+demanda|si\s+dolor`,
+	articles: "el|la|los|las",
+	conjunctions: { and: "y", or: "o" },
+	weekdays: [
+		"domingos?|dom",
+		"lunes|lun",
+		"martes|mar",
+		"mi[ée]rcoles|mi[ée]",
+		"jueves|jue",
+		"viernes|vie",
+		"s[áa]bados?|s[áa]b",
+	],
+	weekdayGroups: {
+		weekdays: String.raw`(?:los\s+)?días\s+(?:laborables|hábiles)|entre\s+semana`,
+		weekends: String.raw`(?:los\s+)?fines\s+de\s+semana|el\s+fin\s+de\s+semana`,
+	},
+	weekdayRangeWords: ["a", "al", "hasta"],
+	singlePeriods: [
+		{
+			regex: /(?<!\p{L})(?:durante|por)\s+una\s+semana(?!\p{L})/iu,
+			value: "week",
+		},
+		{
+			regex: /(?<!\p{L})(?:durante|por)\s+un\s+mes(?!\p{L})/iu,
+			value: "month",
+		},
+	],
+	durationConnectors: "durante|por",
+	// Not "después" alone: it also starts "después de las comidas".
+	phaseSeparators: String.raw`y\s+(?:luego|después)|luego|a\s+continuación`,
+	cycleBreaks: [
+		/(?<!\p{L})(?:descanso|pausa)\s+(?:de\s+)?(\d+)\s*días?(?!\p{L})/iu,
+		/(\d+)\s*días?\s+(?:de\s+)?(?:descanso|pausa)(?!\p{L})/iu,
+	],
+	cycleBreakPhrases: String.raw`(?:un\s+)?(?:\d+\s*días?\s+de\s+)?(?:descanso|pausa)`,
+	cycleCount: "ciclos?",
+	dates: {
+		start: String.raw`a\s+partir\s+del?|desde(?:\s+el)?|comenzando\s+el`,
+		end: String.raw`hasta(?:\s+el)?`,
+		today: String.raw`(?:a\s+partir\s+de|desde)\s+hoy`,
+		tomorrow: String.raw`(?:a\s+partir\s+de|desde)\s+mañana`,
+		nextPeriod: String.raw`(?:con|desde)\s+(?:el\s+(?:primer|1er?)\s+día\s+de\s+)?(?:la\s+|el\s+)?(?:próxim[oa]|siguiente)\s+(?:regla|menstruación|periodo|período|ciclo)`,
+	},
+	supply: {
+		quantity: [
+			/(?<!\p{L})(?:envase|caja|frasco)\s+(?:de|con)\s+(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<!\p{L})(?:cantidad|total)\s*:?\s*(\d+)(?:\s*\p{L}+)?/iu,
+		],
+		untilFinished: String.raw`hasta\s+(?:terminar|acabar)(?:\s+(?:el|la)\s+(?:envase|caja|tratamiento))?`,
+	},
+	intervalAnchor: String.raw`primera\s+(?:dosis|toma)(?:\s+a\s+las)?|a\s+partir\s+de\s+las`,
+	meals: {
+		before: String.raw`antes\s+de(?:l)?`,
+		after: String.raw`despu[ée]s\s+de(?:l)?|tras`,
+		with: "con|durante",
+		minutes: String.raw`min\p{L}*`,
+		hours: "horas?|h",
+		nouns: String.raw`(?:las\s+)?comidas?|(?:los\s+)?alimentos|comer`,
+		anchors: {
+			breakfast: String.raw`(?:el\s+)?desayuno|desayunar`,
+			lunch: String.raw`(?:el\s+)?almuerzo|almorzar`,
+			dinner: String.raw`(?:la\s+)?cena|cenar`,
+			bed: "acostarse|dormir",
+		},
+		emptyStomach: String.raw`en\s+ayunas`,
+	},
+	conditions: {
+		skip: String.raw`no\s+tomar|omitir(?:\s+la\s+dosis)?`,
+		if: "si|cuando",
+		linking: "es|está",
+		measurements: {
+			bloodPressure: String.raw`(?:presión|tensión)(?:\s+arterial)?(?:\s+sistólica)?|PA|TA`,
+			pulse: String.raw`pulso|frecuencia\s+cardíaca|FC`,
+			temperature: "temperatura|fiebre",
+			glucose: String.raw`glucemia|glucosa|azúcar(?:\s+en\s+sangre)?`,
+		},
+		below: String.raw`menor\s+(?:de|que)|inferior\s+a|por\s+debajo\s+de|menos\s+de`,
+		above: String.raw`mayor\s+(?:de|que)|superior\s+a|por\s+encima\s+de|más\s+de`,
+		units: String.raw`mm\s*Hg|lpm|mg\/dl|mmol\/l`,
+	},
+	limits: {
+		maxPerDay: String.raw`no\s+más\s+de|no\s+exceder(?:\s+de)?|máximo|máx\.?|hasta`,
+		per: "al|por|en",
+		day: String.raw`día|24\s*h(?:oras)?`,
+		doses: "veces|dosis|tomas?",
+		minInterval: [
+			/(?<!\p{L})(?:al\s+menos|como\s+mínimo|mínimo)\s+(\d{1,2})\s*(?:horas?|h)(?:\s+entre\s+(?:dosis|tomas))?(?!\p{L})/iu,
+			/(?<!\p{L})(?:un\s+)?intervalo\s+(?:mínimo\s+)?de\s+(\d{1,2})\s*(?:horas?|h)(?!\p{L})/iu,
+		],
+	},
+	sites: {
+		prepositions: "en",
+		left: String.raw`izquierd\p{L}*`,
+		right: String.raw`derech\p{L}*`,
+		both: "ambos|ambas|cada",
+		nouns: {
+			eye: "ojos?",
+			ear: "oídos?|orejas?",
+			nostril: String.raw`(?:fosas?|orificios?)\s+nasal(?:es)?`,
+			abdomen: "abdomen|vientre|barriga",
+			thigh: "muslos?",
+			arm: "brazos?|hombros?|deltoides",
+			buttock: "glúteos?|nalgas?",
+		},
+		eyeDrops: "gotas?|oftálm|ojo",
+		injection: String.raw`inyecci\p{L}*|inyectar`,
+	},
+	tasks: [
+		{
+			regex:
+				/(?<!\p{L})(?:medir(?:se)?|controlar|registrar)\s+(?:la\s+|el\s+)?(?:presión(?:\s+arterial)?|tensión(?:\s+arterial)?|pulso|glucemia|glucosa|azúcar|temperatura|peso|saturación)(?!\p{L})/iu,
+			value: "measurement",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:beber|tomar)\s+(?:al\s+menos\s+)?\d+(?:[.,]\d+)?\s?(?:l|litros?|ml)\.?(?:\s+de\s+(?:agua|líquidos?))?(?!\p{L})/iu,
+			value: "hydration",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:fisioterapia|rehabilitación|ejercicios?(?:\s+respiratorios)?|caminar\s+\d+)(?!\p{L})/iu,
+			value: "exercise",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:cambi(?:ar|o\s+de)\s+(?:el\s+)?(?:apósito|vendaje)|cura\s+de\s+(?:la\s+)?herida)(?!\p{L})/iu,
+			value: "care",
+		},
+	],
+	directives: {
+		stop: String.raw`suspender|retirar|dejar\s+de\s+tomar`,
+		modify: "aumentar|subir|reducir|disminuir|bajar|cambiar|ajustar",
+		dose: String.raw`(?:la\s+)?dosis(?:\s+de)?`,
+		connectors: "a",
+	},
+	nameWords: String.raw`tomar|diario|al\s+día|por\s+la\s+noche`,
+	// Not "a", "o" or "e": they end names such as "Vitamina A".
+	nameParticles: "los|las|el|la|en|por|cada|con|y|de|del|al",
+};
@@ -0,0 +1,108 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { parsePrescription } from "../parse";
+
+const referenceDate = dayjs("2026-10-19T10:00");
+
+const parseOne = (text: string, locales?: string[]) => {
+	const { plans } = parsePrescription(text, { referenceDate, locales });
+	expect(plans).toHaveLength(1);
+	return plans[0].plan;
+};
+
+describe("weekdays", () => {
+	it.each([
+		["Vitamin D 20000 IE 1 Kapsel montags", "de", [1]],
+		["Vitamin D 20000 IE 1 Kapsel Mo bis Fr", "de", [1, 2, 3, 4, 5]],
+		["Metformina 850 mg 1 comprimido los lunes y jueves", "es", [1, 4]],
+		["Вітамін D 2000 МО 1 капсула по понеділках і четвергах", "uk", [1, 4]],
+	])("reads the days of %j", (text, locale, days) => {
+		const { locale: detected } = parsePrescription(text, { referenceDate });
+		expect(detected).toBe(locale);
+		expect(parseOne(text).instructions[0].weekdays?.days).toEqual(days);
+	});
+});
+
+describe("meal timing", () => {
+	it.each([
+		"Pantoprazol 40 mg 1 Tablette 30 Minuten vor dem Frühstück",
+		"Omeprazol 20 mg 1 cápsula 30 minutos antes del desayuno",
+		"Омепразол 20 мг 1 капсула за 30 хвилин до сніданку",
+	])("reads the offset from breakfast in %j", (text) => {
+		expect(parseOne(text).instructions[0].mealTiming).toEqual({
+			offsetMins: -30,
+			anchors: ["breakfast"],
+		});
+	});
+});
+
+describe("conditions", () => {
+	it.each([
+		"Ramipril 5 mg 1 Tablette morgens, nicht einnehmen wenn der Blutdruck unter 100 mmHg",
+		"Enalapril 10 mg 1 comprimido al día, no tomar si la presión es menor de 100",
+	])("skips the dose on low blood pressure in %j", (text) => {
+		expect(parseOne(text).instructions[0].condition).toEqual({
+			measurement: "bloodPressure",
+			comparator: "<",
+			threshold: 100,
+			action: "skip",
+		});
+	});
+});
+
+describe("dates", () => {
+	it.each([
+		["Amoxicillin 500 mg 1 Tablette 3x täglich ab 20.10.2026", undefined],
+		[
+			"Amoxicilina 500 mg 1 cápsula cada 8 horas desde el 20.10.2026 hasta el 27.10.2026",
+			"2026-10-27",
+		],
+	])("reads the course dates of %j", (text, endDate) => {
+		const plan = parseOne(text);
+		expect(plan.startDate).toBe("2026-10-20");
+		expect(plan.endDate).toBe(endDate);
+	});
+});
+
+describe("directives", () => {
+	it.each([
+		["Absetzen: ASS", ["de"]],
+		["Suspender aspirina", ["es"]],
+		["Скасувати аспірин", ["uk"]],
+	])("reads %j as a stop directive", (text, locales) => {
+		expect(parseOne(text, locales).directive?.action).toBe("stop");
+	});
+});
+
+describe("sites and tasks", () => {
+	it("reads a side after the noun", () => {
+		const plan = parseOne("Tobradex 1 gota en el ojo derecho cada 6 horas");
+		expect(plan.site).toEqual({ location: "eye", side: "right" });
+	});
+
+	it.each([
+		["Blutdruck messen morgens und abends", ["de"]],
+		["Medir la presión arterial por la mañana", ["es"]],
+		["Вимірювати тиск вранці та ввечері", ["uk"]],
+	])("reads %j as a measurement task", (text, locales) => {
+		const plan = parseOne(text, locales);
+		expect(plan.kind).toBe("task");
+		expect(plan.taskCategory).toBe("measurement");
+	});
+});
+
+describe("names", () => {
+	it.each([
+		["Ibuprofen 400 mg nach dem Essen", ["de"], "Ibuprofen"],
+		["Ibuprofeno 400 mg cada 8 horas con las comidas", ["es"], "Ibuprofeno"],
+		["Парацетамол по 1 таб 3 раза в день", ["ru"], "Парацетамол"],
+		[
+			"Преднизолон 5 мг по 4 таб 3 дня, затем по 2 таб 3 дня",
+			["ru"],
+			"Преднизолон",
+		],
+		["Ібупрофен по 1 таблетці після їжі", ["uk"], "Ібупрофен"],
+	])("reads the medicine name of %j", (text, locales, name) => {
+		expect(parseOne(text, locales).name).toBe(name);
+	});
+});
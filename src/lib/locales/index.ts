@@ -0,0 +1,530 @@
+import {
+	DoseUnit,
+	Frequency,
+	Measurement,
+	MedicationPlan,
+	RoutineAnchor,
+	SiteLocation,
+	TaskCategory,
+	TimingWhen,
+	Weekday,
+} from "../../types";
+import { de } from "./de";
+import { en } from "./en";
+import { es } from "./es";
+import { ru } from "./ru";
+import { uk } from "./uk";
+
+type Route = NonNullable<MedicationPlan["route"]>;
+
+export type FrequencyPattern = { regex: RegExp; value: Frequency };
+export type WhenPattern = { regex: RegExp; value: TimingWhen };
+export type RoutePattern = { regex: RegExp; value: Route };
+export type PeriodPattern = { regex: RegExp; value: "week" | "month" };
+export type TaskPattern = { regex: RegExp; value: TaskCategory };
+export type WeekdayPattern = { regex: RegExp; value: Weekday };
+export type WeekdayGroupPattern = { regex: RegExp; value: Weekday[] };
+export type RelativeStartPattern = { regex: RegExp; value: number }; // days from today
+// 1 side word before the noun, 2 after it ("ojo derecho")
+export type SitePattern = { regex: RegExp; value: SiteLocation };
+export type MealAnchorPattern = { regex: RegExp; value: MealAnchor };
+
+type MealAnchor = Exclude<RoutineAnchor, "wake">;
+
+// dd.mm[.yyyy]: 1 day, 2 month, 3 year.
+export const DATE_PATTERN = String.raw`(\d{1,2})[./](\d{1,2})(?:[./](\d{4}|\d{2}))?(?![\d:])`;
+
+/**
+ * Prescription vocabulary of one language. Regex fragments are combined with
+ * the other active packs, so they must not contain capture groups unless noted.
+ */
+export type LocalePack = {
+	code: string; // ISO 639-1
+	name: string;
+	// Global regex of words typical for the language, counted to detect it.
+	markers: RegExp;
+	strengthUnits: string[]; // literal spellings, e.g. "mg", "мг"
+	doseUnits: Record<string, DoseUnit>; // lowercase spelling to unit
+	rangeWords: string[]; // "1 to 2 tabs", "1 или 2 таб"
+	// Interval patterns capture the hour count (or both bounds of a range);
+	// weekly patterns may capture the number of weeks.
+	frequency: FrequencyPattern[];
+	// Weaker hints such as "twice", used only when no pattern above matches.
+	frequencyKeywords: FrequencyPattern[];
+	when: WhenPattern[];
+	routes: RoutePattern[];
+	durationUnits: { day: string; week: string; month: string };
+	prn: string; // "as needed", "по необходимости"
+	articles?: string; // skipped before a body site or a measurement
+	conjunctions: { and: string; or: string };
+	weekdays: string[]; // Sunday first, as Weekday numbers
+	weekdayGroups: { weekdays: string; weekends: string };
+	weekdayRangeWords: string[]; // "Mon to Fri", "с понедельника по пятницу"
+	singlePeriods: PeriodPattern[]; // "for a week": one period without a number
+	durationConnectors: string; // "for" in front of "7 days"
+	phaseSeparators: string; // "then", "затем"
+	// Breaks capture the days off. A phase separator followed by a break phrase
+	// ("then a 7-day break") continues the cycle instead of starting a phase.
+	cycleBreaks: RegExp[];
+	cycleBreakPhrases: string;
+	cycleCount: string; // the unit in "3 cycles"
+	dates: {
+		start: string; // before a start date: "starting", "с"
+		end: string; // before an end date: "until", "по"
+		today: string; // "starting today"
+		tomorrow: string;
+		nextPeriod: string; // start tied to the next menstruation
+	};
+	supply: {
+		quantity: RegExp[]; // dispensed count in group 1
+		untilFinished: string;
+	};
+	intervalAnchor: string; // before the time of the first dose: "first dose at"
+	meals: {
+		before: string;
+		after: string;
+		with?: string; // taken together with the meal
+		offsetLead?: string; // word before an offset: "за 30 минут до еды"
+		minutes: string;
+		hours: string;
+		nouns: string; // meals in general: "meals", "еды"
+		anchors: Record<MealAnchor, string>; // named meals and sleep
+		emptyStomach: string;
+	};
+	conditions: {
+		skip: string; // "skip", "не принимать"
+		if: string;
+		linking?: string; // verb between the measurement and the comparator: "is"
+		measurements: Record<Measurement, string>;
+		below: string;
+		above: string;
+		units: string; // after the threshold: "mm Hg"
+	};
+	limits: {
+		maxPerDay: string; // before the daily cap: "no more than"
+		per: string; // "per" in "per day"
+		day: string; // "day", "24 h"
+		doses: string; // a cap counted in doses rather than an amount: "times"
+		minInterval: RegExp[]; // hours in group 1
+	};
+	sites: {
+		prepositions: string; // "in", "в"
+		left: string;
+		right: string;
+		both: string; // "both", "each"
+		nouns: Record<SiteLocation, string>;
+		eyeDrops: string; // context in which OD/OS/OU name an eye
+		injection: string; // "injection", "укол"
+	};
+	tasks: TaskPattern[];
+	directives: {
+		stop: string; // at the start of the line: "stop aspirin"
+		modify: string; // "increase", "уменьшить"
+		dose: string; // "the dose of" after a modify verb
+		connectors: string; // "to" in "metoprolol to 50 mg"
+	};
+	nameWords: string; // instruction words left in a medicine name: "take"
+	nameParticles: string; // left dangling once the schedule is cut: "по", "on"
+};
+
+/** Active packs compiled into the regexes the parser runs. */
+export type Vocabulary = {
+	codes: string[];
+	strength: RegExp; // 1 amount, 2 unit
+	dose: RegExp; // 1 amount, 2 upper bound of a range, 3 unit
+	doseUnits: Record<string, DoseUnit>;
+	frequency: FrequencyPattern[];
+	frequencyKeywords: FrequencyPattern[];
+	when: WhenPattern[];
+	routes: RoutePattern[];
+	duration: RegExp; // 1 count, then one of 2 days, 3 weeks, 4 months
+	prn: RegExp;
+	slotSeparator: RegExp; // global
+	weekdays: WeekdayPattern[]; // global regexes
+	weekdayGroups: WeekdayGroupPattern[];
+	weekdayRange: RegExp; // whole text between two weekdays
+	singlePeriods: PeriodPattern[];
+	durationConnector: RegExp; // at the end of the text before a duration
+	phaseSeparator: RegExp; // global
+	cycleActive: RegExp; // global; 1 days on
+	cycleBreaks: RegExp[]; // 1 days off
+	cycleCount: RegExp; // 1 cycles
+	startDate: RegExp; // DATE_PATTERN groups
+	startConnector: RegExp; // at the end of the text before a range of days
+	endDate: RegExp; // DATE_PATTERN groups
+	relativeStarts: RelativeStartPattern[];
+	nextPeriod: RegExp;
+	quantity: RegExp[]; // 1 count
+	untilFinished: RegExp;
+	intervalAnchor: RegExp; // 1 hours, 2 minutes
+	// 1 offset, 2 offset unit, 3 relation, 4 meals
+	mealTiming: RegExp;
+	mealSeparator: RegExp; // between the meals of one timing
+	mealHours: RegExp; // an offset unit in hours
+	mealBefore: RegExp; // a relation before the meal
+	mealWith: RegExp; // a relation at the meal
+	mealAnchors: MealAnchorPattern[];
+	emptyStomach: RegExp;
+	// 1 and 8 skip, 2–5 measurement, 6 comparator, 7 threshold
+	condition: RegExp;
+	conditionBelow: RegExp; // a comparator word meaning "<"
+	maxPerDay: RegExp; // 1 amount, 2 unit
+	doseCount: RegExp; // a unit that counts doses
+	minInterval: RegExp[]; // 1 hours
+	leftSide: RegExp;
+	rightSide: RegExp;
+	sites: SitePattern[];
+	eyeDrops: RegExp;
+	injection: RegExp;
+	tasks: TaskPattern[];
+	stop: RegExp;
+	modify: RegExp;
+	// What follows a directive verb: a medicine, not "to 2 caps" or "if bleeding".
+	directiveTarget: RegExp;
+	courseEnd: RegExp; // a phase that only stops the course: "then stop"
+	directiveConnector: RegExp;
+	nameWords: RegExp; // global
+	nameTail: RegExp; // particles and separators at the end of a name
+};
+
+// Packs are merged by value in this order, so a pattern keeps its priority
+// whichever language it comes from.
+const FREQUENCY_ORDER: Frequency[] = [
+	"INTERVAL",
+	"QD",
+	"BID",
+	"TID",
+	"QID",
+	"QHS",
+	"QAM",
+	"QPM",
+	"QW",
+	"QOD",
+	"PRN",
+];
+const KEYWORD_ORDER: Frequency[] = ["TID", "BID", "QD"];
+const WHEN_ORDER: TimingWhen[] = [
+	"BEFORE_MEAL",
+	"AFTER_MEAL",
+	"MORN",
+	"NOON",
+	"EVE",
+	"NIGHT",
+];
+const TASK_ORDER: TaskCategory[] = [
+	"measurement",
+	"hydration",
+	"exercise",
+	"care",
+];
+const MEASUREMENT_ORDER: Measurement[] = [
+	"bloodPressure",
+	"pulse",
+	"temperature",
+	"glucose",
+];
+// Checked in this order; the first location found wins.
+const SITE_ORDER: SiteLocation[] = [
+	"eye",
+	"ear",
+	"nostril",
+	"abdomen",
+	"thigh",
+	"arm",
+	"buttock",
+];
+const MEAL_ANCHORS: MealAnchor[] = ["breakfast", "lunch", "dinner", "bed"];
+const ROUTE_ORDER: Route[] = [
+	"po",
+	"im",
+	"sc",
+	"iv",
+	"inh",
+	"sl",
+	"topical",
+	"nasal",
+	"oph",
+];
+
+/** English and Russian are always read; detection adds at most one more pack. */
+export const DEFAULT_LOCALES = ["en", "ru"];
+
+const registry = new Map<string, LocalePack>();
+const compiled = new Map<string, Vocabulary>();
+
+export const registerLocale = (pack: LocalePack) => {
+	registry.set(pack.code, pack);
+	compiled.clear();
+};
+
+export const getLocale = (code: string) => registry.get(code);
+
+export const listLocales = () => [...registry.values()];
+
+const escapeRegex = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+// Longest first, so "tablets" is tried before "tab".
+const alternation = (values: string[]) =>
+	[...new Set(values)]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegex)
+		.join("|");
+
+const byOrder =
+	<T extends string>(order: T[]) =>
+	(a: { value: T }, b: { value: T }) => {
+		const rank = (value: T) =>
+			order.includes(value) ? order.indexOf(value) : order.length;
+		return rank(a.value) - rank(b.value);
+	};
+
+// Fragments of all packs as one alternation; "(?!)" never matches, for a
+// fragment no active pack has.
+const anyOf = (fragments: (string | undefined)[]) =>
+	fragments.filter(Boolean).join("|") || "(?!)";
+
+// A fragment as whole words.
+const wordRegex = (fragment: string, flags = "iu") =>
+	new RegExp(String.raw`(?<!\p{L})(?:${fragment})(?!\p{L})`, flags);
+
+const compile = (packs: LocalePack[]): Vocabulary => {
+	const doseUnits: Record<string, DoseUnit> = Object.assign(
+		{},
+		...packs.map((pack) => pack.doseUnits),
+	);
+	const ranges = alternation(packs.flatMap((pack) => pack.rangeWords));
+	const periods = (key: keyof LocalePack["durationUnits"]) =>
+		packs.map((pack) => pack.durationUnits[key]).join("|");
+	const words = (select: (pack: LocalePack) => string | undefined) =>
+		anyOf(packs.map(select));
+	const articles = words((pack) => pack.articles);
+	const and = words((pack) => pack.conjunctions.and);
+	const or = words((pack) => pack.conjunctions.or);
+
+	const mealNoun = `(?:${anyOf([
+		...packs.map((pack) => pack.meals.nouns),
+		...MEAL_ANCHORS.flatMap((anchor) =>
+			packs.map((pack) => pack.meals.anchors[anchor]),
+		),
+	])})`;
+	const minutes = words((pack) => pack.meals.minutes);
+	const hours = words((pack) => pack.meals.hours);
+	const before = words((pack) => pack.meals.before);
+	const after = words((pack) => pack.meals.after);
+	const withMeal = words((pack) => pack.meals.with);
+
+	const skip = words((pack) => pack.conditions.skip);
+	const measurements = MEASUREMENT_ORDER.map(
+		(measurement) =>
+			`(${words((pack) => pack.conditions.measurements[measurement])})`,
+	).join("|");
+	const below = words((pack) => pack.conditions.below);
+	const above = words((pack) => pack.conditions.above);
+
+	const sides = anyOf(
+		packs.flatMap((pack) => [
+			pack.sites.left,
+			pack.sites.right,
+			pack.sites.both,
+		]),
+	);
+	const leftOrRight = anyOf(
+		packs.flatMap((pack) => [pack.sites.left, pack.sites.right]),
+	);
+	const prepositions = words((pack) => pack.sites.prepositions);
+
+	return {
+		codes: packs.map((pack) => pack.code),
+		strength: new RegExp(
+			String.raw`(\d+(?:[.,]\d+)?)\s?(${alternation(packs.flatMap((pack) => pack.strengthUnits))})(?!\p{L})`,
+			"iu",
+		),
+		dose: new RegExp(
+			String.raw`(\d+(?:[.,]\d+)?)(?:\s*(?:[-–]|${ranges})\s*(\d+(?:[.,]\d+)?))?\s*(${alternation(Object.keys(doseUnits))})(?!\p{L})`,
+			"iu",
+		),
+		doseUnits,
+		frequency: packs
+			.flatMap((pack) => pack.frequency)
+			.sort(byOrder(FREQUENCY_ORDER)),
+		frequencyKeywords: packs
+			.flatMap((pack) => pack.frequencyKeywords)
+			.sort(byOrder(KEYWORD_ORDER)),
+		when: packs.flatMap((pack) => pack.when).sort(byOrder(WHEN_ORDER)),
+		routes: packs.flatMap((pack) => pack.routes).sort(byOrder(ROUTE_ORDER)),
+		duration: new RegExp(
+			String.raw`(?<![\d.,])(\d+)\s?(?:(${periods("day")})|(${periods("week")})|(${periods("month")}))(?!\p{L})`,
+			"iu",
+		),
+		prn: new RegExp(
+			String.raw`(?<!\p{L})(?:${packs.map((pack) => pack.prn).join("|")})(?!\p{L})`,
+			"iu",
+		),
+		slotSeparator: new RegExp(
+			String.raw`[,;+]|(?<!\p{L})(?:${and})(?!\p{L})`,
+			"giu",
+		),
+		weekdays: ([1, 2, 3, 4, 5, 6, 0] as Weekday[]).map((day) => ({
+			regex: wordRegex(
+				words((pack) => pack.weekdays[day]),
+				"giu",
+			),
+			value: day,
+		})),
+		weekdayGroups: [
+			{
+				regex: wordRegex(words((pack) => pack.weekdayGroups.weekdays)),
+				value: [1, 2, 3, 4, 5],
+			},
+			{
+				regex: wordRegex(words((pack) => pack.weekdayGroups.weekends)),
+				value: [0, 6],
+			},
+		],
+		weekdayRange: new RegExp(
+			String.raw`^\s*(?:[-–—]|${alternation(packs.flatMap((pack) => pack.weekdayRangeWords))})\s*$`,
+			"iu",
+		),
+		singlePeriods: packs.flatMap((pack) => pack.singlePeriods),
+		durationConnector: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.durationConnectors)})\s*$`,
+			"iu",
+		),
+		phaseSeparator: new RegExp(
+			String.raw`[,;.]?\s*(?<!\p{L})(?:${words((pack) => pack.phaseSeparators)})(?!\p{L})(?![\s,:]*(?:${words((pack) => pack.cycleBreakPhrases)}))[\s,:]*`,
+			"giu",
+		),
+		cycleActive: new RegExp(String.raw`(\d+)\s*(?:${periods("day")})`, "giu"),
+		cycleBreaks: packs.flatMap((pack) => pack.cycleBreaks),
+		cycleCount: new RegExp(
+			String.raw`(\d+)\s*(?:${words((pack) => pack.cycleCount)})(?!\p{L})`,
+			"iu",
+		),
+		startDate: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.dates.start)})\s+${DATE_PATTERN}`,
+			"iu",
+		),
+		startConnector: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.dates.start)})\s*$`,
+			"iu",
+		),
+		endDate: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.dates.end)})\s+${DATE_PATTERN}`,
+			"iu",
+		),
+		relativeStarts: [
+			{ regex: wordRegex(words((pack) => pack.dates.tomorrow)), value: 1 },
+			{ regex: wordRegex(words((pack) => pack.dates.today)), value: 0 },
+		],
+		nextPeriod: wordRegex(words((pack) => pack.dates.nextPeriod)),
+		quantity: packs.flatMap((pack) => pack.supply.quantity),
+		untilFinished: wordRegex(words((pack) => pack.supply.untilFinished)),
+		intervalAnchor: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.intervalAnchor)})\s+(\d{1,2})[:.](\d{2})`,
+			"iu",
+		),
+		mealTiming: new RegExp(
+			String.raw`(?<!\p{L})(?:(?:${words((pack) => pack.meals.offsetLead)})\s+)?(?:(\d{1,3})\s*(${minutes}|${hours})\.?\s+)?(${before}|${after}|${withMeal})\s+(${mealNoun}(?:\s*(?:,|&|${and}|${or})\s*${mealNoun})*)(?!\p{L})`,
+			"iu",
+		),
+		mealSeparator: new RegExp(
+			String.raw`\s*(?:,|&|(?<!\p{L})(?:${and}|${or})(?!\p{L}))\s*`,
+			"iu",
+		),
+		mealHours: new RegExp(`^(?:${hours})$`, "iu"),
+		mealBefore: new RegExp(`^(?:${before})$`, "iu"),
+		mealWith: new RegExp(`^(?:${withMeal})$`, "iu"),
+		mealAnchors: MEAL_ANCHORS.map((anchor) => ({
+			regex: new RegExp(
+				words((pack) => pack.meals.anchors[anchor]),
+				"iu",
+			),
+			value: anchor,
+		})),
+		emptyStomach: wordRegex(words((pack) => pack.meals.emptyStomach)),
+		condition: new RegExp(
+			String.raw`(?<!\p{L})(?:(${skip})\s+)?(?:${words((pack) => pack.conditions.if)})\s+(?:(?:${articles})\s+)?(?:${measurements})\s*(?:(?:${words((pack) => pack.conditions.linking)})\s+)?(<=|>=|≤|≥|<|>|${below}|${above})\s*(\d+(?:[.,]\d+)?)(?:\s*\/\s*\d+)?(?:\s*(?:${words((pack) => pack.conditions.units)}|°\s*[CС]?))?(?:\s*[,—–-]?\s*(${skip}))?`,
+			"iu",
+		),
+		conditionBelow: new RegExp(`^(?:${below})`, "iu"),
+		maxPerDay: new RegExp(
+			String.raw`(?<!\p{L})(?:${words((pack) => pack.limits.maxPerDay)})\s+(\d+(?:[.,]\d+)?)\s*(\p{L}+\.?)?\s*(?:\/|${words((pack) => pack.limits.per)})\s*(?:${words((pack) => pack.limits.day)})(?!\p{L})`,
+			"iu",
+		),
+		doseCount: new RegExp(`^(?:${words((pack) => pack.limits.doses)})$`, "iu"),
+		minInterval: packs.flatMap((pack) => pack.limits.minInterval),
+		leftSide: new RegExp(`^(?:${words((pack) => pack.sites.left)})`, "iu"),
+		rightSide: new RegExp(`^(?:${words((pack) => pack.sites.right)})`, "iu"),
+		sites: SITE_ORDER.map((location) => ({
+			regex: new RegExp(
+				String.raw`(?<!\p{L})(?:(?:${prepositions})\s+)?(?:(?:${articles})\s+)?(?:(${sides})\s+)?(?:${words((pack) => pack.sites.nouns[location])})(?:\s+(${leftOrRight}))?(?!\p{L})`,
+				"iu",
+			),
+			value: location,
+		})),
+		eyeDrops: new RegExp(
+			words((pack) => pack.sites.eyeDrops),
+			"iu",
+		),
+		injection: wordRegex(words((pack) => pack.sites.injection)),
+		tasks: packs.flatMap((pack) => pack.tasks).sort(byOrder(TASK_ORDER)),
+		stop: new RegExp(
+			String.raw`^(?:${words((pack) => pack.directives.stop)})(?!\p{L})\s*:?`,
+			"iu",
+		),
+		modify: new RegExp(
+			String.raw`^(?:${words((pack) => pack.directives.modify)})(?:\s+(?:${words((pack) => pack.directives.dose)}))?(?!\p{L})\s*:?`,
+			"iu",
+		),
+		directiveTarget: new RegExp(
+			String.raw`^(?!(?:${words((pack) => pack.directives.connectors)}|${words((pack) => pack.conditions.if)})(?!\p{L}))\p{L}`,
+			"iu",
+		),
+		courseEnd: new RegExp(
+			String.raw`^\s*(?:${words((pack) => pack.directives.stop)})\s*[.!]?\s*$`,
+			"iu",
+		),
+		directiveConnector: new RegExp(
+			String.raw`(?:\s+(?:${words((pack) => pack.directives.connectors)}))+$`,
+			"iu",
+		),
+		nameWords: wordRegex(
+			words((pack) => pack.nameWords),
+			"giu",
+		),
+		nameTail: new RegExp(
+			String.raw`(?:[\s,;:/]+(?:${words((pack) => pack.nameParticles)}))+[\s,;:/]*$`,
+			"iu",
+		),
+	};
+};
+
+/** Compiled vocabulary for the given packs; unknown codes are ignored. */
+export const getVocabulary = (codes: string[]): Vocabulary => {
+	const known = [...new Set(codes)].filter((code) => registry.has(code));
+	const key = known.join(",");
+	let vocabulary = compiled.get(key);
+	if (!vocabulary) {
+		vocabulary = compile(known.map((code) => registry.get(code) as LocalePack));
+		compiled.set(key, vocabulary);
+	}
+	return vocabulary;
+};
+
+/**
+ * Guesses the language of a whole document from how many of each pack's
+ * marker words it contains. Returns undefined when nothing matches.
+ */
+export const detectLocale = (text: string): string | undefined => {
+	let best: { code: string; score: number } | undefined;
+	for (const pack of registry.values()) {
+		const score = text.match(pack.markers)?.length ?? 0;
+		if (score > (best?.score ?? 0)) {
+			best = { code: pack.code, score };
+		}
+	}
+	return best?.code;
+};
+
+[en, ru, de, es, uk].forEach(registerLocale);
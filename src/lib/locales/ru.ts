@@ -0,0 +1,267 @@
+import { LocalePack } from ".";
+
+export const ru: LocalePack = {
+	code: "ru",
+	name: "Русский",
+	markers:
+		/[ыэъё]|(?<!\p{L})(?:раза?|в\s+день|ежедневно|утром|вечером|на\s+ночь|после\s+еды|до\s+еды|дней|по\s+необходимости)(?!\p{L})/giu,
+	strengthUnits: ["мг", "мкг", "г", "мл", "МЕ"],
+	doseUnits: {
+		таб: "tab",
+		таблетки: "tab",
+		таблетка: "tab",
+		таблетку: "tab",
+		таблеток: "tab",
+		табл: "tab",
+		капсула: "caps",
+		капсулу: "caps",
+		капс: "caps",
+		капсулы: "caps",
+		капсул: "caps",
+		капли: "drops",
+		капля: "drops",
+		каплю: "drops",
+		капле: "drops",
+		капель: "drops",
+		спрей: "sprays",
+		спреи: "sprays",
+		впрыск: "sprays",
+		впрыска: "sprays",
+		впрысков: "sprays",
+		вдох: "puffs",
+		вдоха: "puffs",
+		вдохов: "puffs",
+		ингаляция: "puffs",
+		ингаляции: "puffs",
+		ингаляций: "puffs",
+		пластырь: "patches",
+		пластыря: "patches",
+		пластырей: "patches",
+		пакетик: "sachets",
+		пакетика: "sachets",
+		пакетиков: "sachets",
+		саше: "sachets",
+		свеча: "supp",
+		свечу: "supp",
+		свечи: "supp",
+		свечей: "supp",
+		суппозиторий: "supp",
+		суппозитория: "supp",
+		суппозиториев: "supp",
+		ед: "units",
+		единица: "units",
+		единицы: "units",
+		единиц: "units",
+		ме: "IU",
+		мкг: "mcg",
+		г: "g",
+		гр: "g",
+		мл: "ml",
+		мг: "mg",
+	},
+	rangeWords: ["или"],
+	// \b does not see Cyrillic letters as word characters, hence the lookarounds.
+	frequency: [
+		{
+			regex:
+				/(?<!\p{L})(?:через\s+)?кажд(?:ые|ый)\s+(\d{1,2})(?:\s?[-–]\s?(\d{1,2}))?\s*(?:час(?:а|ов)?|ч)(?!\p{L})/iu,
+			value: "INTERVAL",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])(?:1\s*раза?\s+в\s+(?:день|сутки)|1\s*р\/?д|ежедневно)(?!\p{L})/iu,
+			value: "QD",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])2\s*(?:раза?\s+в\s+(?:день|сутки)|р\/?д)(?!\p{L})/iu,
+			value: "BID",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])3\s*(?:раза?\s+в\s+(?:день|сутки)|р\/?д)(?!\p{L})/iu,
+			value: "TID",
+		},
+		{
+			regex:
+				/(?<![\p{L}\d])4\s*(?:раза?\s+в\s+(?:день|сутки)|р\/?д)(?!\p{L})/iu,
+			value: "QID",
+		},
+		{ regex: /(?<!\p{L})(на\s+ночь)(?!\p{L})/iu, value: "QHS" },
+		{ regex: /(?<!\p{L})(утром)(?!\p{L})/iu, value: "QAM" },
+		{ regex: /(?<!\p{L})(вечером)(?!\p{L})/iu, value: "QPM" },
+		{
+			regex:
+				/(?<!\p{L})(?:(?:1\s*)?раз\s+в\s+(?:(\d)\s+)?недел[июь]|еженедельно|кажд(?:ую|ые)\s+(?:(\d)\s+)?недел[июь])(?!\p{L})/iu,
+			value: "QW",
+		},
+		{ regex: /(?<!\p{L})(через\s+день)(?!\p{L})/iu, value: "QOD" },
+		{
+			regex: /(?<!\p{L})(по\s+(?:требованию|необходимости))(?!\p{L})/iu,
+			value: "PRN",
+		},
+	],
+	frequencyKeywords: [
+		{ regex: /(?<!\p{L})три\s+раза(?!\p{L})/iu, value: "TID" },
+		{ regex: /(?<!\p{L})два\s+раза(?!\p{L})/iu, value: "BID" },
+		{ regex: /(?<!\p{L})один\s+раз(?!\p{L})/iu, value: "QD" },
+	],
+	when: [
+		{ regex: /до\s+еды/i, value: "BEFORE_MEAL" },
+		{ regex: /после\s+еды/i, value: "AFTER_MEAL" },
+		{ regex: /(?<!\p{L})утром(?!\p{L})/iu, value: "MORN" },
+		{ regex: /(?<!\p{L})(?:дн[её]м|в\s+обед)(?!\p{L})/iu, value: "NOON" },
+		{ regex: /(?<!\p{L})вечером(?!\p{L})/iu, value: "EVE" },
+		{ regex: /(?<!\p{L})(?:ночью|на\s+ночь)(?!\p{L})/iu, value: "NIGHT" },
+	],
+	routes: [
+		{ regex: /в\/м|внутримышечно/i, value: "im" },
+		{ regex: /(?<!\p{L})(?:п\/к|подкожно)(?!\p{L})/iu, value: "sc" },
+		{ regex: /(?<!\p{L})(?:в\/в|внутривенно)(?!\p{L})/iu, value: "iv" },
+		{ regex: /под язык/i, value: "sl" },
+		{ regex: /наружно/i, value: "topical" },
+		{ regex: /спрей/i, value: "nasal" },
+		{ regex: /глазные/i, value: "oph" },
+	],
+	durationUnits: {
+		day: String.raw`сут\p{L}*|дн(?:ей|я)|день`,
+		week: String.raw`недел\p{L}*|нед\.?`,
+		month: String.raw`месяц\p{L}*|мес\.?`,
+	},
+	prn: String.raw`по\s+(?:требованию|необходимости)|при\s+(?:необходимости|боли)`,
+	conjunctions: { and: "и", or: "или" },
+	weekdays: [
+		"воскресень(?:е|ям|я)|вс",
+		"понедельник(?:ам|а|ом)?|пн",
+		"вторник(?:ам|а|ом)?|вт",
+		"сред(?:а|у|ам|е)|ср",
+		"четверг(?:ам|а|ом)?|чт",
+		"пятниц(?:а|у|ам|е)|пт",
+		"суббот(?:а|у|ам|е)|сб",
+	],
+	weekdayGroups: {
+		weekdays: String.raw`по\s+будням|в\s+будние\s+дни`,
+		weekends: String.raw`по\s+выходным|в\s+выходные`,
+	},
+	weekdayRangeWords: ["по"],
+	singlePeriods: [
+		{
+			regex: /(?<!\p{L})(?:в\s+течение|курс(?:ом)?|на)\s+недел[июь](?!\p{L})/iu,
+			value: "week",
+		},
+		{
+			regex: /(?<!\p{L})(?:в\s+течение|курс(?:ом)?|на)\s+месяц[а]?(?!\p{L})/iu,
+			value: "month",
+		},
+	],
+	durationConnectors: String.raw`в\s+течение|курсом|на`,
+	phaseSeparators: String.raw`затем|потом|после\s+этого`,
+	cycleBreaks: [
+		/(?<!\p{L})перерыв\p{L}*\s+(?:на\s+|в\s+)?(\d+)\s*(?:дн(?:ей|я)|день|сут(?:ок|ки)?)/iu,
+		/(\d+)\s*-?\s*дневн\p{L}*\s+перерыв/iu,
+	],
+	cycleBreakPhrases: String.raw`(?:\d+[\s-]*дн\p{L}*[\s-]*)?перерыв`,
+	cycleCount: "цикл(?:а|ов)?|курс(?:а|ов)",
+	dates: {
+		start: String.raw`начиная\s+с|начать\s+с|с`,
+		end: "до|по",
+		today: String.raw`с\s+сегодн(?:я|яшнего\s+дня)`,
+		tomorrow: String.raw`с\s+завтр(?:а|ашнего\s+дня)`,
+		nextPeriod: String.raw`с\s+(?:началом\s+|(?:1|первого)(?:-?го)?\s+дня\s+)?(?:следующ\p{L}+|очередн\p{L}+)\s+(?:месячных|менструаци\p{L}*|цикла)`,
+	},
+	supply: {
+		quantity: [
+			/(?<!\p{L})(?:всего|упаковка|уп\.?)\s*:?\s*(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<![\d.,])(\d+)\s*\p{L}+\.?\s+в\s+упаковке(?!\p{L})/iu,
+		],
+		untilFinished: String.raw`до\s+(?:окончания|конца)\s+(?:упаковки|препарата|таблеток|курса)|пока\s+не\s+закончится(?:\s+упаковка)?`,
+	},
+	intervalAnchor: String.raw`начиная\s+с|первый\s+при[её]м(?:\s+в)?`,
+	meals: {
+		before: "до|перед",
+		after: "после",
+		offsetLead: "за|через",
+		minutes: String.raw`мин\p{L}*`,
+		hours: String.raw`час\p{L}*|ч`,
+		nouns: String.raw`еды|едой|при[её]ма\s+пищи`,
+		anchors: {
+			breakfast: "завтрак(?:а|ом)",
+			lunch: "обед(?:а|ом)",
+			dinner: "ужин(?:а|ом)",
+			bed: "сна|сном",
+		},
+		emptyStomach: "натощак",
+	},
+	conditions: {
+		skip: String.raw`не\s+принимать|пропустить(?:\s+при[её]м)?`,
+		if: "при|если",
+		linking: "будет",
+		measurements: {
+			bloodPressure: String.raw`(?:систолическ\p{L}*\s+)?(?:АД|(?:артериальн\p{L}*\s+)?давлени\p{L}*)`,
+			pulse: String.raw`пульс\p{L}*|ЧСС`,
+			temperature: String.raw`т°|температур\p{L}*`,
+			glucose: String.raw`сахар\p{L}*(?:\s+крови)?|глюкоз\p{L}*`,
+		},
+		below: "ниже|меньше|менее",
+		above: "выше|больше|более",
+		units: String.raw`мм\s*рт\.?\s*ст\.?|уд\.?(?:\s*\/\s*мин)?|ммоль\/л`,
+	},
+	limits: {
+		maxPerDay: String.raw`не\s+более|не\s+больше|максимум|макс\.?`,
+		per: "в|за",
+		day: String.raw`сутки|день|24\s*ч(?:аса)?`,
+		doses: String.raw`раз\p{L}*|при[её]м\p{L}*`,
+		minInterval: [
+			/(?<!\p{L})не\s+чаще(?:\s+(?:чем|1\s+раза?|одного\s+раза))?(?:\s+(?:в|каждые|раз\s+в))?\s+(\d{1,2})\s*(?:час(?:а|ов)?|ч)(?!\p{L})/iu,
+			/(?<!\p{L})(?:с\s+)?интервал\p{L}*\s+(?:не\s+менее\s+|минимум\s+|от\s+)?(\d{1,2})\s*(?:час(?:а|ов)?|ч)(?!\p{L})/iu,
+		],
+	},
+	sites: {
+		prepositions: "в|на",
+		left: String.raw`лев\p{L}*`,
+		right: String.raw`прав\p{L}*`,
+		both: String.raw`об[аое]\p{L}*|кажд\p{L}*`,
+		nouns: {
+			eye: String.raw`глаз\p{L}*`,
+			ear: String.raw`ух[оа]|уш\p{L}*`,
+			nostril: String.raw`ноздр\p{L}*|носов\p{L}*\s+ход\p{L}*`,
+			abdomen: String.raw`живот|област\p{L}*\s+живота`,
+			thigh: String.raw`бедр\p{L}*`,
+			arm: String.raw`плеч\p{L}*`,
+			buttock: String.raw`ягодиц\p{L}*`,
+		},
+		eyeDrops: "капл|глаз",
+		injection: String.raw`укол\p{L}*|инъекц\p{L}*`,
+	},
+	tasks: [
+		{
+			regex:
+				/(?<!\p{L})(?:измеря\p{L}*|измерить|измерение|контрол\p{L}*)\s+(?:АД|(?:артериальн\p{L}*\s+)?давлени\p{L}*|пульс\p{L}*|сахар\p{L}*(?:\s+крови)?|глюкоз\p{L}*|температур\p{L}*|вес|сатураци\p{L}*)(?!\p{L})/iu,
+			value: "measurement",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:пить|выпивать)\s+(?:(?:не\s+менее|до)\s+)?\d+(?:[.,]\d+)?\s?(?:л|литр\p{L}*|мл)\.?(?:\s+(?:воды|жидкости))?(?!\p{L})/iu,
+			value: "hydration",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:ЛФК|лечебн\p{L}*\s+физкультур\p{L}*|гимнастик\p{L}*|дыхательн\p{L}*\s+гимнастик\p{L}*|ходьб\p{L}*|прогулк\p{L}*)(?!\p{L})/iu,
+			value: "exercise",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:перевязк\p{L}*|обработ\p{L}*\s+ран\p{L}*)(?!\p{L})/iu,
+			value: "care",
+		},
+	],
+	directives: {
+		stop: String.raw`отменить|отмена|прекратить(?:\s+при[её]м)?|не\s+принимать|исключить`,
+		modify: "увеличить|уменьшить|снизить|повысить|изменить|скорректировать",
+		dose: String.raw`доз\p{L}*|дозировк\p{L}*`,
+		connectors: "до|на",
+	},
+	nameWords: "принимать|утром|вечером|ночью",
+	// Not "в" or "с": they are also vitamin letters.
+	nameParticles: "по|на|во|до|и|или",
+};
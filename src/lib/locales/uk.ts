@@ -0,0 +1,255 @@
+import { LocalePack } from ".";
+
+const PER_DAY = String.raw`на\s+(?:день|добу)`;
+
+export const uk: LocalePack = {
+	code: "uk",
+	name: "Українська",
+	markers:
+		/[іїєґ]|(?<!\p{L})(?:рази|разів|на\s+добу|щодня|вранці|ввечері|після\s+їжі|днів|за\s+потреби)(?!\p{L})/giu,
+	strengthUnits: ["мг", "мкг", "г", "мл", "МО"],
+	doseUnits: {
+		таблетка: "tab",
+		таблетки: "tab",
+		таблеток: "tab",
+		таблетку: "tab",
+		таблетці: "tab",
+		табл: "tab",
+		капсула: "caps",
+		капсули: "caps",
+		капсулу: "caps",
+		капсулі: "caps",
+		капсул: "caps",
+		крапля: "drops",
+		краплі: "drops",
+		краплю: "drops",
+		крапель: "drops",
+		впорскування: "sprays",
+		вдих: "puffs",
+		вдихи: "puffs",
+		вдихів: "puffs",
+		пластир: "patches",
+		пакетик: "sachets",
+		пакетики: "sachets",
+		свічка: "supp",
+		свічки: "supp",
+		свічку: "supp",
+		свічок: "supp",
+		од: "units",
+		одиниць: "units",
+		мо: "IU",
+	},
+	rangeWords: ["або"],
+	frequency: [
+		{
+			regex:
+				/(?<!\p{L})кожні\s+(\d{1,2})(?:\s?[-–]\s?(\d{1,2}))?\s*(?:годин\p{L}*|год\.?)(?!\p{L})/iu,
+			value: "INTERVAL",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:(?:1|один)\s+раз\s+${PER_DAY}|щодня|щоденно)(?!\p{L})`,
+				"iu",
+			),
+			value: "QD",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:2\s*рази|двічі)\s+${PER_DAY}(?!\p{L})`,
+				"iu",
+			),
+			value: "BID",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:3\s*рази|тричі)\s+${PER_DAY}(?!\p{L})`,
+				"iu",
+			),
+			value: "TID",
+		},
+		{
+			regex: new RegExp(
+				String.raw`(?<![\p{L}\d])(?:4\s*рази|чотири\s+рази)\s+${PER_DAY}(?!\p{L})`,
+				"iu",
+			),
+			value: "QID",
+		},
+		{ regex: /(?<!\p{L})на\s+ніч(?!\p{L})/iu, value: "QHS" },
+		{ regex: /(?<!\p{L})(?:вранці|зранку)(?!\p{L})/iu, value: "QAM" },
+		{ regex: /(?<!\p{L})(?:ввечері|увечері)(?!\p{L})/iu, value: "QPM" },
+		{
+			regex:
+				/(?<!\p{L})(?:(?:1\s*)?раз\s+на\s+(?:(\d)\s+)?тижд\p{L}*|щотижня|кожн\p{L}*\s+(?:(\d)\s+)?тижн\p{L}*)(?!\p{L})/iu,
+			value: "QW",
+		},
+		{ regex: /(?<!\p{L})через\s+день(?!\p{L})/iu, value: "QOD" },
+		{
+			regex: /(?<!\p{L})(?:за\s+потреби|при\s+потребі)(?!\p{L})/iu,
+			value: "PRN",
+		},
+	],
+	frequencyKeywords: [
+		{ regex: /(?<!\p{L})тричі(?!\p{L})/iu, value: "TID" },
+		{ regex: /(?<!\p{L})двічі(?!\p{L})/iu, value: "BID" },
+		{ regex: /(?<!\p{L})один\s+раз(?!\p{L})/iu, value: "QD" },
+	],
+	when: [
+		{ regex: /до\s+їжі|перед\s+їжею/i, value: "BEFORE_MEAL" },
+		{ regex: /після\s+їжі/i, value: "AFTER_MEAL" },
+		{ regex: /(?<!\p{L})(?:вранці|зранку)(?!\p{L})/iu, value: "MORN" },
+		{ regex: /(?<!\p{L})(?:вдень|в\s+обід)(?!\p{L})/iu, value: "NOON" },
+		{ regex: /(?<!\p{L})(?:ввечері|увечері)(?!\p{L})/iu, value: "EVE" },
+		{ regex: /(?<!\p{L})(?:вночі|на\s+ніч)(?!\p{L})/iu, value: "NIGHT" },
+	],
+	routes: [
+		{ regex: /(?<!\p{L})(?:перорально|всередину)(?!\p{L})/iu, value: "po" },
+		{ regex: /в\/м|внутрішньом['’]?язово/iu, value: "im" },
+		{ regex: /(?<!\p{L})(?:п\/ш|підшкірно)(?!\p{L})/iu, value: "sc" },
+		{ regex: /(?<!\p{L})(?:в\/в|внутрішньовенно)(?!\p{L})/iu, value: "iv" },
+		{ regex: /під\s+язик/iu, value: "sl" },
+		{ regex: /зовнішньо/iu, value: "topical" },
+		{ regex: /назальн\p{L}*/iu, value: "nasal" },
+		{ regex: /очні\s+краплі/iu, value: "oph" },
+	],
+	durationUnits: {
+		day: String.raw`дн(?:ів|і)|день|доб\p{L}*`,
+		week: String.raw`тижн\p{L}*|тиждень|тиж\.?`,
+		month: String.raw`місяц\p{L}*|міс\.?`,
+	},
+	prn: String.raw`за\s+потреби|при\s+потребі|при\s+болю`,
+	conjunctions: { and: "і|й|та", or: "або|чи" },
+	weekdays: [
+		"неділ(?:я|ю|ям|ях|і)|нд",
+		"понеділ(?:ок|ки|ка|кам|ках|ком)|пн",
+		"вівтор(?:ок|ки|ка|кам|ках|ком)|вт",
+		"серед(?:а|у|и|ам|ах|і)|ср",
+		"четвер(?:ги|га|гам|гах|гом)?|чт",
+		"п['’]ятниц(?:я|ю|і|ям|ях)|пт",
+		"субот(?:а|у|и|ам|ах|і)|сб",
+	],
+	weekdayGroups: {
+		weekdays: String.raw`по\s+буднях|[ув]\s+будні(?:\s+дні)?`,
+		weekends: String.raw`по\s+вихідних|[ув]\s+вихідні`,
+	},
+	weekdayRangeWords: ["по", "до"],
+	singlePeriods: [
+		{
+			regex: /(?<!\p{L})(?:протягом|курсом|на)\s+тиждень(?!\p{L})/iu,
+			value: "week",
+		},
+		{
+			regex: /(?<!\p{L})(?:протягом|курсом|на)\s+місяць(?!\p{L})/iu,
+			value: "month",
+		},
+	],
+	durationConnectors: "протягом|курсом|на",
+	phaseSeparators: String.raw`потім|після\s+цього|далі`,
+	cycleBreaks: [
+		/(?<!\p{L})перерв\p{L}*\s+(?:на\s+|у\s+|в\s+)?(\d+)\s*(?:дн(?:ів|і)|день|доб\p{L}*)/iu,
+		/(\d+)\s*-?\s*денн\p{L}*\s+перерв/iu,
+	],
+	cycleBreakPhrases: String.raw`(?:\d+[\s-]*денн\p{L}*[\s-]*)?перерв`,
+	cycleCount: "цикл(?:и|ів)?|курс(?:и|ів)",
+	dates: {
+		start: String.raw`починаючи\s+з|з`,
+		end: "до|по",
+		today: String.raw`з\s+сьогодні(?:шнього\s+дня)?`,
+		tomorrow: String.raw`з\s+завтр(?:а|ашнього\s+дня)`,
+		nextPeriod: String.raw`з\s+(?:початком\s+|(?:1|першого)(?:-?го)?\s+дня\s+)?наступн\p{L}+\s+(?:місячних|менструаці\p{L}*|циклу)`,
+	},
+	supply: {
+		quantity: [
+			/(?<!\p{L})(?:всього|упаковка|уп\.?)\s*:?\s*(\d+)(?:\s*\p{L}+)?/iu,
+			/(?<![\d.,])(\d+)\s*\p{L}+\.?\s+в\s+упаковці(?!\p{L})/iu,
+		],
+		untilFinished: String.raw`до\s+(?:закінчення|кінця)\s+(?:упаковки|препарату|таблеток|курсу)|поки\s+не\s+закінчиться(?:\s+упаковка)?`,
+	},
+	intervalAnchor: String.raw`починаючи\s+з|перший\s+прийом(?:\s+о)?`,
+	meals: {
+		before: "до|перед",
+		after: "після",
+		with: String.raw`під\s+час`,
+		offsetLead: "за|через",
+		minutes: String.raw`хв\p{L}*`,
+		hours: String.raw`годин\p{L}*|год`,
+		nouns: String.raw`їжі|їжею|прийому\s+їжі`,
+		anchors: {
+			breakfast: "сніданку|сніданком",
+			lunch: "обіду|обідом",
+			dinner: "вечері|вечерею",
+			bed: "сну|сном",
+		},
+		emptyStomach: "натще(?:серце)?",
+	},
+	conditions: {
+		skip: String.raw`не\s+приймати|пропустити(?:\s+прийом)?`,
+		if: "при|якщо",
+		linking: "буде",
+		measurements: {
+			bloodPressure: String.raw`(?:систолічн\p{L}*\s+)?(?:АТ|(?:артеріальн\p{L}*\s+)?тиск\p{L}*)`,
+			pulse: String.raw`пульс\p{L}*|ЧСС`,
+			temperature: String.raw`т°|температур\p{L}*`,
+			glucose: String.raw`цук(?:ор|р\p{L}*)(?:\s+крові)?|глюкоз\p{L}*`,
+		},
+		below: String.raw`нижче|менше|менш\s+ніж`,
+		above: "вище|більше|понад",
+		units: String.raw`мм\s*рт\.?\s*ст\.?|уд\.?(?:\s*\/\s*хв)?|ммоль\/л`,
+	},
+	limits: {
+		maxPerDay: String.raw`не\s+більше|не\s+більш\s+ніж|максимум|макс\.?`,
+		per: "на|за",
+		day: String.raw`добу|день|24\s*год(?:ини)?`,
+		doses: String.raw`раз\p{L}*|прийом\p{L}*`,
+		minInterval: [
+			/(?<!\p{L})не\s+частіше(?:\s+(?:ніж|1\s+разу?|одного\s+разу))?(?:\s+(?:на|кожні|раз\s+на))?\s+(\d{1,2})\s*(?:годин\p{L}*|год)(?!\p{L})/iu,
+			/(?<!\p{L})(?:з\s+)?інтервал\p{L}*\s+(?:не\s+менше\s+|мінімум\s+|від\s+)?(\d{1,2})\s*(?:годин\p{L}*|год)(?!\p{L})/iu,
+		],
+	},
+	sites: {
+		prepositions: "в|у|на",
+		left: String.raw`лів\p{L}*`,
+		right: String.raw`прав\p{L}*`,
+		both: String.raw`обидв\p{L}*|кожн\p{L}*`,
+		nouns: {
+			eye: String.raw`ок[оа]|оч\p{L}*`,
+			ear: String.raw`вух\p{L}*`,
+			nostril: String.raw`ніздр\p{L}*|носов\p{L}*\s+х[іо]д\p{L}*`,
+			abdomen: String.raw`живіт|ділянк\p{L}*\s+живота|живота`,
+			thigh: String.raw`стегн\p{L}*`,
+			arm: String.raw`плеч\p{L}*`,
+			buttock: String.raw`сідниц\p{L}*`,
+		},
+		eyeDrops: "крапл|оч|око",
+		injection: String.raw`укол\p{L}*|ін['’]?єкці\p{L}*`,
+	},
+	tasks: [
+		{
+			regex:
+				/(?<!\p{L})(?:вимірю\p{L}*|виміряти|контрол\p{L}*)\s+(?:АТ|(?:артеріальн\p{L}*\s+)?тиск\p{L}*|пульс\p{L}*|цук(?:ор|р\p{L}*)(?:\s+крові)?|глюкоз\p{L}*|температур\p{L}*|вагу|сатураці\p{L}*)(?!\p{L})/iu,
+			value: "measurement",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:пити|випивати)\s+(?:(?:не\s+менше|до)\s+)?\d+(?:[.,]\d+)?\s?(?:л|літр\p{L}*|мл)\.?(?:\s+(?:води|рідини))?(?!\p{L})/iu,
+			value: "hydration",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:ЛФК|лікувальн\p{L}*\s+фізкультур\p{L}*|(?:дихальн\p{L}*\s+)?гімнастик\p{L}*|ходьб\p{L}*|прогулянк\p{L}*)(?!\p{L})/iu,
+			value: "exercise",
+		},
+		{
+			regex:
+				/(?<!\p{L})(?:перев['’]?язк\p{L}*|оброб\p{L}*\s+ран\p{L}*)(?!\p{L})/iu,
+			value: "care",
+		},
+	],
+	directives: {
+		stop: String.raw`скасувати|відмінити|припинити(?:\s+прийом)?|не\s+приймати|виключити`,
+		modify: "збільшити|зменшити|знизити|підвищити|змінити|скоригувати",
+		dose: String.raw`доз\p{L}*|дозуванн\p{L}*`,
+		connectors: "до|на",
+	},
+	nameWords: String.raw`приймати|вранці|ввечері|на\s+ніч`,
+	nameParticles: "по|на|до|і|й|та|або",
+};
@@ -1,31 +1,20 @@
-import { File } from "expo-file-system";
-import { manipulateAsync, SaveFormat } from "expo-image-manipulator";
+import { File, Paths } from "expo-file-system";
 import { Platform } from "react-native";
-
-type TextRecognitionModule =
-	typeof import("@react-native-ml-kit/text-recognition");
-type TextRecognitionApi = TextRecognitionModule["default"];
-
-const textRecognition: TextRecognitionApi | null = (() => {
-	try {
-		// eslint-disable-next-line @typescript-eslint/no-require-imports
-		const module =
-			require("@react-native-ml-kit/text-recognition") as TextRecognitionModule;
-		const api = (module?.default ?? (module as unknown)) as TextRecognitionApi;
-		if (!api?.recognize) {
-			throw new Error("missing recognize implementation");
-		}
-		return api;
-	} catch (error) {
-		if (typeof __DEV__ !== "undefined" && __DEV__) {
-			console.info(
-				"[ocr] ML Kit text recognition unavailable. Use a development build (`expo run:ios`/`expo run:android`) to enable OCR.",
-				error,
-			);
-		}
-		return null;
-	}
-})();
+import recordedFixtures from "../../fixtures/ocr/fixtures.json";
+import { OcrDocument, OcrElement, OcrPage } from "../types";
+import { getOcrEngine, setOcrEngine } from "./ocrEngines";
+import { createFixtureEngine } from "./ocrEngines/fixture";
+import { mlKitEngine } from "./ocrEngines/mlkit";
+import { mergePageTexts } from "./pages";
+import { readPdf } from "./pdf";
+import {
+	DEFAULT_PREPROCESS,
+	PreparedImage,
+	PreprocessOptions,
+	prepareImage,
+	refineImage,
+} from "./preprocess";
+import { ImagePipeline, recognizeImage } from "./recognize";
 
 const IMAGE_SCHEME = "file://";
 
@@ -39,17 +28,52 @@ const toFileUri = (uri: string) =>
 		? `${IMAGE_SCHEME}${uri}`
 		: uri;
 
+const checkedImage = (image: PreparedImage): PreparedImage => {
+	const fileUri = toFileUri(image.uri);
+	const processedInfo = new File(fileUri).info();
+	if (!processedInfo.exists) {
+		throw new Error("Processed file missing or inaccessible");
+	}
+	return { ...image, uri: fileUri };
+};
+
+const devicePipeline: Omit<ImagePipeline, "options"> = {
+	prepare: async (uri, options) =>
+		checkedImage(await prepareImage(uri, options)),
+	refine: async (image, page, options) => {
+		const refined = await refineImage(image, page, options);
+		return refined && checkedImage(refined);
+	},
+};
+
+/** File contents for engines keyed on the image, such as the fixture engine. */
+export const readImageBytes = (uri: string) =>
+	new File(ensureFileScheme(uri)).bytes();
+
+// Simulators and CI builds can answer from recorded fixtures instead of ML Kit.
+if (process.env.EXPO_PUBLIC_OCR_ENGINE === "fixtures") {
+	setOcrEngine(createFixtureEngine(recordedFixtures, readImageBytes));
+}
+
 /**
- * Runs ML Kit text recognition on a still image captured by the VisionCamera or selected from disk.
+ * Runs the active OCR engine (ML Kit unless replaced) on a still image captured by the
+ * VisionCamera or selected from disk, keeping blocks, lines and words with their boxes and
+ * confidence. Preprocessing steps can be switched off one by one; when a pass finds little
+ * text, alternate preprocessing is tried and the longest read wins. Engines that opt out of
+ * preprocessing read the original file once.
  */
-export async function recognizeTextFromImage(uri: string): Promise<string> {
+export async function recognizeDocumentFromImage(
+	uri: string,
+	options: Partial<PreprocessOptions> = {},
+): Promise<OcrDocument> {
 	const normalizedUri = ensureFileScheme(uri);
 
-	if (!textRecognition) {
+	const engine = getOcrEngine() ?? mlKitEngine;
+	if (!engine) {
 		console.warn(
-			"[ocr] Text recognition not available, returning empty string",
+			"[ocr] Text recognition not available, returning empty document",
 		);
-		return "";
+		return { text: "", pages: [] };
 	}
 
 	try {
@@ -62,42 +86,96 @@ export async function recognizeTextFromImage(uri: string): Promise<string> {
 		throw new Error(`File not accessible for OCR: ${String(error)}`);
 	}
 
-	let preparedUri = normalizedUri;
-
 	try {
-		const manipulated = await manipulateAsync(normalizedUri, [], {
-			compress: 0.9,
-			format: SaveFormat.PNG,
+		return await recognizeImage(engine, normalizedUri, {
+			...devicePipeline,
+			options: { ...DEFAULT_PREPROCESS, ...options },
 		});
-		const manipulatedUri = toFileUri(manipulated.uri);
-		const processedFile = new File(manipulatedUri);
-		const processedInfo = processedFile.info();
-		if (!processedInfo.exists) {
-			throw new Error("Processed file missing or inaccessible");
-		}
-		preparedUri = manipulatedUri;
 	} catch (error) {
-		// Manipulation is a best-effort improvement only.
-		console.warn("[ocr] Manipulation skipped:", error);
+		console.error("[ocr] Failed to extract text", error);
+		throw error;
 	}
+}
 
-	try {
-		const result = await textRecognition.recognize(preparedUri);
+export type PdfRecognition = {
+	text: string;
+	ocr?: OcrDocument; // layout of the pages that went through OCR
+	skippedPages: SkippedPdfPage[]; // pages no text could be read from
+};
 
-		if (typeof result.text === "string" && result.text.trim().length > 0) {
-			return result.text.trim();
-		}
+export type SkippedPdfPage = {
+	page: number; // 1-based
+	reason: string;
+};
 
-		const lines = result.blocks
-			?.flatMap(
-				(block) =>
-					block.lines?.map((line) => line.text ?? "").filter(Boolean) ?? [],
-			)
-			.filter(Boolean);
+/**
+ * Reads a PDF picked from disk. Embedded text is used as is; each scanned page's
+ * image is written to the cache and recognised like a photo.
+ */
+export async function recognizeDocumentFromPdf(
+	uri: string,
+): Promise<PdfRecognition> {
+	const pages = readPdf(await new File(ensureFileScheme(uri)).bytes());
+	const texts: string[] = [];
+	const ocrPages: OcrPage[] = [];
+	const skippedPages: SkippedPdfPage[] = [];
 
-		return lines?.join("\n").trim() ?? "";
-	} catch (error) {
-		console.error("[ocr] Failed to extract text", error);
-		throw error;
+	for (const [index, page] of pages.entries()) {
+		let text = page.text;
+		if (page.image) {
+			const file = new File(
+				Paths.cache,
+				`pdf-page-${Date.now()}-${index + 1}.${page.image.extension}`,
+			);
+			try {
+				file.create({ overwrite: true });
+				file.write(page.image.bytes);
+				const document = await recognizeDocumentFromImage(file.uri);
+				text = document.text || text;
+				ocrPages.push(...document.pages);
+			} finally {
+				if (file.exists) {
+					file.delete();
+				}
+			}
+		} else if (page.skipped) {
+			console.warn(`[ocr] PDF page ${index + 1} skipped: ${page.skipped}`);
+		}
+		texts.push(text);
+		if (!text) {
+			skippedPages.push({
+				page: index + 1,
+				reason: page.skipped ?? "no text found in the page image",
+			});
+		}
 	}
+
+	const text = texts.some(Boolean) ? mergePageTexts(texts) : "";
+	return {
+		text,
+		ocr: ocrPages.length ? { text, pages: ocrPages } : undefined,
+		skippedPages,
+	};
+}
+
+/** Words the engine was unsure of, for highlighting before the text is parsed. */
+export const uncertainElements = (
+	document: OcrDocument,
+	threshold = 0.6,
+): OcrElement[] =>
+	document.pages.flatMap((page) =>
+		page.blocks.flatMap((block) =>
+			block.lines.flatMap((line) =>
+				line.elements.filter(
+					(element) =>
+						element.confidence !== undefined && element.confidence < threshold,
+				),
+			),
+		),
+	);
+
+/** Plain text of {@link recognizeDocumentFromImage}. */
+export async function recognizeTextFromImage(uri: string): Promise<string> {
+	const document = await recognizeDocumentFromImage(uri);
+	return document.text;
 }
@@ -0,0 +1,61 @@
+import { OcrEngine, OcrPage, RecognizedPage } from "../../types";
+import { crc32 } from "../zlib";
+
+/** Recorded output of an engine for one image. */
+export type OcrFixture = {
+	image?: string; // file the output belongs to, for people reading fixtures
+	text: string;
+	page?: OcrPage;
+};
+
+/** Fixtures keyed by {@link imageHash} of the image file. */
+export type OcrFixtures = Record<string, OcrFixture>;
+
+// Injected so the engine runs under Node as well as on a device.
+export type ReadBytes = (uri: string) => Promise<Uint8Array>;
+
+export class MissingFixtureError extends Error {}
+
+/** Checksum and size of the file, e.g. "1c291ca3-48213". */
+export const imageHash = (bytes: Uint8Array) =>
+	`${crc32(bytes).toString(16).padStart(8, "0")}-${bytes.length}`;
+
+/**
+ * Deterministic engine that answers from recorded fixtures instead of reading
+ * pixels, so capture, review and scheduling can run without a device.
+ * Images are matched byte for byte, so preprocessing is off.
+ */
+export const createFixtureEngine = (
+	fixtures: OcrFixtures,
+	readBytes: ReadBytes,
+): OcrEngine => ({
+	name: "Fixtures",
+	preprocess: false,
+	recognize: async (uri) => {
+		const hash = imageHash(await readBytes(uri));
+		const fixture = fixtures[hash];
+		if (!fixture) {
+			throw new MissingFixtureError(`No OCR fixture for image ${hash}`);
+		}
+		return { text: fixture.text, page: fixture.page ?? { blocks: [] } };
+	},
+});
+
+/**
+ * Wraps a real engine and reports what it read for each image, to build
+ * fixtures on a device. The wrapped engine sees the original file, as the
+ * fixture engine will when the recording is replayed.
+ */
+export const recordFixtures = (
+	engine: OcrEngine,
+	readBytes: ReadBytes,
+	onRecord: (hash: string, fixture: OcrFixture) => void,
+): OcrEngine => ({
+	name: `${engine.name} (recording)`,
+	preprocess: false,
+	recognize: async (uri, size): Promise<RecognizedPage> => {
+		const recognized = await engine.recognize(uri, size);
+		onRecord(imageHash(await readBytes(uri)), recognized);
+		return recognized;
+	},
+});
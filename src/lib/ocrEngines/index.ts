@@ -0,0 +1,14 @@
+import { OcrEngine } from "../../types";
+
+let activeEngine: OcrEngine | null = null;
+
+/**
+ * The engine registered for OCR, if any. Without one the app falls back to
+ * ML Kit where it is installed.
+ */
+export const getOcrEngine = (): OcrEngine | null => activeEngine;
+
+/** Swaps the engine, e.g. for the fixture engine in tests and on simulators. */
+export const setOcrEngine = (engine: OcrEngine | null) => {
+	activeEngine = engine;
+};
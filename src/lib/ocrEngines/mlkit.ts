@@ -0,0 +1,108 @@
+import { OcrBox, OcrElement, OcrEngine, OcrPage } from "../../types";
+
+type TextRecognitionModule =
+	typeof import("@react-native-ml-kit/text-recognition");
+type TextRecognitionApi = TextRecognitionModule["default"];
+type RecognitionResult = Awaited<ReturnType<TextRecognitionApi["recognize"]>>;
+type RecognizedFrame = RecognitionResult["blocks"][number]["frame"];
+
+const textRecognition: TextRecognitionApi | null = (() => {
+	try {
+		const module =
+			require("@react-native-ml-kit/text-recognition") as TextRecognitionModule;
+		const api = (module?.default ?? (module as unknown)) as TextRecognitionApi;
+		if (!api?.recognize) {
+			throw new Error("missing recognize implementation");
+		}
+		return api;
+	} catch (error) {
+		if (typeof __DEV__ !== "undefined" && __DEV__) {
+			console.info(
+				"[ocr] ML Kit text recognition unavailable. Use a development build (`expo run:ios`/`expo run:android`) to enable OCR.",
+				error,
+			);
+		}
+		return null;
+	}
+})();
+
+const toBox = (frame: RecognizedFrame): OcrBox | undefined =>
+	frame
+		? {
+				left: frame.left,
+				top: frame.top,
+				width: frame.width,
+				height: frame.height,
+			}
+		: undefined;
+
+// ML Kit reports confidence on Android only, and its typings leave it out.
+const readConfidence = (item: object): number | undefined => {
+	const value = (item as { confidence?: unknown }).confidence;
+	return typeof value === "number" && value >= 0
+		? Math.min(value, 1)
+		: undefined;
+};
+
+const averageConfidence = (elements: OcrElement[]) => {
+	const values = elements
+		.map((element) => element.confidence)
+		.filter((value): value is number => value !== undefined);
+	return values.length
+		? values.reduce((sum, value) => sum + value, 0) / values.length
+		: undefined;
+};
+
+const toPage = (
+	result: RecognitionResult,
+	size?: { width: number; height: number },
+): OcrPage => ({
+	width: size?.width,
+	height: size?.height,
+	blocks: (result.blocks ?? []).map((block) => ({
+		text: block.text ?? "",
+		box: toBox(block.frame),
+		languages: (block.recognizedLanguages ?? []).map(
+			(language) => language.languageCode,
+		),
+		lines: (block.lines ?? []).map((line) => {
+			const elements: OcrElement[] = (line.elements ?? []).map((element) => ({
+				text: element.text ?? "",
+				box: toBox(element.frame),
+				confidence: readConfidence(element),
+			}));
+			return {
+				text: line.text ?? "",
+				box: toBox(line.frame),
+				confidence: readConfidence(line) ?? averageConfidence(elements),
+				languages: (line.recognizedLanguages ?? []).map(
+					(language) => language.languageCode,
+				),
+				elements,
+			};
+		}),
+	})),
+});
+
+const pageText = (page: OcrPage) =>
+	page.blocks
+		.flatMap((block) => block.lines.map((line) => line.text))
+		.filter(Boolean)
+		.join("\n")
+		.trim();
+
+export const mlKitEngine: OcrEngine | null = textRecognition
+	? {
+			name: "ML Kit",
+			preprocess: true,
+			recognize: async (uri, size) => {
+				const result = await textRecognition.recognize(uri);
+				const page = toPage(result, size);
+				const text =
+					typeof result.text === "string" && result.text.trim().length > 0
+						? result.text.trim()
+						: pageText(page);
+				return { text, page };
+			},
+		}
+	: null;
@@ -0,0 +1,62 @@
+import { OcrDocument } from "../types";
+import { pageMarker } from "./parse";
+
+// Photos of consecutive pages often repeat a few lines at the edges.
+const MAX_OVERLAP_LINES = 8;
+const MIN_OVERLAP_CHARS = 12;
+
+const normalizeLine = (line: string) =>
+	line
+		.toLowerCase()
+		.replace(/\s+/g, " ")
+		.replace(/^[\s.,;:•*-]+|[\s.,;:•*-]+$/g, "");
+
+/**
+ * How many leading lines of `next` repeat the last lines of `previous`, blank
+ * lines aside. Very short overlaps such as a lone "1" are not trusted.
+ */
+const overlapLength = (previous: string[], next: string[]) => {
+	const before = previous.map(normalizeLine).filter(Boolean);
+	const after = next
+		.map((line, index) => ({ line: normalizeLine(line), end: index + 1 }))
+		.filter(({ line }) => line);
+	const limit = Math.min(before.length, after.length, MAX_OVERLAP_LINES);
+	for (let count = limit; count > 0; count--) {
+		const tail = before.slice(before.length - count);
+		const head = after.slice(0, count);
+		if (
+			tail.every((line, index) => line === head[index].line) &&
+			tail.join("").length >= MIN_OVERLAP_CHARS
+		) {
+			return head[count - 1].end;
+		}
+	}
+	return 0;
+};
+
+/**
+ * Joins the text of captured pages in order, dropping lines a page repeats
+ * from the end of the one before. With more than one page each starts with a
+ * page marker, so the parser can tell which page a medication came from.
+ */
+export const mergePageTexts = (texts: string[]): string => {
+	const pages: string[][] = [];
+	texts.forEach((text) => {
+		const lines = text.trim().split(/\r?\n/);
+		const previous = pages[pages.length - 1];
+		pages.push(previous ? lines.slice(overlapLength(previous, lines)) : lines);
+	});
+	if (pages.length === 1) {
+		return pages[0].join("\n");
+	}
+	// No blank line around markers, so an entry can run on to the next page.
+	return pages
+		.flatMap((lines, index) => [pageMarker(index + 1), ...lines])
+		.join("\n");
+};
+
+/** One document from several recognised pages, with the merged text. */
+export const mergePageDocuments = (documents: OcrDocument[]): OcrDocument => ({
+	text: mergePageTexts(documents.map((document) => document.text)),
+	pages: documents.flatMap((document) => document.pages),
+});
@@ -0,0 +1,94 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { parsePrescription } from "./parse";
+import { expandPlan } from "./schedule";
+
+const referenceDate = dayjs("2026-10-19T10:00");
+
+const parseOne = (text: string, locales?: string[]) => {
+	const { plans } = parsePrescription(text, { referenceDate, locales });
+	expect(plans).toHaveLength(1);
+	return plans[0].plan;
+};
+
+describe("weekly schedules", () => {
+	it("reads 'every 2 weeks' as the frequency, not the course length", () => {
+		const plan = parseOne("Vitamin D 50000 IU every 2 weeks");
+		const [instruction] = plan.instructions;
+		expect(instruction.frequency).toBe("QW");
+		expect(instruction.weekdays?.everyWeeks).toBe(2);
+		expect(instruction.durationDays).toBeUndefined();
+		expect(expandPlan(plan, referenceDate, 42)).toHaveLength(3);
+	});
+
+	it("still reads an explicit course length next to a weekly frequency", () => {
+		const plan = parseOne("Vitamin D 50000 IU every 2 weeks for 8 weeks");
+		expect(plan.instructions[0].durationDays).toBe(56);
+	});
+});
+
+describe("plan names", () => {
+	it.each([
+		["Amoxicillin every 8 hours for 7 days", "Amoxicillin"],
+		["Ibuprofen q6h", "Ibuprofen"],
+		["Vitamin D 50000 IU every 2 weeks", "Vitamin D"],
+		["Cetirizine once daily for a week", "Cetirizine"],
+		["Bisoprolol 5 mg daily, skip if pulse below 55", "Bisoprolol"],
+		["Omeprazole 20 mg 30 min before breakfast", "Omeprazole"],
+		["Ibuprofen 400 mg after meals", "Ibuprofen"],
+		["Methotrexate 2.5 mg on Monday", "Methotrexate"],
+		["Vitamin D Mon/Wed/Fri", "Vitamin D"],
+		["Витамин Д по вторникам и пятницам", "Витамин Д"],
+		["Витамин Д с понедельника по пятницу 1 капс", "Витамин Д"],
+		["Амоксициллин с 20.10 по 01.11", "Амоксициллин"],
+		["Amoxicillin 500 mg starting 20.10.2026", "Amoxicillin"],
+		["Enoxaparin 40 mg subcutaneously", "Enoxaparin"],
+		["Эноксапарин 40 мг п/к", "Эноксапарин"],
+		["Salbutamol inhaler 2 puffs", "Salbutamol inhaler"],
+		["Amoxicillin 500 mg 3 times a day, pack of 21", "Amoxicillin"],
+		["Amoxicillin until the pack is finished", "Amoxicillin"],
+	])("leaves the schedule out of %j", (text, name) => {
+		expect(parseOne(text).name).toBe(name);
+	});
+});
+
+describe("directives", () => {
+	it.each(["Stop aspirin", "Отменить омепразол"])(
+		"reads %j as stopping a plan",
+		(text) => {
+			expect(parseOne(text).directive).toEqual({ action: "stop" });
+		},
+	);
+
+	it.each([
+		"Преднизолон 5 мг по 4 таб 3 дня, затем по 2 таб 3 дня, затем отменить",
+		"Prednisolone 5 mg 2 tabs daily for 5 days, then stop",
+	])("keeps the taper in %j as a new plan", (text) => {
+		const plan = parseOne(text);
+		expect(plan.directive).toBeUndefined();
+		expect(plan.instructions.every((item) => item.durationDays)).toBe(true);
+	});
+
+	it.each([
+		"Omeprazole 20 mg 1 cap daily for 14 days\nthen stop",
+		"Aspirin 75 mg 1 tab daily\nStop if bleeding",
+		"Omeprazole 20 mg 1 cap daily\nincrease to 2 caps if heartburn persists",
+	])("reads the second line of %j as part of the plan", (text) => {
+		expect(parseOne(text).directive).toBeUndefined();
+	});
+});
+
+describe("pack quantity", () => {
+	it("counts a pack of tablets through the strength of a dose in mg", () => {
+		const plan = parseOne("Amoxicillin 500 mg 3 times a day, pack of 21");
+		expect(plan.instructions[0].dose).toEqual({ amount: 500, unit: "mg" });
+		expect(expandPlan(plan, referenceDate.startOf("day"), 30)).toHaveLength(21);
+	});
+
+	it("asks about a pack it cannot count in doses", () => {
+		const text = "Insulin glargine 10 units at night, pack of 5";
+		const { plans, questions } = parsePrescription(text, { referenceDate });
+		expect(questions.map((question) => question.field)).toEqual(["quantity"]);
+		expect(expandPlan(plans[0].plan, referenceDate, 30)).toHaveLength(30);
+	});
+});
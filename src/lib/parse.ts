@@ -1,183 +1,893 @@
+import dayjs, { Dayjs } from "dayjs";
 import {
+	AdministrationSite,
+	ClarificationQuestion,
+	CycleRule,
 	DosageInstruction,
+	DoseCondition,
+	DoseUnit,
+	FieldMeta,
 	Frequency,
+	InstructionField,
+	MealTiming,
 	MedicationPlan,
+	ParsedPlan,
+	ParseResult,
+	ParseTrace,
+	PlanDirective,
+	PlanField,
+	PrnLimits,
+	RoutineAnchor,
+	SiteLocation,
+	SourceSpan,
+	TaskCategory,
 	TimingWhen,
+	TraceStep,
+	Weekday,
+	WeekdayRule,
 } from "../types";
+import { findDrug, isCorrection } from "./drugs";
+import {
+	DATE_PATTERN,
+	DEFAULT_LOCALES,
+	detectLocale,
+	getVocabulary,
+	Vocabulary,
+} from "./locales";
+import { doseLimit, formatDose } from "./schedule";
 
-const STRENGTH_REGEX = /(\d+(?:[.,]\d+)?)\s?(mg|мг|ml|мл)/i;
-const DURATION_REGEX = /(\d+)\s?(?:days?|сут|дн(?:ей|я)?)/i;
-const DOSE_REGEX =
-	/(\d+(?:[.,]\d+)?)\s*(таб(?:летка|летки|леток)?|табл\.?|tab(?:let)?s?|капс(?:ула|улы)?|caps?(?:ule)?s?|drops?|капли|sprays?|спрей(?:ы|)|ml|мл|mg|мг)/i;
+const DAYS_PER_MONTH = 30;
+// "№20" or "#20" in any language.
+const NUMBER_SIGN_QUANTITY_REGEX = /(?:#|№)\s?(\d+)(?!\d)/u;
 const TIME_REGEX = /(\d{1,2})[:.](\d{2})/g;
+const DATE_RANGE_REGEX = new RegExp(
+	String.raw`(?<![\d.])${DATE_PATTERN}\s*[-–—]\s*${DATE_PATTERN}`,
+	"u",
+);
 
-const FREQUENCY_PATTERNS: { regex: RegExp; value: Frequency }[] = [
-	{
-		regex: /\b(qd|once daily|1\s*(?:time a day|раз(?:а)? в день)|ежедневно)\b/i,
-		value: "QD",
-	},
-	{
-		regex: /\b(bid|2x\/?day|2\s*(?:times a day|раз(?:а)? в день|р\/?д))\b/i,
-		value: "BID",
-	},
-	{ regex: /\b(tid|3x\/?day|3\s*(?:times a day|р\/?д))\b/i, value: "TID" },
-	{ regex: /\b(qid|4x\/?day|4\s*(?:times a day|р\/?д))\b/i, value: "QID" },
-	{ regex: /\b(qhs|at\s+night|на\s+ночь)\b/i, value: "QHS" },
-	{ regex: /\b(qam|in\s+the\s+morning|утром)\b/i, value: "QAM" },
-	{ regex: /\b(qpm|in\s+the\s+evening|вечером)\b/i, value: "QPM" },
-	{ regex: /\b(every other day|через день)\b/i, value: "QOD" },
-	{ regex: /\b(as needed|по\s+(?:требованию|необходимости))\b/i, value: "PRN" },
-];
+// Eyes, ears and nostrils are named for drops and sprays; body areas only count
+// for injections, where "в живот" is a site rather than "pain in the stomach".
+const INJECTION_SITES: SiteLocation[] = ["abdomen", "thigh", "arm", "buttock"];
+// Ophthalmic shorthand: oculus dexter / sinister / uterque. "OD" also means
+// once daily, so it only counts next to eye drops.
+const EYE_SHORTHAND_REGEX = /(?<!\p{L}|per\s)(OD|OS|OU)(?!\p{L})/u;
 
-const WHEN_PATTERNS: { regex: RegExp; value: TimingWhen }[] = [
-	{ regex: /before meals?|до\s+еды/i, value: "BEFORE_MEAL" },
-	{ regex: /after meals?|после\s+еды/i, value: "AFTER_MEAL" },
-	{ regex: /\bmorning|утром\b/i, value: "MORN" },
-	{ regex: /\bnoon|дн[её]м\b/i, value: "NOON" },
-	{ regex: /\bevening|вечером\b/i, value: "EVE" },
-	{ regex: /\bnight|ночью\b/i, value: "NIGHT" },
-];
+/** Fields below this confidence are flagged for the patient to double-check. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
 
-const ROUTE_PATTERNS: {
-	regex: RegExp;
-	value: NonNullable<MedicationPlan["route"]>;
-}[] = [
-	{ regex: /\b(po|per os|by mouth)\b/i, value: "po" },
-	{ regex: /\bim\b/i, value: "im" },
-	{ regex: /\biv\b/i, value: "iv" },
-	{ regex: /\binhal(e|ation)|inh\b/i, value: "inh" },
-	{ regex: /sublingual|под язык|sl\b/i, value: "sl" },
-	{ regex: /topical|наружно/i, value: "topical" },
-	{ regex: /nasal|intranasal|спрей/i, value: "nasal" },
-	{ regex: /ophthalmic|глазные/i, value: "oph" },
-];
+const CONFIDENCE = {
+	explicit: 0.9,
+	keyword: 0.7,
+	ambiguous: 0.5,
+	defaulted: 0.2,
+};
+
+type SourceLine = {
+	text: string;
+	offset: number; // position of text[0] in the raw input
+	page?: number; // from the last page marker above the line
+};
+
+type SourceText = {
+	text: string;
+	offsets: number[]; // raw input position of every character in text
+};
+
+type Detection<T> = {
+	value: T;
+	index: number;
+	length: number;
+	confidence: number;
+};
+
+// Numbers only count as list markers with a dot or bracket, so "1 tab" keeps its amount.
+const BULLET_REGEX = /^(?:\s*(?:[-•–—]+|\d{1,2}[.)](?!\d)))+\s*/;
+
+const stripBullet = (line: string) => line.replace(BULLET_REGEX, "").trim();
+
+const stripBulletLine = (line: SourceLine): SourceLine => {
+	const skipped = line.text.match(BULLET_REGEX)?.[0].length ?? 0;
+	return {
+		text: line.text.slice(skipped).trim(),
+		offset: line.offset + skipped,
+	};
+};
+
+const joinLines = (lines: SourceLine[]): SourceText => {
+	let text = "";
+	const offsets: number[] = [];
+	lines.forEach((line, index) => {
+		if (index > 0) {
+			text += " ";
+			offsets.push(offsets[offsets.length - 1] + 1);
+		}
+		text += line.text;
+		for (let position = 0; position < line.text.length; position += 1) {
+			offsets.push(line.offset + position);
+		}
+	});
+	return { text, offsets };
+};
+
+const sliceSource = (
+	source: SourceText,
+	start: number,
+	end: number,
+): SourceText => ({
+	text: source.text.slice(start, end),
+	offsets: source.offsets.slice(start, end),
+});
+
+/** Splits "2 tabs for 3 days, then 1 tab for 5 days" into ordered phase segments. */
+const splitPhases = (source: SourceText, vocab: Vocabulary): SourceText[] => {
+	const segments: SourceText[] = [];
+	let cursor = 0;
+	for (const match of source.text.matchAll(vocab.phaseSeparator)) {
+		const index = match.index ?? 0;
+		if (source.text.slice(cursor, index).trim().length) {
+			segments.push(sliceSource(source, cursor, index));
+			cursor = index + match[0].length;
+		}
+	}
+	const rest = sliceSource(source, cursor, source.text.length);
+	if (rest.text.trim().length || !segments.length) {
+		segments.push(rest);
+	}
+	// "затем отменить" closes a taper; it is not a phase of its own.
+	return segments.filter(
+		(segment, position) =>
+			position === 0 || !vocab.courseEnd.test(segment.text),
+	);
+};
+
+const toSpan = (
+	source: SourceText,
+	index: number,
+	length: number,
+): SourceSpan | undefined => {
+	if (index < 0 || length <= 0 || index + length > source.offsets.length) {
+		return undefined;
+	}
+	return {
+		start: source.offsets[index],
+		end: source.offsets[index + length - 1] + 1,
+	};
+};
+
+const detectedMeta = <T>(
+	source: SourceText,
+	detection: Detection<T>,
+): FieldMeta => ({
+	source: "detected",
+	span: toSpan(source, detection.index, detection.length),
+	confidence: detection.confidence,
+});
 
-const DOSE_UNIT_MAP: Record<string, DosageInstruction["dose"]["unit"]> = {
-	таб: "tab",
-	таблетки: "tab",
-	таблетка: "tab",
-	табл: "tab",
-	tab: "tab",
-	tabs: "tab",
-	tablet: "tab",
-	tablets: "tab",
-	капсула: "caps",
-	капс: "caps",
-	капсулы: "caps",
-	cap: "caps",
-	caps: "caps",
-	capsule: "caps",
-	capsules: "caps",
-	drop: "drops",
-	drops: "drops",
-	капли: "drops",
-	spray: "sprays",
-	sprays: "sprays",
-	спрей: "sprays",
-	ml: "ml",
-	мл: "ml",
-	mg: "mg",
-	мг: "mg",
-};
-
-const stripBullet = (line: string) =>
-	line.replace(/^[-•–—\d.\)\s]+/, "").trim();
+const defaultedMeta = (): FieldMeta => ({
+	source: "defaulted",
+	confidence: CONFIDENCE.defaulted,
+});
+
+const spansOverlap = (a?: SourceSpan, b?: SourceSpan) =>
+	Boolean(a && b && a.start < b.end && b.start < a.end);
+
+/**
+ * True when a parsed field was defaulted or detected with low confidence and
+ * should be confirmed by the patient before scheduling.
+ */
+export const needsReview = (meta?: FieldMeta): boolean =>
+	Boolean(
+		meta &&
+			meta.source !== "user" &&
+			(meta.source === "defaulted" ||
+				meta.confidence < LOW_CONFIDENCE_THRESHOLD),
+	);
 
 const normalizeNumber = (value: string): number => {
 	const normalized = value.replace(",", ".");
 	return Number.parseFloat(normalized);
 };
 
-const collectBlocks = (raw: string): string[][] => {
-	const lines = raw
-		.split(/\r?\n/)
-		.map((line) => line.trim())
-		.filter((line, index, array) =>
-			line.length === 0 && array[index - 1]?.length === 0 ? false : true,
-		);
+const splitLines = (raw: string): SourceLine[] => {
+	const lines: SourceLine[] = [];
+	let offset = 0;
+	raw.split(/\r?\n/).forEach((line, index, array) => {
+		const leading = line.length - line.trimStart().length;
+		lines.push({ text: line.trim(), offset: offset + leading });
+		if (index < array.length - 1) {
+			offset += line.length + (raw[offset + line.length] === "\r" ? 2 : 1);
+		}
+	});
+	return lines;
+};
+
+const PAGE_MARKER_REGEX = /^-{3} Page (\d+) -{3}$/;
+
+/** Line separating pages in text merged from a multi-page capture. */
+export const pageMarker = (page: number) => `--- Page ${page} ---`;
+
+const collectBlocks = (
+	raw: string,
+	vocab: Vocabulary,
+	trace?: ParseTrace,
+): SourceLine[][] => {
+	const lines = splitLines(raw).filter((line, index, array) =>
+		line.text.length === 0 && array[index - 1]?.text.length === 0
+			? false
+			: true,
+	);
 
-	const blocks: string[][] = [];
-	let current: string[] = [];
+	const blocks: SourceLine[][] = [];
+	let current: SourceLine[] = [];
+	let reason = "first line";
+	let page: number | undefined;
 
-	const isNewMedicationLine = (line: string) => {
+	// Why a line opens a new block, or undefined when it continues the current one.
+	const newMedicationReason = (line: string): string | undefined => {
 		if (!line) {
-			return false;
+			return undefined;
+		}
+		if (detectTask(line, vocab)) {
+			return "task line";
+		}
+		if (detectDirective(line, vocab)) {
+			return "stop/change line";
 		}
 		const trimmed = stripBullet(line);
-		const hasStrength = STRENGTH_REGEX.test(line);
-		const hasKeywords = /(mg|мг|ml|мл)/i.test(line);
-		const looksLikeHeader = /^[A-Za-zА-ЯЁ]/.test(trimmed);
-		return (hasStrength || hasKeywords) && looksLikeHeader;
+		// Lowercase Cyrillic starts continuation lines such as "по 1 таб".
+		if (!/^(?:[A-Za-zА-ЯЁ]|\p{Lu}|\p{Script=Latin})/u.test(trimmed)) {
+			return undefined;
+		}
+		if (vocab.strength.test(line)) {
+			return "header with strength";
+		}
+		return /(mg|мг|ml|мл)/i.test(line) ? "header with mg/ml" : undefined;
+	};
+
+	const closeBlock = () => {
+		if (!current.length) {
+			return;
+		}
+		blocks.push(current);
+		const last = current[current.length - 1];
+		trace?.blocks.push({
+			lines: current.map((line) => line.text),
+			span: { start: current[0].offset, end: last.offset + last.text.length },
+			reason,
+		});
+		current = [];
 	};
 
 	lines.forEach((line) => {
-		if (line.length === 0) {
+		// A page break does not end a block: instructions may run onto the next page.
+		const marker = PAGE_MARKER_REGEX.exec(line.text);
+		if (marker) {
+			page = Number(marker[1]);
+			return;
+		}
+		if (line.text.length === 0) {
 			if (current.length) {
-				blocks.push(current);
-				current = [];
+				closeBlock();
+				reason = "after blank line";
 			}
 			return;
 		}
 
-		if (current.length && isNewMedicationLine(line)) {
-			blocks.push(current);
-			current = [line];
-			return;
+		const opens = current.length ? newMedicationReason(line.text) : undefined;
+		if (opens) {
+			closeBlock();
+			reason = opens;
 		}
 
-		current.push(line);
+		current.push(page ? { ...line, page } : line);
 	});
 
-	if (current.length) {
-		blocks.push(current);
-	}
+	closeBlock();
 
 	return blocks;
 };
 
-const detectFrequency = (text: string): Frequency | undefined => {
-	for (const pattern of FREQUENCY_PATTERNS) {
-		if (pattern.regex.test(text)) {
-			return pattern.value;
+const matchDetection = <T>(
+	text: string,
+	regex: RegExp,
+	value: T,
+	confidence: number,
+): Detection<T> | undefined => {
+	const match = text.match(regex);
+	if (!match || match.index === undefined) {
+		return undefined;
+	}
+	return { value, index: match.index, length: match[0].length, confidence };
+};
+
+// Measurements in the order of their groups in the condition regex.
+const CONDITION_MEASUREMENTS: DoseCondition["measurement"][] = [
+	"bloodPressure",
+	"pulse",
+	"temperature",
+	"glucose",
+];
+const DEFAULT_MEAL_OFFSET_MINS = 30;
+
+const formatTime = (hours: number, minutes: number) =>
+	`${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+
+/**
+ * Reads the hour count of an interval directive. Ranges such as "every 4-6
+ * hours" resolve to the longer gap so doses are never closer than prescribed.
+ */
+const parseIntervalHours = (
+	text: string,
+	vocab: Vocabulary,
+): number | undefined => {
+	for (const pattern of vocab.frequency) {
+		if (pattern.value !== "INTERVAL") {
+			continue;
+		}
+		const match = text.match(pattern.regex);
+		if (!match) {
+			continue;
+		}
+		const bounds = [match[1], match[2]]
+			.filter(Boolean)
+			.map((value) => Number.parseInt(value, 10))
+			.filter((value) => value > 0 && value <= 24);
+		return bounds.length ? Math.max(...bounds) : undefined;
+	}
+	return undefined;
+};
+
+const parseEveryWeeks = (
+	text: string,
+	vocab: Vocabulary,
+): number | undefined => {
+	for (const pattern of vocab.frequency) {
+		if (pattern.value !== "QW") {
+			continue;
+		}
+		const match = text.match(pattern.regex);
+		if (match) {
+			const weeks = Number.parseInt(match[1] ?? match[2] ?? "1", 10);
+			return weeks > 1 ? weeks : undefined;
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Collects named weekdays ("Mon/Wed/Fri", "по вторникам и пятницам"),
+ * expanding ranges such as "Mon-Fri" or "с понедельника по пятницу".
+ */
+const detectWeekdays = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<Weekday[]> | undefined => {
+	const tokens = vocab.weekdays
+		.flatMap((pattern) =>
+			[...text.matchAll(pattern.regex)].map((match) => ({
+				value: pattern.value,
+				index: match.index ?? 0,
+				length: match[0].length,
+				confidence: CONFIDENCE.explicit,
+			})),
+		)
+		.sort((a, b) => a.index - b.index);
+
+	const groups = vocab.weekdayGroups
+		.map((pattern) =>
+			matchDetection(text, pattern.regex, pattern.value, CONFIDENCE.explicit),
+		)
+		.filter((item): item is Detection<Weekday[]> => Boolean(item));
+
+	const days: Detection<Weekday>[] = [...tokens];
+	tokens.forEach((token, position) => {
+		const next = tokens[position + 1];
+		if (!next) {
+			return;
+		}
+		const between = text.slice(token.index + token.length, next.index);
+		if (!vocab.weekdayRange.test(between)) {
+			return;
+		}
+		for (
+			let day = (token.value + 1) % 7;
+			day !== next.value;
+			day = (day + 1) % 7
+		) {
+			days.push({ ...token, value: day as Weekday });
+		}
+	});
+	groups.forEach((group) => {
+		group.value.forEach((value) => {
+			days.push({ ...group, value });
+		});
+	});
+
+	const merged = mergeDetections(days);
+	return (
+		merged && { ...merged, value: [...merged.value].sort((a, b) => a - b) }
+	);
+};
+
+/**
+ * Detects on/off cycles such as "21 days, then 7-day break" or "21 день,
+ * перерыв 7 дней". The active length is the last day count before the break.
+ */
+const detectCycle = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<CycleRule> | undefined => {
+	for (const regex of vocab.cycleBreaks) {
+		const breakMatch = text.match(regex);
+		if (!breakMatch || breakMatch.index === undefined) {
+			continue;
+		}
+		const daysOff = Number.parseInt(breakMatch[1], 10);
+		const active = [
+			...text.slice(0, breakMatch.index).matchAll(vocab.cycleActive),
+		].pop();
+		if (!active || active.index === undefined || !daysOff) {
+			continue;
+		}
+		const daysOn = Number.parseInt(active[1], 10);
+		if (!daysOn) {
+			continue;
+		}
+		return {
+			value: { daysOn, daysOff },
+			index: active.index,
+			length: breakMatch.index + breakMatch[0].length - active.index,
+			confidence: CONFIDENCE.explicit,
+		};
+	}
+	return undefined;
+};
+
+/** Replaces a detected span with spaces so later patterns skip it but offsets hold. */
+const maskSpan = (text: string, detection?: Detection<unknown>) =>
+	detection
+		? text.slice(0, detection.index) +
+			" ".repeat(detection.length) +
+			text.slice(detection.index + detection.length)
+		: text;
+
+/**
+ * Resolves dd.mm[.yyyy] to YYYY-MM-DD. Dates without a year fall in the year of
+ * the reference date unless that puts them more than two months in the past.
+ */
+const resolveDate = (
+	day: string,
+	month: string,
+	year: string | undefined,
+	reference: Dayjs,
+): string | undefined => {
+	const dayNumber = Number.parseInt(day, 10);
+	const monthNumber = Number.parseInt(month, 10);
+	let yearNumber = year ? Number.parseInt(year, 10) : reference.year();
+	if (year && year.length === 2) {
+		yearNumber += 2000;
+	}
+	const build = (fullYear: number) =>
+		dayjs(new Date(fullYear, monthNumber - 1, dayNumber));
+	let date = build(yearNumber);
+	if (date.date() !== dayNumber || date.month() !== monthNumber - 1) {
+		return undefined;
+	}
+	if (!year && date.isBefore(reference.startOf("day").subtract(2, "month"))) {
+		date = build(yearNumber + 1);
+	}
+	return date.format("YYYY-MM-DD");
+};
+
+type DateDetections = {
+	start?: Detection<string>;
+	end?: Detection<string>;
+	masked: string; // input with the date phrases blanked out
+};
+
+const detectDates = (
+	text: string,
+	reference: Dayjs,
+	vocab: Vocabulary,
+): DateDetections => {
+	const result: DateDetections = { masked: text };
+	const toDetection = (
+		match: RegExpMatchArray,
+		offset: number,
+	): Detection<string> | undefined => {
+		const value = resolveDate(
+			match[offset],
+			match[offset + 1],
+			match[offset + 2],
+			reference,
+		);
+		return value && match.index !== undefined
+			? {
+					value,
+					index: match.index,
+					length: match[0].length,
+					confidence: CONFIDENCE.explicit,
+				}
+			: undefined;
+	};
+
+	const range = text.match(DATE_RANGE_REGEX);
+	if (range) {
+		result.start = toDetection(range, 1);
+		result.end = toDetection(range, 4);
+		result.masked = maskSpan(result.masked, result.start);
+	}
+
+	if (!result.start) {
+		const match = result.masked.match(vocab.startDate);
+		result.start = match ? toDetection(match, 1) : undefined;
+	}
+	if (!result.start) {
+		for (const pattern of vocab.relativeStarts) {
+			const detection = matchDetection(
+				result.masked,
+				pattern.regex,
+				reference.add(pattern.value, "day").format("YYYY-MM-DD"),
+				CONFIDENCE.explicit,
+			);
+			if (detection) {
+				result.start = detection;
+				break;
+			}
+		}
+	}
+	result.masked = maskSpan(result.masked, result.start);
+
+	if (!result.end) {
+		const match = result.masked.match(vocab.endDate);
+		result.end = match ? toDetection(match, 1) : undefined;
+	}
+	result.masked = maskSpan(result.masked, result.end);
+
+	if (result.start && result.end && result.end.value < result.start.value) {
+		result.end = {
+			...result.end,
+			value: dayjs(result.end.value).add(1, "year").format("YYYY-MM-DD"),
+		};
+	}
+	return result;
+};
+
+type PrnLimitDetections = {
+	maxPerDay?: Detection<PrnLimits>;
+	maxAmountUnit?: string; // as written, e.g. "mg" in "max 1200 mg per day"
+	minInterval?: Detection<number>;
+	masked: string;
+};
+
+/**
+ * Reads safety caps for as-needed doses ("no more than 6 per day", "не более 4
+ * таблеток в сутки", "at least 4 hours apart"). Their numbers are masked so they
+ * are not mistaken for the dose or an interval frequency.
+ */
+const detectPrnLimits = (
+	text: string,
+	vocab: Vocabulary,
+): PrnLimitDetections => {
+	const result: PrnLimitDetections = { masked: text };
+	const max = text.match(vocab.maxPerDay);
+	if (max?.index !== undefined) {
+		const count = normalizeNumber(max[1]);
+		if (count > 0) {
+			const doseCount = Boolean(max[2] && vocab.doseCount.test(max[2]));
+			result.maxPerDay = {
+				value: doseCount
+					? { maxDosesPerDay: count }
+					: { maxAmountPerDay: count },
+				index: max.index,
+				length: max[0].length,
+				confidence: CONFIDENCE.explicit,
+			};
+			result.maxAmountUnit = doseCount ? undefined : max[2];
+			result.masked = maskSpan(result.masked, result.maxPerDay);
 		}
 	}
-	if (/\b(?:three times|три раза)\b/i.test(text)) {
-		return "TID";
+	for (const regex of vocab.minInterval) {
+		const match = result.masked.match(regex);
+		const hours = match ? Number.parseInt(match[1], 10) : 0;
+		if (match?.index !== undefined && hours > 0) {
+			result.minInterval = {
+				value: hours,
+				index: match.index,
+				length: match[0].length,
+				confidence: CONFIDENCE.explicit,
+			};
+			result.masked = maskSpan(result.masked, result.minInterval);
+			break;
+		}
+	}
+	return result;
+};
+
+const MASS_IN_MG: Partial<Record<DoseUnit, number>> = {
+	mcg: 0.001,
+	mg: 1,
+	g: 1000,
+};
+// Forms a strength such as "400 mg" describes one of.
+const COUNTED_UNITS: DoseUnit[] = ["tab", "caps", "supp", "sachets", "patches"];
+
+const unitOf = (word: string, vocab: Vocabulary): DoseUnit | undefined =>
+	vocab.doseUnits[word.toLowerCase().replace(/\.$/, "")];
+
+const convertAmount = (
+	amount: number,
+	from: DoseUnit,
+	to: DoseUnit,
+): number | undefined => {
+	if (from === to) {
+		return amount;
+	}
+	const fromMg = MASS_IN_MG[from];
+	const toMg = MASS_IN_MG[to];
+	return fromMg && toMg ? (amount * fromMg) / toMg : undefined;
+};
+
+/**
+ * A daily cap in the dose unit. "max 1200 mg per day" for "1-2 tabs" of 400 mg
+ * becomes 3 tablets; undefined when the strength does not allow converting.
+ */
+const limitInDoseUnit = (
+	amount: number,
+	unit: DoseUnit,
+	dose: DosageInstruction["dose"],
+	strength: string | undefined,
+	vocab: Vocabulary,
+): number | undefined => {
+	const direct = convertAmount(amount, unit, dose.unit);
+	if (direct !== undefined || !strength || !COUNTED_UNITS.includes(dose.unit)) {
+		return direct;
+	}
+	const [perUnit, strengthWord] = strength.split(" ");
+	const strengthUnit = unitOf(strengthWord ?? "", vocab);
+	const perDose = normalizeNumber(perUnit);
+	const inStrengthUnit = strengthUnit
+		? convertAmount(amount, unit, strengthUnit)
+		: undefined;
+	return inStrengthUnit !== undefined && perDose > 0
+		? Math.round((inStrengthUnit / perDose) * 100) / 100
+		: undefined;
+};
+
+const parseIntervalAnchor = (
+	text: string,
+	vocab: Vocabulary,
+): string | undefined => {
+	const match = text.match(vocab.intervalAnchor);
+	if (!match) {
+		return undefined;
 	}
-	if (/\b(?:twice|два раза)\b/i.test(text)) {
-		return "BID";
+	const hours = Number.parseInt(match[1], 10);
+	const minutes = Number.parseInt(match[2], 10);
+	return hours < 24 && minutes < 60 ? formatTime(hours, minutes) : undefined;
+};
+
+const detectFrequency = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<Frequency> | undefined => {
+	for (const pattern of vocab.frequency) {
+		const detection = matchDetection(
+			text,
+			pattern.regex,
+			pattern.value,
+			CONFIDENCE.explicit,
+		);
+		if (detection) {
+			return detection;
+		}
 	}
-	if (/\b(?:once|один раз)\b/i.test(text)) {
-		return "QD";
+	for (const pattern of vocab.frequencyKeywords) {
+		const detection = matchDetection(
+			text,
+			pattern.regex,
+			pattern.value,
+			CONFIDENCE.keyword,
+		);
+		if (detection) {
+			return detection;
+		}
 	}
 	return undefined;
 };
 
-const detectWhen = (text: string): TimingWhen[] | undefined => {
-	const matches = WHEN_PATTERNS.filter((pattern) =>
-		pattern.regex.test(text),
-	).map((pattern) => pattern.value);
-	return matches.length ? Array.from(new Set(matches)) : undefined;
+/** Merges several detections into one covering the first through the last match. */
+const mergeDetections = <T>(
+	detections: Detection<T>[],
+): Detection<T[]> | undefined => {
+	if (!detections.length) {
+		return undefined;
+	}
+	const start = Math.min(...detections.map((item) => item.index));
+	const end = Math.max(...detections.map((item) => item.index + item.length));
+	return {
+		value: Array.from(new Set(detections.map((item) => item.value))),
+		index: start,
+		length: end - start,
+		confidence: Math.min(...detections.map((item) => item.confidence)),
+	};
 };
 
-const detectRoute = (text: string): MedicationPlan["route"] | undefined => {
-	for (const pattern of ROUTE_PATTERNS) {
-		if (pattern.regex.test(text)) {
-			return pattern.value;
+/**
+ * Reads a condition attached to a dose. Without a skip word the dose is taken
+ * only when the condition holds ("if temperature > 38").
+ */
+const detectCondition = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<DoseCondition> | undefined => {
+	const match = text.match(vocab.condition);
+	if (match?.index === undefined) {
+		return undefined;
+	}
+	const measurementIndex = [2, 3, 4, 5].findIndex((group) => match[group]);
+	const word = match[6].toLowerCase();
+	const comparator: DoseCondition["comparator"] =
+		word === "≤" || word === "<="
+			? "<="
+			: word === "≥" || word === ">="
+				? ">="
+				: word === "<" || vocab.conditionBelow.test(word)
+					? "<"
+					: ">";
+	return {
+		value: {
+			measurement: CONDITION_MEASUREMENTS[measurementIndex],
+			comparator,
+			threshold: normalizeNumber(match[7]),
+			action: match[1] || match[8] ? "skip" : "take",
+		},
+		index: match.index,
+		length: match[0].length,
+		confidence: CONFIDENCE.explicit,
+	};
+};
+
+type SupplyDetections = {
+	quantity?: Detection<number>;
+	untilFinished?: Detection<true>;
+	masked: string;
+};
+
+/**
+ * Finds how much was dispensed ("pack of 20", "№20") and "until finished", and
+ * masks them so the pack size is not read as the dose.
+ */
+const detectSupply = (text: string, vocab: Vocabulary): SupplyDetections => {
+	const result: SupplyDetections = { masked: text };
+	for (const regex of [...vocab.quantity, NUMBER_SIGN_QUANTITY_REGEX]) {
+		const match = text.match(regex);
+		const quantity = match ? Number.parseInt(match[1], 10) : 0;
+		if (match?.index !== undefined && quantity > 0) {
+			result.quantity = {
+				value: quantity,
+				index: match.index,
+				length: match[0].length,
+				confidence: CONFIDENCE.explicit,
+			};
+			result.masked = maskSpan(result.masked, result.quantity);
+			break;
+		}
+	}
+	const untilFinished = result.masked.match(vocab.untilFinished);
+	if (untilFinished?.index !== undefined) {
+		result.untilFinished = {
+			value: true,
+			index: untilFinished.index,
+			length: untilFinished[0].length,
+			confidence: CONFIDENCE.explicit,
+		};
+		result.masked = maskSpan(result.masked, result.untilFinished);
+	}
+	return result;
+};
+
+/**
+ * Reads timing relative to meals or sleep. A bare "before meals" is left to
+ * the BEFORE_MEAL hint; an offset or a named meal becomes a meal timing.
+ */
+const detectMealTiming = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<MealTiming> | undefined => {
+	const emptyStomach = text.match(vocab.emptyStomach);
+	const match = text.match(vocab.mealTiming);
+	if (match?.index === undefined) {
+		return emptyStomach?.index !== undefined
+			? {
+					value: {
+						offsetMins: -DEFAULT_MEAL_OFFSET_MINS,
+						anchors: ["breakfast"],
+					},
+					index: emptyStomach.index,
+					length: emptyStomach[0].length,
+					confidence: CONFIDENCE.keyword,
+				}
+			: undefined;
+	}
+
+	const anchors = match[4]
+		.split(vocab.mealSeparator)
+		.map(
+			(noun) =>
+				vocab.mealAnchors.find((candidate) => candidate.regex.test(noun))
+					?.value,
+		)
+		.filter((anchor) => anchor !== undefined);
+	const relation = match[3];
+	const withMeal = vocab.mealWith.test(relation);
+	if (!match[1] && !anchors.length && !withMeal) {
+		return undefined;
+	}
+
+	const amount = match[1] ? Number.parseInt(match[1], 10) : undefined;
+	const minutes =
+		amount === undefined
+			? anchors.every((anchor) => anchor === "bed")
+				? 0 // "before bed" means at bedtime
+				: DEFAULT_MEAL_OFFSET_MINS
+			: vocab.mealHours.test(match[2] ?? "")
+				? amount * 60
+				: amount;
+	const sign = vocab.mealBefore.test(relation) ? -1 : withMeal ? 0 : 1;
+	return {
+		value: {
+			offsetMins: sign * minutes,
+			anchors: anchors.length ? Array.from(new Set(anchors)) : undefined,
+		},
+		index: match.index,
+		length: match[0].length,
+		confidence: match[1] ? CONFIDENCE.explicit : CONFIDENCE.keyword,
+	};
+};
+
+const detectWhen = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<TimingWhen[]> | undefined =>
+	mergeDetections(
+		vocab.when
+			.map((pattern) =>
+				matchDetection(text, pattern.regex, pattern.value, CONFIDENCE.explicit),
+			)
+			.filter((item): item is Detection<TimingWhen> => Boolean(item)),
+	);
+
+const detectRoute = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<NonNullable<MedicationPlan["route"]>> | undefined => {
+	for (const pattern of vocab.routes) {
+		const detection = matchDetection(
+			text,
+			pattern.regex,
+			pattern.value,
+			CONFIDENCE.keyword,
+		);
+		if (detection) {
+			return detection;
 		}
 	}
 	return undefined;
 };
 
-const parseDose = (text: string): DosageInstruction["dose"] | undefined => {
-	const match = text.match(DOSE_REGEX);
-	if (!match) {
+const parseDoseMatch = (
+	match: RegExpMatchArray,
+	vocab: Vocabulary,
+): Detection<DosageInstruction["dose"]> | undefined => {
+	if (match.index === undefined) {
 		return undefined;
 	}
 	const amount = normalizeNumber(match[1]);
-	const unitCandidate = match[2].toLowerCase();
+	const maxAmount = match[2] ? normalizeNumber(match[2]) : undefined;
+	const unitCandidate = match[3].toLowerCase();
 	const unit =
-		DOSE_UNIT_MAP[unitCandidate] ||
+		vocab.doseUnits[unitCandidate] ||
 		(unitCandidate.includes("mg")
 			? "mg"
 			: unitCandidate.includes("ml")
@@ -188,40 +898,104 @@ const parseDose = (text: string): DosageInstruction["dose"] | undefined => {
 		return undefined;
 	}
 
-	return { amount, unit } as DosageInstruction["dose"];
+	return {
+		value:
+			maxAmount !== undefined && maxAmount > amount
+				? { amount, maxAmount, unit }
+				: { amount, unit },
+		index: match.index,
+		length: match[0].length,
+		confidence: CONFIDENCE.explicit,
+	};
 };
 
-const parseDuration = (text: string): number | undefined => {
-	const match = text.match(DURATION_REGEX);
-	if (!match) {
-		return undefined;
+const parseDoses = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<DosageInstruction["dose"]>[] =>
+	[...text.matchAll(new RegExp(vocab.dose.source, `${vocab.dose.flags}g`))]
+		.map((match) => parseDoseMatch(match, vocab))
+		.filter((item): item is Detection<DosageInstruction["dose"]> =>
+			Boolean(item),
+		);
+
+/** Course length in days from "7 days", "2 weeks", "1 month" or "for a week". */
+const parseDuration = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<number> | undefined => {
+	const match = text.match(vocab.duration);
+	if (match?.index !== undefined) {
+		const period = match[3] ? 7 : match[4] ? DAYS_PER_MONTH : 1;
+		const days = Number.parseInt(match[1], 10) * period;
+		if (!days) {
+			return undefined;
+		}
+		return {
+			value: days,
+			index: match.index,
+			length: match[0].length,
+			// A month is taken as 30 days, which the patient may want to adjust.
+			confidence:
+				period === DAYS_PER_MONTH ? CONFIDENCE.keyword : CONFIDENCE.explicit,
+		};
 	}
-	return Number.parseInt(match[1], 10) || undefined;
+	for (const pattern of vocab.singlePeriods) {
+		const detection = matchDetection(
+			text,
+			pattern.regex,
+			pattern.value === "week" ? 7 : DAYS_PER_MONTH,
+			CONFIDENCE.keyword,
+		);
+		if (detection) {
+			return detection;
+		}
+	}
+	return undefined;
 };
 
-const extractTimes = (text: string): string[] | undefined => {
-	const matches = [...text.matchAll(TIME_REGEX)].map((match) => {
+const extractTimes = (text: string): Detection<string[]> | undefined => {
+	const detections = [...text.matchAll(TIME_REGEX)].map((match) => {
 		const hours = Number.parseInt(match[1], 10);
 		const minutes = Number.parseInt(match[2], 10);
-		if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+		if (
+			Number.isNaN(hours) ||
+			Number.isNaN(minutes) ||
+			match.index === undefined
+		) {
 			return undefined;
 		}
-		const hh = hours.toString().padStart(2, "0");
-		const mm = minutes.toString().padStart(2, "0");
-		return `${hh}:${mm}`;
+		return {
+			value: formatTime(hours, minutes),
+			index: match.index,
+			length: match[0].length,
+			confidence: CONFIDENCE.explicit,
+		};
 	});
-	const filtered = matches.filter((value): value is string => Boolean(value));
-	return filtered.length ? Array.from(new Set(filtered)) : undefined;
+	return mergeDetections(
+		detections.filter((item): item is Detection<string> => Boolean(item)),
+	);
 };
 
-const extractStrength = (text: string): string | undefined => {
-	const match = text.match(STRENGTH_REGEX);
-	if (!match) {
+const extractStrength = (
+	text: string,
+	vocab: Vocabulary,
+): Detection<string> | undefined => {
+	const match = text.match(vocab.strength);
+	if (!match || match.index === undefined) {
 		return undefined;
 	}
 	const amount = normalizeNumber(match[1]);
 	const unit = match[2];
-	return Number.isNaN(amount) ? undefined : `${amount} ${unit}`;
+	if (Number.isNaN(amount)) {
+		return undefined;
+	}
+	return {
+		value: `${amount} ${unit}`,
+		index: match.index,
+		length: match[0].length,
+		confidence: CONFIDENCE.explicit,
+	};
 };
 
 const slug = (value: string) =>
@@ -244,93 +1018,1225 @@ const makePlanId = (name: string, ordinal: number) => {
 	return `plan-${base}-${hashString(`${base}-${ordinal}`)}`;
 };
 
-const buildInstruction = (text: string): DosageInstruction => {
-	const dose = parseDose(text) ?? { amount: 1, unit: "tab" };
-	const explicitPrn = /\b(as needed|по\s+(?:требованию|необходимости))\b/i.test(
+type InstructionResult = {
+	instruction: DosageInstruction;
+	fields: Partial<Record<InstructionField, FieldMeta>>;
+};
+
+const buildInstruction = (
+	source: SourceText,
+	context: ParseContext,
+	strengthSpan?: SourceSpan,
+	strength?: string,
+): InstructionResult => {
+	const { vocab } = context;
+	const dates = detectDates(source.text, context.referenceDate, vocab);
+	// Dates such as "20.10" would otherwise read as clock times.
+	const limits = detectPrnLimits(dates.masked, vocab);
+	const supply = detectSupply(limits.masked, vocab);
+	// Masked so the threshold is not read as a dose or a time.
+	const condition = detectCondition(supply.masked, vocab);
+	const text = maskSpan(supply.masked, condition);
+	const fields: InstructionResult["fields"] = {};
+	if (condition) {
+		fields.condition = detectedMeta(source, condition);
+	}
+	if (supply.quantity) {
+		fields.quantity = detectedMeta(source, supply.quantity);
+	} else if (supply.untilFinished) {
+		// The course can only end once the patient enters the pack size.
+		fields.quantity = {
+			...detectedMeta(source, supply.untilFinished),
+			confidence: CONFIDENCE.ambiguous,
+		};
+	}
+	if (dates.start) {
+		fields.startDate = detectedMeta(source, dates.start);
+	}
+	if (dates.end) {
+		fields.endDate = detectedMeta(source, dates.end);
+	}
+
+	// "500 mg" next to the name is usually the strength, not the amount to take,
+	// so it only serves as the dose when nothing else reads like one.
+	const doseCandidates = parseDoses(text, context.vocab).map((detection) => ({
+		detection,
+		meta: detectedMeta(source, detection),
+	}));
+	const doseCandidate =
+		doseCandidates.find(({ meta }) => !spansOverlap(meta.span, strengthSpan)) ??
+		doseCandidates[0];
+	let dose: DosageInstruction["dose"] = { amount: 1, unit: "tab" };
+	if (doseCandidate) {
+		dose = doseCandidate.detection.value;
+		fields.dose = doseCandidate.meta;
+		if (spansOverlap(doseCandidate.meta.span, strengthSpan)) {
+			fields.dose = { ...doseCandidate.meta, confidence: CONFIDENCE.ambiguous };
+			note(context, {
+				stage: "decision",
+				rule: "dose",
+				message: "no separate amount; the strength is read as the dose",
+				span: doseCandidate.meta.span,
+			});
+		}
+	} else {
+		fields.dose = defaultedMeta();
+	}
+
+	const prnDetection = matchDetection<Frequency>(
 		text,
+		context.vocab.prn,
+		"PRN",
+		CONFIDENCE.explicit,
 	);
-	const detectedFrequency = detectFrequency(text);
-	const frequency: Frequency = explicitPrn
-		? "PRN"
-		: (detectedFrequency ?? "QD");
-	const times = extractTimes(text);
-	const when = detectWhen(text);
-	const duration = parseDuration(text);
+	let frequencyDetection = prnDetection ?? detectFrequency(text, context.vocab);
+	const intervalHours =
+		frequencyDetection?.value === "INTERVAL"
+			? parseIntervalHours(text, context.vocab)
+			: undefined;
+	if (frequencyDetection?.value === "INTERVAL" && !intervalHours) {
+		note(context, {
+			stage: "decision",
+			rule: "frequency",
+			message: "interval without a number of hours ignored",
+			span: detectedMeta(source, frequencyDetection).span,
+		});
+		frequencyDetection = undefined;
+	}
+	let frequency: Frequency = frequencyDetection?.value ?? "QD";
+	fields.frequency = frequencyDetection
+		? detectedMeta(source, frequencyDetection)
+		: defaultedMeta();
+	if (!frequencyDetection && condition?.value.action === "take") {
+		// "if temperature > 38" with no schedule is taken when it happens.
+		frequency = "PRN";
+		fields.frequency = {
+			...detectedMeta(source, condition),
+			confidence: CONFIDENCE.keyword,
+		};
+		note(context, {
+			stage: "decision",
+			rule: "frequency",
+			message: "take-if condition without a schedule: as needed",
+			span: fields.frequency.span,
+		});
+	}
+
+	let times = extractTimes(text);
+	let interval: DosageInstruction["interval"];
+	if (intervalHours) {
+		// Clock times next to an interval mark the first dose, not fixed slots.
+		const anchor =
+			parseIntervalAnchor(text, vocab) ??
+			(times ? [...times.value].sort()[0] : undefined);
+		interval = { everyHours: intervalHours, anchor };
+		times = undefined;
+	}
+	if (times) {
+		fields.timesOfDay = detectedMeta(source, times);
+	}
+
+	const weekdayDetection = detectWeekdays(text, vocab);
+	const everyWeeks =
+		frequency === "QW" ? parseEveryWeeks(text, context.vocab) : undefined;
+	let weekdays: WeekdayRule | undefined;
+	if (weekdayDetection) {
+		weekdays = { days: weekdayDetection.value, everyWeeks };
+		fields.weekdays = detectedMeta(source, weekdayDetection);
+		if (!frequencyDetection) {
+			// "on Mondays" alone means one dose on each named day.
+			frequency = "QD";
+			fields.frequency = {
+				...detectedMeta(source, weekdayDetection),
+				confidence: CONFIDENCE.keyword,
+			};
+			note(context, {
+				stage: "decision",
+				rule: "frequency",
+				message: "named days without a frequency: once on each day",
+				span: fields.frequency.span,
+			});
+		}
+	} else if (frequency === "QW") {
+		// Weekly without a named day: the patient has to confirm which day.
+		weekdays = everyWeeks ? { everyWeeks } : undefined;
+		fields.weekdays = defaultedMeta();
+	}
+
+	const when = detectWhen(text, context.vocab);
+	if (when) {
+		fields.when = detectedMeta(source, when);
+	}
+	const mealTiming = detectMealTiming(text, vocab);
+	if (mealTiming) {
+		fields.mealTiming = detectedMeta(source, mealTiming);
+	}
+	let prnLimits: PrnLimits | undefined;
+	if (limits.maxPerDay || limits.minInterval) {
+		prnLimits = {
+			...limits.maxPerDay?.value,
+			minIntervalHours: limits.minInterval?.value,
+		};
+		const merged = mergeDetections<unknown>(
+			[limits.maxPerDay, limits.minInterval].filter(
+				(item): item is Detection<PrnLimits> | Detection<number> =>
+					Boolean(item),
+			),
+		);
+		if (merged) {
+			fields.prnLimits = detectedMeta(source, merged);
+		}
+		const limitUnit =
+			limits.maxAmountUnit && unitOf(limits.maxAmountUnit, context.vocab);
+		if (prnLimits.maxAmountPerDay !== undefined && limitUnit) {
+			const converted = limitInDoseUnit(
+				prnLimits.maxAmountPerDay,
+				limitUnit,
+				dose,
+				strength,
+				context.vocab,
+			);
+			if (converted !== prnLimits.maxAmountPerDay) {
+				note(context, {
+					stage: "decision",
+					rule: "prnLimits",
+					message:
+						converted === undefined
+							? `daily cap of ${prnLimits.maxAmountPerDay} ${limitUnit} cannot be counted in ${dose.unit}; left for review`
+							: `daily cap of ${prnLimits.maxAmountPerDay} ${limitUnit} read as ${converted} ${dose.unit}`,
+					span: fields.prnLimits?.span,
+				});
+			}
+			prnLimits = { ...prnLimits, maxAmountPerDay: converted };
+			if (converted === undefined && fields.prnLimits) {
+				fields.prnLimits = {
+					...fields.prnLimits,
+					confidence: CONFIDENCE.ambiguous,
+				};
+			}
+		}
+	}
+	if (frequency === "PRN" && !prnLimits?.minIntervalHours) {
+		// "every 4-6 hours as needed" sets the shortest gap between PRN doses.
+		const hours = parseIntervalHours(text, context.vocab);
+		if (hours) {
+			prnLimits = { ...prnLimits, minIntervalHours: hours };
+			note(context, {
+				stage: "decision",
+				rule: "prnLimits",
+				message: `as-needed interval: at least ${hours} h between doses`,
+			});
+		}
+	}
+
+	const cycle = detectCycle(text, vocab);
+	// "every 2 weeks" is the frequency; only "for 4 weeks" sets a course length.
+	const durationText =
+		frequency === "QW" ? maskSpan(text, frequencyDetection) : text;
+	let duration: Detection<number> | undefined;
+	if (cycle) {
+		fields.cycle = detectedMeta(source, cycle);
+		// Day counts inside the cycle describe it, not the course length.
+		const masked = maskSpan(durationText, cycle);
+		const cycles = masked.match(vocab.cycleCount);
+		duration =
+			cycles?.index !== undefined
+				? {
+						value:
+							Number.parseInt(cycles[1], 10) *
+							(cycle.value.daysOn + cycle.value.daysOff),
+						index: cycles.index,
+						length: cycles[0].length,
+						confidence: CONFIDENCE.keyword,
+					}
+				: parseDuration(masked, context.vocab);
+	} else {
+		duration = parseDuration(durationText, context.vocab);
+	}
+	if (duration?.value) {
+		fields.durationDays = detectedMeta(source, duration);
+	}
 
 	return {
-		dose,
-		frequency,
-		timesOfDay: times?.sort(),
-		when,
-		durationDays: duration,
-		prn: frequency === "PRN" ? true : undefined,
+		instruction: {
+			dose,
+			frequency,
+			interval,
+			weekdays,
+			cycle: cycle?.value,
+			timesOfDay: times?.value.sort(),
+			when: when?.value,
+			mealTiming: mealTiming?.value,
+			durationDays: duration?.value || undefined,
+			quantity: supply.quantity?.value,
+			untilFinished: supply.untilFinished ? true : undefined,
+			startDate: dates.start?.value,
+			endDate: dates.end?.value,
+			prn: frequency === "PRN" ? true : undefined,
+			prnLimits,
+			condition: condition?.value,
+		},
+		fields,
+	};
+};
+
+const SLOT_TIMINGS: TimingWhen[] = ["MORN", "NOON", "EVE", "NIGHT"];
+const NOON_TIME = "13:00";
+
+const hasTimeSlot = (text: string, vocab: Vocabulary): boolean =>
+	Boolean(extractTimes(text)) ||
+	Boolean(
+		detectWhen(text, vocab)?.value.some((value) =>
+			SLOT_TIMINGS.includes(value),
+		),
+	);
+
+/**
+ * Splits "1 tab in the morning, 2 tabs in the evening" into one clause per time
+ * slot. Returns undefined unless there are several doses and every clause
+ * names its slot.
+ */
+const splitSlots = (
+	segment: SourceText,
+	vocab: Vocabulary,
+	strengthSpan?: SourceSpan,
+): SourceText[] | undefined => {
+	const doses = parseDoses(segment.text, vocab).filter(
+		(dose) =>
+			!spansOverlap(toSpan(segment, dose.index, dose.length), strengthSpan),
+	);
+	if (doses.length < 2) {
+		return undefined;
+	}
+
+	const clauses: SourceText[] = [];
+	let cursor = 0;
+	for (let index = 1; index < doses.length; index += 1) {
+		const gapStart = doses[index - 1].index + doses[index - 1].length;
+		const separators = [
+			...segment.text
+				.slice(gapStart, doses[index].index)
+				.matchAll(vocab.slotSeparator),
+		];
+		const separator = separators[separators.length - 1];
+		if (separator?.index === undefined) {
+			return undefined;
+		}
+		const cut = gapStart + separator.index;
+		clauses.push(sliceSource(segment, cursor, cut));
+		cursor = cut + separator[0].length;
+	}
+	clauses.push(sliceSource(segment, cursor, segment.text.length));
+	return clauses.every((clause) => hasTimeSlot(clause.text, vocab))
+		? clauses
+		: undefined;
+};
+
+/**
+ * Takes dose and timing from a slot clause and everything else (duration,
+ * dates, days, meal hints) from the instruction read from the whole phase.
+ */
+const withSlot = (
+	base: InstructionResult,
+	slot: InstructionResult,
+): InstructionResult => {
+	const instruction: DosageInstruction = {
+		...base.instruction,
+		dose: slot.instruction.dose,
+		frequency: slot.instruction.frequency,
+		interval: slot.instruction.interval,
+		prn: slot.instruction.prn,
+		timesOfDay: slot.instruction.timesOfDay,
+		mealTiming: slot.instruction.mealTiming ?? base.instruction.mealTiming,
 	};
+	const fields = {
+		...base.fields,
+		dose: slot.fields.dose,
+		frequency: slot.fields.frequency,
+		timesOfDay: slot.fields.timesOfDay,
+		when: slot.fields.when ?? base.fields.when,
+		mealTiming: slot.fields.mealTiming ?? base.fields.mealTiming,
+	};
+	const when = Array.from(
+		new Set([
+			...(slot.instruction.when ?? []),
+			...(base.instruction.when ?? []).filter(
+				(value) => !SLOT_TIMINGS.includes(value),
+			),
+		]),
+	);
+	instruction.when = when.length ? when : undefined;
+	if (
+		!instruction.timesOfDay &&
+		slot.fields.frequency?.source === "defaulted" &&
+		slot.instruction.when?.includes("NOON")
+	) {
+		// There is no midday frequency code, so the slot gets a fixed time.
+		instruction.timesOfDay = [NOON_TIME];
+		fields.timesOfDay = slot.fields.when;
+		fields.frequency = slot.fields.when;
+	}
+	return { instruction, fields };
 };
 
-const sanitizeName = (header: string): string => {
+/**
+ * Later phases usually only restate what changes ("then 1 tab for 5 days"), so
+ * anything they leave out is carried over from the previous phase.
+ */
+const inheritFromPhase = (
+	current: InstructionResult,
+	previous: InstructionResult,
+): InstructionResult => {
+	const instruction = { ...current.instruction };
+	const fields = { ...current.fields };
+	const inherited = (meta?: FieldMeta): FieldMeta | undefined =>
+		meta && {
+			...meta,
+			confidence: Math.min(meta.confidence, CONFIDENCE.keyword),
+		};
+
+	if (fields.dose?.source === "defaulted" && previous.fields.dose) {
+		instruction.dose = previous.instruction.dose;
+		fields.dose = inherited(previous.fields.dose);
+	}
+	if (fields.frequency?.source === "defaulted" && previous.fields.frequency) {
+		instruction.frequency = previous.instruction.frequency;
+		instruction.interval = previous.instruction.interval;
+		instruction.prn = previous.instruction.prn;
+		fields.frequency = inherited(previous.fields.frequency);
+	}
+	if (!instruction.weekdays && previous.instruction.weekdays) {
+		instruction.weekdays = previous.instruction.weekdays;
+		fields.weekdays = inherited(previous.fields.weekdays);
+	}
+	if (!instruction.timesOfDay && previous.instruction.timesOfDay) {
+		instruction.timesOfDay = previous.instruction.timesOfDay;
+		fields.timesOfDay = inherited(previous.fields.timesOfDay);
+	}
+	if (!instruction.when && previous.instruction.when) {
+		instruction.when = previous.instruction.when;
+		fields.when = inherited(previous.fields.when);
+	}
+	if (!instruction.mealTiming && previous.instruction.mealTiming) {
+		instruction.mealTiming = previous.instruction.mealTiming;
+		fields.mealTiming = inherited(previous.fields.mealTiming);
+	}
+	if (!instruction.condition && previous.instruction.condition) {
+		instruction.condition = previous.instruction.condition;
+		fields.condition = inherited(previous.fields.condition);
+	}
+
+	return { instruction, fields };
+};
+
+const sideFromWord = (
+	vocab: Vocabulary,
+	word?: string,
+): AdministrationSite["side"] => {
+	if (!word) {
+		return undefined;
+	}
+	if (vocab.leftSide.test(word)) {
+		return "left";
+	}
+	if (vocab.rightSide.test(word)) {
+		return "right";
+	}
+	return "both";
+};
+
+/**
+ * Finds where the medicine goes: "left eye", "OU", "в каждую ноздрю", or for
+ * injections a body area such as "in the abdomen" / "в бедро".
+ */
+const detectSite = (
+	text: string,
+	injectable: boolean,
+	vocab: Vocabulary,
+): Detection<AdministrationSite> | undefined => {
+	const shorthand = vocab.eyeDrops.test(text)
+		? text.match(EYE_SHORTHAND_REGEX)
+		: null;
+	if (shorthand?.index !== undefined) {
+		const side = { OD: "right", OS: "left", OU: "both" } as const;
+		return {
+			value: {
+				location: "eye",
+				side: side[shorthand[1] as keyof typeof side],
+			},
+			index: shorthand.index,
+			length: shorthand[0].length,
+			confidence: CONFIDENCE.explicit,
+		};
+	}
+	for (const { regex, value: location } of vocab.sites) {
+		if (INJECTION_SITES.includes(location) && !injectable) {
+			continue;
+		}
+		const match = text.match(regex);
+		if (match?.index !== undefined) {
+			return {
+				value: { location, side: sideFromWord(vocab, match[1] ?? match[2]) },
+				index: match.index,
+				length: match[0].length,
+				// Without a side the area alone is a weaker hint ("eye drops").
+				confidence: match[1] ? CONFIDENCE.explicit : CONFIDENCE.keyword,
+			};
+		}
+	}
+	return undefined;
+};
+
+type TaskDetection = Detection<TaskCategory>;
+
+/**
+ * Recognises a non-medication directive such as "measure blood pressure" or
+ * "ЛФК". Lines naming a strength are always treated as medicines.
+ */
+const detectTask = (
+	text: string,
+	vocab: Vocabulary,
+): TaskDetection | undefined => {
+	if (vocab.strength.test(text)) {
+		return undefined;
+	}
+	for (const { value: category, regex } of vocab.tasks) {
+		const match = text.match(regex);
+		if (match?.index !== undefined) {
+			return {
+				value: category,
+				index: match.index,
+				length: match[0].length,
+				confidence: CONFIDENCE.keyword,
+			};
+		}
+	}
+	return undefined;
+};
+
+type DirectiveDetection = Detection<PlanDirective["action"]>;
+
+/**
+ * Recognises a line that stops or changes a medication instead of adding one:
+ * it starts with the verb and names the medicine. "Stop if bleeding" and
+ * "increase to 2 caps" are instructions for the plan above.
+ */
+const detectDirective = (
+	text: string,
+	vocab: Vocabulary,
+): DirectiveDetection | undefined => {
+	const directive =
+		matchDetection(text, vocab.stop, "stop" as const, CONFIDENCE.keyword) ??
+		matchDetection(text, vocab.modify, "modify" as const, CONFIDENCE.keyword);
+	const target = directive
+		? text.slice(directive.index + directive.length).trimStart()
+		: "";
+	return directive && vocab.directiveTarget.test(target)
+		? directive
+		: undefined;
+};
+
+/**
+ * Collects what a "modify" line actually says; defaulted fields are left out so
+ * they do not overwrite the existing plan, and so is a dose that is only the
+ * new strength ("to 50 mg").
+ */
+const modifyDirective = (
+	strength: string | undefined,
+	strengthSpan: SourceSpan | undefined,
+	result: InstructionResult,
+): PlanDirective => {
+	const { instruction, fields } = result;
+	const detected = (field: InstructionField) =>
+		fields[field]?.source === "detected";
+	const changes: Partial<DosageInstruction> = {
+		dose:
+			detected("dose") && !spansOverlap(fields.dose?.span, strengthSpan)
+				? instruction.dose
+				: undefined,
+		frequency: detected("frequency") ? instruction.frequency : undefined,
+		interval: detected("frequency") ? instruction.interval : undefined,
+		timesOfDay: detected("timesOfDay") ? instruction.timesOfDay : undefined,
+		when: detected("when") ? instruction.when : undefined,
+		mealTiming: detected("mealTiming") ? instruction.mealTiming : undefined,
+		durationDays: detected("durationDays")
+			? instruction.durationDays
+			: undefined,
+	};
+	const entries = Object.entries(changes).filter(
+		([, value]) => value !== undefined,
+	);
+	return {
+		action: "modify",
+		strength,
+		instruction: entries.length ? Object.fromEntries(entries) : undefined,
+	};
+};
+
+// Keeps instruction handling uniform; the scheduler never shows it for tasks.
+const TASK_DOSE: DosageInstruction["dose"] = { amount: 1, unit: "tab" };
+
+// Applied in order to the first line; each step is named in parse traces.
+const NAME_CLEANUP_STEPS: {
+	rule: string;
+	apply: (name: string, vocab: Vocabulary) => string;
+}[] = [
+	{
+		rule: "context label",
+		apply: (name, vocab) => {
+			// A colon inside a clock time such as "14:00" is not a label.
+			const colonIndex = name.search(/:(?!\d{2})/);
+			if (colonIndex >= 0) {
+				const candidate = name.slice(colonIndex + 1).trim();
+				if (vocab.strength.test(candidate) || /\p{L}+\s+\d+/u.test(candidate)) {
+					return candidate;
+				}
+			}
+			return name;
+		},
+	},
+	{ rule: "bullet", apply: stripBullet },
+	{
+		rule: "strength",
+		apply: (name, vocab) => name.replace(vocab.strength, ""),
+	},
+	{
+		rule: "dose and after",
+		// Cut at the amount first so a range such as "1–2 tabs" goes with it.
+		apply: (name, vocab) =>
+			name.replace(new RegExp(`${vocab.dose.source}.*`, vocab.dose.flags), ""),
+	},
+	{
+		rule: "condition and after",
+		apply: (name, vocab) =>
+			name.replace(
+				new RegExp(`${vocab.condition.source}.*`, vocab.condition.flags),
+				"",
+			),
+	},
+	{
+		rule: "frequency",
+		apply: (name, vocab) => maskSpan(name, detectFrequency(name, vocab)),
+	},
+	{
+		rule: "duration",
+		apply: (name, vocab) => {
+			const duration = parseDuration(name, vocab);
+			if (!duration) {
+				return name;
+			}
+			return (
+				name.slice(0, duration.index).replace(vocab.durationConnector, "") +
+				name.slice(duration.index + duration.length)
+			);
+		},
+	},
+	{
+		rule: "weekdays",
+		apply: (name, vocab) => {
+			const weekdays = detectWeekdays(name, vocab);
+			if (!weekdays) {
+				return name;
+			}
+			return (
+				name.slice(0, weekdays.index).replace(vocab.startConnector, "") +
+				name.slice(weekdays.index + weekdays.length)
+			);
+		},
+	},
+	{
+		rule: "dates",
+		// The reference only resolves the values; the spans do not depend on it.
+		apply: (name, vocab) => detectDates(name, dayjs(), vocab).masked,
+	},
+	{
+		rule: "supply",
+		apply: (name, vocab) => detectSupply(name, vocab).masked,
+	},
+	{
+		rule: "meal timing",
+		apply: (name, vocab) =>
+			vocab.when
+				.filter(
+					(pattern) =>
+						pattern.value === "BEFORE_MEAL" || pattern.value === "AFTER_MEAL",
+				)
+				.reduce(
+					(rest, pattern) => rest.replace(pattern.regex, ""),
+					maskSpan(name, detectMealTiming(name, vocab)),
+				),
+	},
+	{
+		rule: "route",
+		apply: (name, vocab) => {
+			const route = detectRoute(name, vocab);
+			// "inhale" also starts "inhaler", which stays in the name.
+			const whole =
+				route &&
+				!/\p{L}$/u.test(name.slice(0, route.index)) &&
+				!/^\p{L}/u.test(name.slice(route.index + route.length));
+			return whole ? maskSpan(name, route) : name;
+		},
+	},
+	{ rule: "dash and after", apply: (name) => name.replace(/[–—-].*/, "") },
+	{
+		rule: "instruction words",
+		apply: (name, vocab) => name.replace(vocab.nameWords, ""),
+	},
+	{
+		rule: "dangling particles",
+		apply: (name, vocab) => name.trimEnd().replace(vocab.nameTail, ""),
+	},
+];
+
+const sanitizeName = (
+	header: string,
+	vocab: Vocabulary,
+	onStep?: (rule: string, name: string) => void,
+): string => {
 	if (!header) {
 		return "";
 	}
 
-	const withoutContext = (() => {
-		const colonIndex = header.indexOf(":");
-		if (colonIndex >= 0) {
-			const candidate = header.slice(colonIndex + 1).trim();
-			if (STRENGTH_REGEX.test(candidate) || /\p{L}+\s+\d+/u.test(candidate)) {
-				return candidate;
-			}
+	const cleaned = NAME_CLEANUP_STEPS.reduce((name, step) => {
+		const next = step.apply(name, vocab);
+		if (next !== name) {
+			onStep?.(step.rule, next.trim());
 		}
-		return header;
-	})();
+		return next;
+	}, header).trim();
 
-	const cleaned = stripBullet(withoutContext)
-		.replace(STRENGTH_REGEX, "")
-		.replace(/[–—-].*/, "")
-		.replace(/\b(?:take|принимать|at night|утром|вечером|ночью)\b/gi, "")
-		.trim();
+	// Cut spans leave their separators behind: "Bisoprolol , ".
+	return cleaned
+		.replace(/\s{2,}/g, " ")
+		.replace(/\s+([,;])/g, "$1")
+		.replace(/^[\s,;:/]+|[\s,;:/]+$/g, "");
+};
 
-	return cleaned.replace(/\s{2,}/g, " ").trim();
+type ParseContext = {
+	referenceDate: Dayjs;
+	vocab: Vocabulary;
+	trace?: ParseTrace;
+	block?: number; // block being parsed, for trace steps
+};
+
+export type ParseOptions = {
+	referenceDate?: Dayjs; // resolves "tomorrow" and dates without a year
+	explain?: boolean; // record a ParseTrace of blocks, matches and decisions
+	locales?: string[]; // locale packs to read with; detected from the text when omitted
+};
+
+const note = (context: ParseContext, step: Omit<TraceStep, "block">) => {
+	context.trace?.steps.push({ ...step, block: context.block });
+};
+
+/**
+ * Course-level dates read from the first and last phase belong to the plan;
+ * dates inside the middle of a taper stay on their phase.
+ */
+const liftCourseDates = (
+	plan: MedicationPlan,
+	parsed: Pick<ParsedPlan, "fields" | "instructionFields">,
+) => {
+	const first = plan.instructions[0];
+	const lastIndex = plan.instructions.length - 1;
+	const last = plan.instructions[lastIndex];
+	// Time slots of the same phase share the dates, so they are lifted together.
+	const startDate = first?.startDate;
+	if (startDate) {
+		plan.startDate = startDate;
+		parsed.fields.startDate = parsed.instructionFields[0].startDate;
+		plan.instructions.forEach((instruction, index) => {
+			if (
+				instruction.phase === first.phase &&
+				instruction.startDate === startDate
+			) {
+				instruction.startDate = undefined;
+				delete parsed.instructionFields[index].startDate;
+			}
+		});
+	}
+	const endDate = last?.endDate;
+	if (endDate) {
+		plan.endDate = endDate;
+		parsed.fields.endDate = parsed.instructionFields[lastIndex].endDate;
+		plan.instructions.forEach((instruction, index) => {
+			if (instruction.phase === last.phase && instruction.endDate === endDate) {
+				instruction.endDate = undefined;
+				delete parsed.instructionFields[index].endDate;
+			}
+		});
+	}
+};
+
+/**
+ * Builds a task plan from a directive block. Frequency, timing and duration go
+ * through the same instruction parsing as medicines; the directive itself
+ * becomes the name.
+ */
+const buildTaskFromBlock = (
+	source: SourceText,
+	task: TaskDetection,
+	ordinal: number,
+	context: ParseContext,
+): ParsedPlan => {
+	const directive = source.text
+		.slice(task.index, task.index + task.length)
+		.replace(/\s+/g, " ");
+	const name = directive.charAt(0).toUpperCase() + directive.slice(1);
+	const { instruction, fields: instructionFields } = buildInstruction(
+		{ ...source, text: maskSpan(source.text, task) },
+		context,
+	);
+	const { dose: _dose, ...taskFields } = instructionFields;
+	const plan: MedicationPlan = {
+		id: makePlanId(name, ordinal),
+		name,
+		kind: "task",
+		taskCategory: task.value,
+		instructions: [{ ...instruction, dose: TASK_DOSE }],
+	};
+	const parsed: ParsedPlan = {
+		plan,
+		fields: { name: detectedMeta(source, task) },
+		instructionFields: [taskFields],
+	};
+	liftCourseDates(plan, parsed);
+	return parsed;
 };
 
 const buildPlanFromBlock = (
-	lines: string[],
+	lines: SourceLine[],
 	ordinal: number,
-): MedicationPlan | null => {
-	const normalizedLines = lines.map(stripBullet).filter(Boolean);
+	context: ParseContext,
+): ParsedPlan | null => {
+	const normalizedLines = lines
+		.map(stripBulletLine)
+		.filter((line) => line.text.length > 0);
 	if (!normalizedLines.length) {
 		return null;
 	}
 
-	const header = sanitizeName(normalizedLines[0]);
+	const fields: ParsedPlan["fields"] = {};
+	const joined = joinLines(normalizedLines);
+
+	const task = detectTask(normalizedLines[0].text, context.vocab);
+	if (task) {
+		note(context, {
+			stage: "decision",
+			rule: "task",
+			message: `${task.value} task; dose and strength are not read`,
+			span: detectedMeta(joined, task).span,
+		});
+		return buildTaskFromBlock(joined, task, ordinal, context);
+	}
+
+	// The first line comes first in the joined text, so the span carries over.
+	const directive = detectDirective(normalizedLines[0].text, context.vocab);
+	const source = directive
+		? { ...joined, text: maskSpan(joined.text, directive) }
+		: joined;
+	if (directive) {
+		note(context, {
+			stage: "decision",
+			rule: "directive",
+			message: `${directive.value} an existing plan`,
+			span: detectedMeta(joined, directive).span,
+		});
+	}
+
+	const header = sanitizeName(
+		maskSpan(normalizedLines[0].text, directive),
+		context.vocab,
+		(rule, cleaned) =>
+			note(context, { stage: "name", rule, message: `"${cleaned}"` }),
+	).replace(context.vocab.directiveConnector, "");
 	const name = header.length ? header : `Medication ${ordinal + 1}`;
-	const plainText = normalizedLines.join(" ");
-	const strength = extractStrength(plainText);
-	const route = detectRoute(plainText);
-	const instruction = buildInstruction(plainText);
+	if (header.length) {
+		const index = source.text.indexOf(header);
+		fields.name = {
+			source: "detected",
+			span:
+				index >= 0
+					? toSpan(source, index, header.length)
+					: toSpan(source, 0, normalizedLines[0].text.length),
+			confidence: index >= 0 ? CONFIDENCE.keyword : CONFIDENCE.ambiguous,
+		};
+	} else {
+		fields.name = defaultedMeta();
+	}
 
-	return {
+	const drug = header.length ? findDrug(name) : undefined;
+	if (drug && isCorrection(drug, name) && fields.name) {
+		// Probably an OCR typo; the Review screen offers the dictionary spelling.
+		fields.name = { ...fields.name, confidence: CONFIDENCE.ambiguous };
+		note(context, {
+			stage: "name",
+			rule: "dictionary",
+			message: `close to ${drug.generic}; flagged as a possible typo`,
+		});
+	} else if (drug) {
+		note(context, {
+			stage: "name",
+			rule: "dictionary",
+			message: `known drug, generic ${drug.generic}`,
+		});
+	}
+
+	const strength = extractStrength(source.text, context.vocab);
+	if (strength) {
+		fields.strength = detectedMeta(source, strength);
+	}
+	// "injection" without a route is most often subcutaneous (insulin,
+	// heparins); flagged so the patient can switch it to intramuscular.
+	const route =
+		detectRoute(source.text, context.vocab) ??
+		matchDetection(
+			source.text,
+			context.vocab.injection,
+			"sc" as const,
+			CONFIDENCE.ambiguous,
+		);
+	if (route) {
+		fields.route = detectedMeta(source, route);
+	}
+	const site = detectSite(
+		source.text,
+		route?.value === "sc" || route?.value === "im",
+		context.vocab,
+	);
+	if (site) {
+		fields.site = detectedMeta(source, site);
+	}
+	const segments = splitPhases(source, context.vocab);
+	if (segments.length > 1) {
+		note(context, {
+			stage: "decision",
+			rule: "phases",
+			message: `split into ${segments.length} phases`,
+		});
+	}
+	const strengthSpan = fields.strength?.span;
+	const phases: InstructionResult[][] = [];
+	segments.forEach((segment, phase) => {
+		const result = buildInstruction(
+			segment,
+			context,
+			strengthSpan,
+			strength?.value,
+		);
+		const previous = phases[phase - 1];
+		// A split phase has no single dose or frequency to carry over.
+		const base =
+			previous?.length === 1 ? inheritFromPhase(result, previous[0]) : result;
+		const inherited = (Object.keys(base.fields) as InstructionField[]).filter(
+			(field) =>
+				base.fields[field] !== result.fields[field] &&
+				base.fields[field]?.source !== "defaulted",
+		);
+		if (inherited.length) {
+			note(context, {
+				stage: "decision",
+				rule: "phases",
+				message: `phase ${phase + 1} takes ${inherited.join(", ")} from phase ${phase}`,
+			});
+		}
+		const slots = splitSlots(segment, context.vocab, strengthSpan);
+		if (slots) {
+			note(context, {
+				stage: "decision",
+				rule: "slots",
+				message: `split into ${slots.length} time slots`,
+			});
+		}
+		phases.push(
+			slots
+				? slots.map((clause) =>
+						withSlot(
+							base,
+							buildInstruction(clause, context, strengthSpan, strength?.value),
+						),
+					)
+				: [base],
+		);
+	});
+
+	const plan: MedicationPlan = {
 		id: makePlanId(name, ordinal),
 		name,
-		strength,
-		route,
-		instructions: [instruction],
+		genericName: drug?.generic,
+		strength: strength?.value,
+		route: route?.value,
+		site: site?.value,
+		instructions: phases.flatMap((results, phase) =>
+			results.map(({ instruction }) =>
+				phases.length > 1 ? { ...instruction, phase } : { ...instruction },
+			),
+		),
 	};
+	const instructionFields = phases.flatMap((results) =>
+		results.map((result) => ({ ...result.fields })),
+	);
+	liftCourseDates(plan, { fields, instructionFields });
+
+	if (directive) {
+		plan.directive =
+			directive.value === "stop"
+				? { action: "stop" }
+				: modifyDirective(strength?.value, strengthSpan, phases[0][0]);
+	}
+
+	const nextPeriod = matchDetection(
+		source.text,
+		context.vocab.nextPeriod,
+		"next_period" as const,
+		CONFIDENCE.ambiguous,
+	);
+	if (nextPeriod && !plan.startDate) {
+		// The date is unknown until it happens, so nothing is scheduled until it is entered.
+		plan.startsWith = nextPeriod.value;
+		fields.startDate = detectedMeta(source, nextPeriod);
+		note(context, {
+			stage: "decision",
+			rule: "startDate",
+			message: "starts with the next period; waits for a date",
+			span: fields.startDate.span,
+		});
+	}
+
+	return { plan, fields, instructionFields };
 };
 
-export const parsePrescriptionText = (raw: string): MedicationPlan[] => {
-	if (!raw || raw.trim().length === 0) {
+const FREQUENCY_ANSWERS: { label: string; value: Frequency }[] = [
+	{ label: "Once a day", value: "QD" },
+	{ label: "Twice a day", value: "BID" },
+	{ label: "3 times a day", value: "TID" },
+	{ label: "4 times a day", value: "QID" },
+	{ label: "At bedtime", value: "QHS" },
+	{ label: "As needed", value: "PRN" },
+];
+const DOSE_ANSWERS: DosageInstruction["dose"][] = [
+	{ amount: 1, unit: "tab" },
+	{ amount: 2, unit: "tab" },
+	{ amount: 1, unit: "caps" },
+];
+const STRENGTH_DOSE_UNITS: DoseUnit[] = ["mg", "mcg", "g"];
+
+/**
+ * Questions about what the parser only assumed: a frequency that fell back to
+ * once a day, a missing dose, a dose that may just be the tablet strength, and
+ * a pack that cannot be counted in doses.
+ * Stop and change directives act on existing plans and are not asked about.
+ */
+const collectQuestions = ({
+	plan,
+	fields,
+	instructionFields,
+}: ParsedPlan): ClarificationQuestion[] => {
+	if (plan.directive) {
 		return [];
 	}
+	const questions: ClarificationQuestion[] = [];
+	plan.instructions.forEach((instruction, index) => {
+		const meta = instructionFields[index] ?? {};
+		const phase =
+			instruction.phase === undefined
+				? ""
+				: ` in phase ${instruction.phase + 1}`;
+		const ask = (
+			field: ClarificationQuestion["field"],
+			prompt: string,
+			options: ClarificationQuestion["options"],
+		) =>
+			questions.push({
+				id: `${plan.id}:${index}:${field}`,
+				planId: plan.id,
+				instruction: index,
+				field,
+				prompt,
+				options,
+			});
 
-	const blocks = collectBlocks(raw);
-	const plans: MedicationPlan[] = [];
+		if (meta.frequency?.source === "defaulted") {
+			ask(
+				"frequency",
+				plan.kind === "task"
+					? `How often should this be done${phase}: ${plan.name}?`
+					: `How often should ${plan.name} be taken${phase}?`,
+				FREQUENCY_ANSWERS.map(({ label, value }) => ({
+					label,
+					changes:
+						value === "PRN"
+							? { frequency: value, prn: true }
+							: { frequency: value },
+				})),
+			);
+		}
+		if (meta.dose?.source === "defaulted") {
+			ask(
+				"dose",
+				`How much ${plan.name} per dose${phase}?`,
+				DOSE_ANSWERS.map((dose) => ({
+					label: formatDose(dose),
+					changes: { dose },
+				})),
+			);
+		} else if (
+			spansOverlap(meta.dose?.span, fields.strength?.span) &&
+			STRENGTH_DOSE_UNITS.includes(instruction.dose.unit)
+		) {
+			const amount = formatDose(instruction.dose);
+			ask(
+				"dose",
+				`Is ${amount} the dose of ${plan.name} or the tablet strength?`,
+				[
+					{ label: `Take ${amount}`, changes: { dose: instruction.dose } },
+					...DOSE_ANSWERS.slice(0, 2).map((dose) => ({
+						label: `Strength; take ${formatDose(dose)}`,
+						changes: { dose },
+					})),
+				],
+			);
+		}
+		if (
+			instruction.quantity !== undefined &&
+			instruction.frequency !== "PRN" &&
+			doseLimit(instruction, plan.strength) === undefined
+		) {
+			ask(
+				"quantity",
+				`How much of the pack of ${instruction.quantity} is one dose of ${plan.name}${phase}?`,
+				[
+					...DOSE_ANSWERS.map((dose) => ({
+						label: formatDose(dose),
+						changes: { dose },
+					})),
+					{ label: "Ignore the pack size", changes: { quantity: undefined } },
+				],
+			);
+		}
+	});
+	return questions;
+};
+
+const traceValue = (value: unknown) =>
+	value === undefined ? "nothing" : JSON.stringify(value);
+
+/** Records the text behind every field of a parsed plan, or that it was defaulted. */
+const traceFields = (
+	context: ParseContext,
+	raw: string,
+	{ plan, fields, instructionFields }: ParsedPlan,
+) => {
+	if (!context.trace) {
+		return;
+	}
+	const record = (rule: string, meta: FieldMeta, value: unknown) => {
+		if (meta.source === "defaulted") {
+			note(context, {
+				stage: "default",
+				rule,
+				message: `not found; ${traceValue(value)}`,
+			});
+			return;
+		}
+		const matched = meta.span
+			? `"${raw.slice(meta.span.start, meta.span.end)}"`
+			: "(no span)";
+		note(context, {
+			stage: "match",
+			rule,
+			message: `${matched} → ${traceValue(value)} (${meta.confidence})`,
+			span: meta.span,
+		});
+	};
+	(Object.entries(fields) as [PlanField, FieldMeta][]).forEach(
+		([field, meta]) => record(field, meta, plan[field]),
+	);
+	instructionFields.forEach((metas, index) => {
+		const instruction = plan.instructions[index];
+		(Object.entries(metas) as [InstructionField, FieldMeta][]).forEach(
+			([field, meta]) => {
+				const rule =
+					plan.instructions.length > 1 ? `${field}[${index + 1}]` : field;
+				record(rule, meta, instruction?.[field]);
+			},
+		);
+	});
+};
+
+/**
+ * Parses prescription text into medication plans, annotating every field with
+ * where it came from in the raw text and how confident the parser is in it.
+ */
+export const parsePrescription = (
+	raw: string,
+	options: ParseOptions = {},
+): ParseResult => {
+	if (!raw || raw.trim().length === 0) {
+		return { rawText: raw ?? "", plans: [], questions: [] };
+	}
+
+	const trace: ParseTrace | undefined = options.explain
+		? { blocks: [], steps: [] }
+		: undefined;
+	const locale = options.locales ? undefined : detectLocale(raw);
+	const vocab = getVocabulary(
+		options.locales ?? [...DEFAULT_LOCALES, ...(locale ? [locale] : [])],
+	);
+	const blocks = collectBlocks(raw, vocab, trace);
+	const plans: ParsedPlan[] = [];
+	const context: ParseContext = {
+		referenceDate: options.referenceDate ?? dayjs(),
+		vocab,
+		trace,
+	};
+	note(context, {
+		stage: "decision",
+		rule: "locale",
+		message: locale
+			? `detected ${locale}; reading ${vocab.codes.join(", ")}`
+			: `reading ${vocab.codes.join(", ")}`,
+	});
 
 	blocks.forEach((block, index) => {
-		const plan = buildPlanFromBlock(block, index);
-		if (plan) {
-			plans.push(plan);
+		const blockContext = { ...context, block: index };
+		const parsed = buildPlanFromBlock(block, index, blockContext);
+		if (parsed) {
+			if (block[0].page) {
+				parsed.plan.sourcePage = block[0].page;
+			}
+			traceFields(blockContext, raw, parsed);
+			plans.push(parsed);
 		}
 	});
 
-	return plans;
+	return {
+		rawText: raw,
+		plans,
+		questions: plans.flatMap(collectQuestions),
+		locale,
+		trace,
+	};
+};
+
+/** Plain-text trace for pasting into a bug report. */
+export const formatTrace = (trace: ParseTrace): string => {
+	const blocks = trace.blocks.map(
+		(block, index) =>
+			`#${index + 1} [${block.span.start}–${block.span.end}] ${block.reason}\n${block.lines
+				.map((line) => `    ${line}`)
+				.join("\n")}`,
+	);
+	const steps = trace.steps.map(
+		(step) =>
+			`${step.block === undefined ? "*" : `#${step.block + 1}`} ${step.stage} ${step.rule}: ${step.message}`,
+	);
+	return ["Blocks", ...blocks, "", "Steps", ...steps].join("\n");
 };
+
+export const parsePrescriptionText = (
+	raw: string,
+	options?: ParseOptions,
+): MedicationPlan[] =>
+	parsePrescription(raw, options).plans.map((parsed) => parsed.plan);
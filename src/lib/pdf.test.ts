@@ -0,0 +1,192 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { PdfError, readPdf } from "./pdf";
+
+type Part = string | Uint8Array;
+
+const bytesOf = (part: Part) =>
+	typeof part === "string" ? new Uint8Array(Buffer.from(part, "latin1")) : part;
+
+const concat = (parts: Part[]) =>
+	new Uint8Array(Buffer.concat(parts.map(bytesOf)));
+
+const stream = (dict: string, data: Part) => {
+	const bytes = bytesOf(data);
+	return concat([
+		`<<${dict} /Length ${bytes.length}>>\nstream\n`,
+		bytes,
+		"\nendstream",
+	]);
+};
+
+const flate = (data: Part) => new Uint8Array(deflateSync(bytesOf(data)));
+
+/** A PDF of numbered objects; the reader scans for them, so no xref is needed. */
+const pdf = (...objects: Part[]) =>
+	concat([
+		"%PDF-1.7\n",
+		...objects.flatMap((object, index) => [
+			`${index + 1} 0 obj\n`,
+			object,
+			"\nendobj\n",
+		]),
+		"trailer\n<< /Root 1 0 R >>\n%%EOF\n",
+	]);
+
+// Objects 1-3 are the catalog, page tree and page; the page's content is 4.
+const onePage = (resources: string, ...rest: Part[]) =>
+	pdf(
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		"<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+		`<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources ${resources} >>`,
+		...rest,
+	);
+
+const FONT =
+	"<< /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> >> >>";
+const TEXT =
+	"BT /F1 12 Tf 72 720 Td (Amoxicillin 500 mg) Tj 0 -14 Td [(every 8 hours) -250 (for 7 days)] TJ ET";
+
+const imagePage = (image: Part) =>
+	onePage(
+		"<< /XObject << /Im1 5 0 R >> >>",
+		stream("", "q 100 0 0 50 0 0 cm /Im1 Do Q"),
+		image,
+	);
+
+// 4 x 2 grey pixels, one byte each.
+const GREY = Uint8Array.from([0, 64, 128, 255, 255, 128, 64, 0]);
+
+/** The rows of a PNG's image data, each starting with its filter byte. */
+const pngRows = (png: Uint8Array) => {
+	const view = Buffer.from(png);
+	const idat = view.indexOf("IDAT");
+	return new Uint8Array(
+		inflateSync(
+			view.subarray(idat + 4, idat + 4 + view.readUInt32BE(idat - 4)),
+		),
+	);
+};
+
+describe("readPdf", () => {
+	it("reads text from a compressed content stream", () => {
+		const [page] = readPdf(
+			onePage(FONT, stream("/Filter /FlateDecode", flate(TEXT))),
+		);
+		expect(page.text).toBe("Amoxicillin 500 mg\nevery 8 hours for 7 days");
+		expect(page.image).toBeUndefined();
+		expect(page.skipped).toBeUndefined();
+	});
+
+	it("finds pages stored in a compressed object stream", () => {
+		// Object 5, the page, exists only inside object 4.
+		const page = `<< /Type /Page /Parent 2 0 R /Contents 3 0 R /Resources ${FONT} >>`;
+		const header = "5 0 ";
+		const [read] = readPdf(
+			pdf(
+				"<< /Type /Catalog /Pages 2 0 R >>",
+				"<< /Type /Pages /Kids [5 0 R] /Count 1 >>",
+				stream("", TEXT),
+				stream(
+					`/Type /ObjStm /N 1 /First ${header.length} /Filter /FlateDecode`,
+					flate(header + page),
+				),
+			),
+		);
+		expect(read.text).toBe("Amoxicillin 500 mg\nevery 8 hours for 7 days");
+	});
+
+	it("exports a Flate greyscale scan as a PNG", () => {
+		const [page] = readPdf(
+			imagePage(
+				stream(
+					"/Type /XObject /Subtype /Image /Width 4 /Height 2 /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode",
+					flate(GREY),
+				),
+			),
+		);
+		expect(page.text).toBe("");
+		expect(page.image).toMatchObject({ extension: "png", width: 4, height: 2 });
+		const png = page.image?.bytes ?? new Uint8Array();
+		expect(Buffer.from(png.subarray(1, 4)).toString()).toBe("PNG");
+		expect(pngRows(png)).toEqual(
+			Uint8Array.from([0, ...GREY.subarray(0, 4), 0, ...GREY.subarray(4)]),
+		);
+	});
+
+	it("passes PNG-predicted data through as image data", () => {
+		const rows = Uint8Array.from([
+			0,
+			...GREY.subarray(0, 4),
+			0,
+			...GREY.subarray(4),
+		]);
+		const [page] = readPdf(
+			imagePage(
+				stream(
+					"/Type /XObject /Subtype /Image /Width 4 /Height 2 /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /DecodeParms << /Predictor 15 /Columns 4 >>",
+					flate(rows),
+				),
+			),
+		);
+		expect(pngRows(page.image?.bytes ?? new Uint8Array())).toEqual(rows);
+	});
+
+	it("exports a JPEG scan unchanged", () => {
+		const jpeg = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 0xff, 0xd9]);
+		const [page] = readPdf(
+			imagePage(
+				stream(
+					"/Type /XObject /Subtype /Image /Width 640 /Height 480 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode",
+					jpeg,
+				),
+			),
+		);
+		expect(page.image).toEqual({
+			extension: "jpg",
+			bytes: jpeg,
+			width: 640,
+			height: 480,
+		});
+	});
+
+	it("skips a CMYK scan instead of writing a corrupt PNG", () => {
+		const [page] = readPdf(
+			onePage(
+				"<< /XObject << /Im1 5 0 R >> >>",
+				stream("", "q 100 0 0 50 0 0 cm /Im1 Do Q"),
+				stream(
+					"/Type /XObject /Subtype /Image /Width 2 /Height 1 /ColorSpace [/ICCBased 6 0 R] /BitsPerComponent 8 /Filter /FlateDecode",
+					flate(new Uint8Array(8)),
+				),
+				stream("/N 4", ""),
+			),
+		);
+		expect(page.image).toBeUndefined();
+		expect(page.skipped).toBe("unsupported CMYK image");
+	});
+
+	it("says why a page with neither text nor an image is skipped", () => {
+		const [page] = readPdf(onePage("<< >>", stream("", "0 0 m 100 100 l S")));
+		expect(page).toEqual({
+			text: "",
+			skipped: "no text or image; drawings are not rendered",
+		});
+	});
+
+	it("names the encoding of a scan it cannot export", () => {
+		const [page] = readPdf(
+			imagePage(
+				stream(
+					"/Type /XObject /Subtype /Image /Width 4 /Height 2 /ColorSpace /DeviceGray /BitsPerComponent 1 /Filter /JBIG2Decode",
+					new Uint8Array(4),
+				),
+			),
+		);
+		expect(page.skipped).toBe("unsupported image encoded as JBIG2");
+	});
+
+	it("rejects a file that is not a PDF", () => {
+		expect(() => readPdf(bytesOf("GIF89a"))).toThrow(PdfError);
+	});
+});
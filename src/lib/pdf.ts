@@ -0,0 +1,1061 @@
+import { crc32, inflate, zlibStore } from "./zlib";
+
+/**
+ * A small PDF reader for importing prescriptions: the text drawn on each page
+ * and, for scanned pages, the page image to run through OCR. It does not
+ * render vector graphics or decrypt protected files; pages that would need
+ * that carry the reason they were skipped.
+ */
+
+type PdfName = { name: string };
+type PdfString = { bytes: Uint8Array };
+type PdfRef = { ref: number };
+type PdfDict = { dict: Record<string, PdfValue> };
+type PdfValue =
+	| null
+	| boolean
+	| number
+	| PdfName
+	| PdfString
+	| PdfRef
+	| PdfDict
+	| PdfValue[];
+type PdfOperator = { op: string };
+type PdfObject = { value: PdfValue; stream?: Uint8Array };
+
+export type PdfImage = {
+	extension: "jpg" | "png";
+	bytes: Uint8Array;
+	width: number;
+	height: number;
+};
+
+export type PdfPage = {
+	text: string;
+	image?: PdfImage; // largest image on the page, usually the scan itself
+	skipped?: string; // why a page with little text has no image to read instead
+};
+
+export class PdfError extends Error {}
+
+const END_ARRAY = Symbol("]");
+const END_DICT = Symbol(">>");
+type Token = PdfValue | PdfOperator | typeof END_ARRAY | typeof END_DICT;
+
+const isName = (value: unknown): value is PdfName =>
+	typeof value === "object" && value !== null && "name" in value;
+const isString = (value: unknown): value is PdfString =>
+	typeof value === "object" && value !== null && "bytes" in value;
+const isRef = (value: unknown): value is PdfRef =>
+	typeof value === "object" && value !== null && "ref" in value;
+const isDict = (value: unknown): value is PdfDict =>
+	typeof value === "object" && value !== null && "dict" in value;
+const isOperator = (value: unknown): value is PdfOperator =>
+	typeof value === "object" && value !== null && "op" in value;
+
+/** Bytes to a string of the same length, one character per byte. */
+export const latin1 = (bytes: Uint8Array) => {
+	let text = "";
+	for (let start = 0; start < bytes.length; start += 8192) {
+		text += String.fromCharCode(...bytes.subarray(start, start + 8192));
+	}
+	return text;
+};
+
+const fromLatin1 = (text: string) =>
+	Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+const isSpace = (code: number) =>
+	code === 0 ||
+	code === 9 ||
+	code === 10 ||
+	code === 12 ||
+	code === 13 ||
+	code === 32;
+const DELIMITERS = "()<>[]{}/%";
+const isRegular = (code: number) =>
+	!Number.isNaN(code) &&
+	!isSpace(code) &&
+	!DELIMITERS.includes(String.fromCharCode(code));
+
+const ESCAPES: Record<string, string> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	b: "\b",
+	f: "\f",
+};
+
+class Lexer {
+	constructor(
+		readonly text: string,
+		public position = 0,
+	) {}
+
+	private code(offset = 0) {
+		return this.text.charCodeAt(this.position + offset);
+	}
+
+	skipSpace() {
+		while (this.position < this.text.length) {
+			const code = this.code();
+			if (isSpace(code)) {
+				this.position++;
+			} else if (code === 37) {
+				// "%" comment runs to the end of the line
+				while (
+					this.position < this.text.length &&
+					this.code() !== 10 &&
+					this.code() !== 13
+				) {
+					this.position++;
+				}
+			} else {
+				break;
+			}
+		}
+	}
+
+	private readRegular() {
+		const start = this.position;
+		while (this.position < this.text.length && isRegular(this.code())) {
+			this.position++;
+		}
+		return this.text.slice(start, this.position);
+	}
+
+	private readLiteral(): PdfString {
+		let depth = 1;
+		let value = "";
+		this.position++;
+		while (this.position < this.text.length) {
+			const char = this.text[this.position++];
+			if (char === "\\") {
+				const next = this.text[this.position++];
+				if (next in ESCAPES) {
+					value += ESCAPES[next];
+				} else if (next >= "0" && next <= "7") {
+					let octal = next;
+					while (
+						octal.length < 3 &&
+						this.text[this.position] >= "0" &&
+						this.text[this.position] <= "7"
+					) {
+						octal += this.text[this.position++];
+					}
+					value += String.fromCharCode(Number.parseInt(octal, 8) & 0xff);
+				} else if (next === "\r") {
+					if (this.text[this.position] === "\n") {
+						this.position++;
+					}
+				} else if (next !== "\n") {
+					value += next;
+				}
+			} else if (char === "(") {
+				depth++;
+				value += char;
+			} else if (char === ")") {
+				depth--;
+				if (depth === 0) {
+					break;
+				}
+				value += char;
+			} else {
+				value += char;
+			}
+		}
+		return { bytes: fromLatin1(value) };
+	}
+
+	private readHex(): PdfString {
+		const end = this.text.indexOf(">", this.position);
+		const digits = this.text
+			.slice(this.position + 1, end < 0 ? undefined : end)
+			.replace(/[^0-9a-f]/gi, "");
+		this.position = end < 0 ? this.text.length : end + 1;
+		const padded = digits.length % 2 ? `${digits}0` : digits;
+		const bytes = new Uint8Array(padded.length / 2);
+		for (let index = 0; index < bytes.length; index++) {
+			bytes[index] = Number.parseInt(
+				padded.slice(index * 2, index * 2 + 2),
+				16,
+			);
+		}
+		return { bytes };
+	}
+
+	/** "12 0 R" after a number already read. */
+	private readReference(first: number): PdfRef | undefined {
+		const saved = this.position;
+		this.skipSpace();
+		const generation = this.readRegular();
+		this.skipSpace();
+		if (
+			/^\d+$/.test(generation) &&
+			this.text[this.position] === "R" &&
+			!isRegular(this.code(1))
+		) {
+			this.position++;
+			return { ref: first };
+		}
+		this.position = saved;
+		return undefined;
+	}
+
+	next(): Token | undefined {
+		this.skipSpace();
+		if (this.position >= this.text.length) {
+			return undefined;
+		}
+		const char = this.text[this.position];
+		switch (char) {
+			case "[": {
+				this.position++;
+				const items: PdfValue[] = [];
+				for (;;) {
+					const token = this.next();
+					if (token === undefined || token === END_ARRAY) {
+						return items;
+					}
+					if (token !== END_DICT && !isOperator(token)) {
+						items.push(token);
+					}
+				}
+			}
+			case "]":
+				this.position++;
+				return END_ARRAY;
+			case "<":
+				if (this.text[this.position + 1] !== "<") {
+					return this.readHex();
+				}
+				return this.readDict();
+			case ">":
+				this.position += this.text[this.position + 1] === ">" ? 2 : 1;
+				return END_DICT;
+			case "(":
+				return this.readLiteral();
+			case "/": {
+				this.position++;
+				const name = this.readRegular().replace(/#([0-9a-f]{2})/gi, (_, hex) =>
+					String.fromCharCode(Number.parseInt(hex, 16)),
+				);
+				return { name };
+			}
+			case "{":
+			case "}":
+			case ")":
+				this.position++;
+				return this.next();
+		}
+		const word = this.readRegular();
+		if (!word) {
+			this.position++;
+			return this.next();
+		}
+		if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) {
+			const value = Number.parseFloat(word);
+			return (/^\d+$/.test(word) && this.readReference(value)) || value;
+		}
+		if (word === "true" || word === "false") {
+			return word === "true";
+		}
+		if (word === "null") {
+			return null;
+		}
+		return { op: word };
+	}
+
+	private readDict(): PdfDict {
+		this.position += 2;
+		const dict: Record<string, PdfValue> = {};
+		for (;;) {
+			const key = this.next();
+			if (key === undefined || key === END_DICT) {
+				return { dict };
+			}
+			if (!isName(key)) {
+				continue;
+			}
+			const value = this.next();
+			if (value !== undefined && value !== END_DICT && value !== END_ARRAY) {
+				dict[key.name] = isOperator(value) ? null : value;
+			} else if (value === END_DICT) {
+				return { dict };
+			}
+		}
+	}
+
+	/** Value at the cursor, or undefined when it is not a plain value. */
+	value(): PdfValue | undefined {
+		const token = this.next();
+		return token === undefined ||
+			token === END_ARRAY ||
+			token === END_DICT ||
+			isOperator(token)
+			? undefined
+			: token;
+	}
+}
+
+const decodeAscii85 = (input: Uint8Array) => {
+	const text = latin1(input).replace(/\s+/g, "").replace(/^<~/, "");
+	const end = text.indexOf("~>");
+	const data = (end < 0 ? text : text.slice(0, end)).replace(/z/g, "!!!!!");
+	const output: number[] = [];
+	for (let start = 0; start < data.length; start += 5) {
+		const group = data.slice(start, start + 5);
+		const padded = group.padEnd(5, "u");
+		let value = 0;
+		for (const char of padded) {
+			value = value * 85 + (char.charCodeAt(0) - 33);
+		}
+		const bytes = [
+			value >>> 24,
+			(value >>> 16) & 0xff,
+			(value >>> 8) & 0xff,
+			value & 0xff,
+		];
+		output.push(...bytes.slice(0, group.length - 1));
+	}
+	return Uint8Array.from(output);
+};
+
+const decodeAsciiHex = (input: Uint8Array) => {
+	const digits = latin1(input)
+		.split(">")[0]
+		.replace(/[^0-9a-f]/gi, "");
+	const padded = digits.length % 2 ? `${digits}0` : digits;
+	const bytes = new Uint8Array(padded.length / 2);
+	for (let index = 0; index < bytes.length; index++) {
+		bytes[index] = Number.parseInt(padded.slice(index * 2, index * 2 + 2), 16);
+	}
+	return bytes;
+};
+
+// Filters that pass image data through untouched, so the bytes are a file.
+const IMAGE_FILTERS = new Set([
+	"DCTDecode",
+	"JPXDecode",
+	"CCITTFaxDecode",
+	"JBIG2Decode",
+]);
+
+// Windows-1252 characters in 0x80–0x9f, where it differs from Latin-1.
+const CP1252 = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+const cp1252 = (code: number) =>
+	code >= 0x80 && code <= 0x9f
+		? CP1252[code - 0x80]
+		: String.fromCharCode(code);
+
+const GLYPH_NAMES: Record<string, string> = {
+	space: " ",
+	period: ".",
+	comma: ",",
+	colon: ":",
+	semicolon: ";",
+	hyphen: "-",
+	endash: "–",
+	slash: "/",
+	percent: "%",
+	plus: "+",
+	equal: "=",
+	parenleft: "(",
+	parenright: ")",
+	numbersign: "#",
+	quoteright: "’",
+	zero: "0",
+	one: "1",
+	two: "2",
+	three: "3",
+	four: "4",
+	five: "5",
+	six: "6",
+	seven: "7",
+	eight: "8",
+	nine: "9",
+};
+
+/** Unicode for a glyph name from an encoding's Differences array. */
+const glyphChar = (name: string): string => {
+	if (name in GLYPH_NAMES) {
+		return GLYPH_NAMES[name];
+	}
+	if (/^[A-Za-z]$/.test(name)) {
+		return name;
+	}
+	const unicode = /^uni([0-9A-F]{4})/.exec(name);
+	if (unicode) {
+		return String.fromCharCode(Number.parseInt(unicode[1], 16));
+	}
+	// Cyrillic glyphs in older Russian PDFs: afii10017 is "А", with Ё out of order.
+	const afii = /^afii(\d{5})$/.exec(name);
+	if (afii) {
+		const code = Number(afii[1]);
+		if (code === 10023) return "Ё";
+		if (code === 10071) return "ё";
+		if (code >= 10017 && code <= 10049) {
+			return String.fromCharCode(0x410 + code - 10017 - (code > 10023 ? 1 : 0));
+		}
+		if (code >= 10065 && code <= 10097) {
+			return String.fromCharCode(0x430 + code - 10065 - (code > 10071 ? 1 : 0));
+		}
+	}
+	return "";
+};
+
+const utf16 = (hex: string) => {
+	let text = "";
+	for (let index = 0; index + 4 <= hex.length; index += 4) {
+		text += String.fromCharCode(
+			Number.parseInt(hex.slice(index, index + 4), 16),
+		);
+	}
+	if (hex.length === 2) {
+		text += String.fromCharCode(Number.parseInt(hex, 16));
+	}
+	return text;
+};
+
+type FontDecoder = (bytes: Uint8Array) => string;
+
+const MAX_RANGE = 0xffff;
+
+/** Character codes to Unicode from a font's ToUnicode CMap. */
+const parseToUnicode = (cmap: string, defaultWidth: number): FontDecoder => {
+	const codespace = /begincodespacerange\s*<([0-9a-f]+)>/i.exec(cmap);
+	const width = codespace ? Math.max(1, codespace[1].length / 2) : defaultWidth;
+	const map = new Map<number, string>();
+	for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+		for (const [, source, target] of block.matchAll(
+			/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi,
+		)) {
+			map.set(Number.parseInt(source, 16), utf16(target));
+		}
+	}
+	for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+		for (const [, low, high, target] of block.matchAll(
+			/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi,
+		)) {
+			const first = Number.parseInt(low, 16);
+			const last = Math.min(Number.parseInt(high, 16), first + MAX_RANGE);
+			if (target.startsWith("[")) {
+				const targets = [...target.matchAll(/<([0-9a-f]*)>/gi)];
+				targets.forEach(([, hex], offset) => {
+					if (first + offset <= last) {
+						map.set(first + offset, utf16(hex));
+					}
+				});
+				continue;
+			}
+			const base = utf16(target.slice(1, -1));
+			for (let code = first; code <= last; code++) {
+				const step = code - first;
+				map.set(
+					code,
+					base.slice(0, -1) +
+						String.fromCharCode(base.charCodeAt(base.length - 1) + step),
+				);
+			}
+		}
+	}
+	return (bytes) => {
+		let text = "";
+		for (let index = 0; index + width <= bytes.length; index += width) {
+			let code = 0;
+			for (let offset = 0; offset < width; offset++) {
+				code = (code << 8) | bytes[index + offset];
+			}
+			text += map.get(code) ?? (width === 1 ? cp1252(code) : "");
+		}
+		return text;
+	};
+};
+
+const appendPngChunk = (
+	parts: Uint8Array[],
+	type: string,
+	data: Uint8Array,
+) => {
+	const header = new Uint8Array(8);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, data.length);
+	header.set(fromLatin1(type), 4);
+	const checked = new Uint8Array(4 + data.length);
+	checked.set(header.subarray(4));
+	checked.set(data, 4);
+	const crc = new Uint8Array(4);
+	new DataView(crc.buffer).setUint32(0, crc32(checked));
+	parts.push(header, data, crc);
+};
+
+const PNG_SIGNATURE = Uint8Array.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const encodePng = (
+	width: number,
+	height: number,
+	bitDepth: number,
+	colors: number,
+	zlibData: Uint8Array,
+) => {
+	const header = new Uint8Array(13);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, width);
+	view.setUint32(4, height);
+	header[8] = bitDepth;
+	header[9] = colors === 3 ? 2 : 0;
+	const parts: Uint8Array[] = [PNG_SIGNATURE];
+	appendPngChunk(parts, "IHDR", header);
+	appendPngChunk(parts, "IDAT", zlibData);
+	appendPngChunk(parts, "IEND", new Uint8Array());
+	const output = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let position = 0;
+	for (const part of parts) {
+		output.set(part, position);
+		position += part.length;
+	}
+	return output;
+};
+
+const MIN_PAGE_TEXT = 20;
+// A TJ gap wider than this, in thousandths of the font size, is a word space;
+// kerning stays well below it.
+const TJ_SPACE = -150;
+
+class PdfDocument {
+	private readonly text: string;
+	private readonly objects = new Map<number, PdfObject>();
+	private readonly fonts = new Map<PdfDict, FontDecoder>();
+
+	constructor(private readonly data: Uint8Array) {
+		this.text = latin1(data);
+		if (!this.text.slice(0, 1024).includes("%PDF-")) {
+			throw new PdfError("Not a PDF file");
+		}
+		if (/\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(this.text)) {
+			throw new PdfError("The PDF is password-protected");
+		}
+		this.readObjects();
+	}
+
+	/**
+	 * Scans for "n 0 obj" rather than trusting the cross-reference table, which
+	 * is often wrong in exported files; later definitions win, as in updates.
+	 */
+	private readObjects() {
+		for (const match of this.text.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+			const lexer = new Lexer(this.text, (match.index ?? 0) + match[0].length);
+			const value = lexer.value();
+			if (value === undefined) {
+				continue;
+			}
+			lexer.skipSpace();
+			const object: PdfObject = { value };
+			if (isDict(value) && this.text.startsWith("stream", lexer.position)) {
+				object.stream = this.readStream(value, lexer.position + 6);
+			}
+			this.objects.set(Number(match[1]), object);
+		}
+		for (const object of [...this.objects.values()]) {
+			if (this.name(object.value, "Type") === "ObjStm" && object.stream) {
+				this.readObjectStream(object);
+			}
+		}
+	}
+
+	private readStream(dict: PdfDict, afterKeyword: number) {
+		let start = afterKeyword;
+		if (this.text[start] === "\r") {
+			start++;
+		}
+		if (this.text[start] === "\n") {
+			start++;
+		}
+		const length = dict.dict.Length;
+		if (
+			typeof length === "number" &&
+			/^\s*endstream/.test(this.text.slice(start + length, start + length + 20))
+		) {
+			return this.data.subarray(start, start + length);
+		}
+		let end = this.text.indexOf("endstream", start);
+		if (end < 0) {
+			end = this.text.length;
+		}
+		if (this.text[end - 1] === "\n") {
+			end--;
+		}
+		if (this.text[end - 1] === "\r") {
+			end--;
+		}
+		return this.data.subarray(start, end);
+	}
+
+	private readObjectStream(container: PdfObject) {
+		let decoded: Uint8Array;
+		try {
+			decoded = this.decode(container);
+		} catch {
+			return;
+		}
+		const text = latin1(decoded);
+		const count = this.number(container.value, "N") ?? 0;
+		const first = this.number(container.value, "First") ?? 0;
+		const header = new Lexer(text);
+		for (let index = 0; index < count; index++) {
+			const id = header.value();
+			const offset = header.value();
+			if (typeof id !== "number" || typeof offset !== "number") {
+				break;
+			}
+			if (this.objects.has(id)) {
+				continue;
+			}
+			const value = new Lexer(text, first + offset).value();
+			if (value !== undefined) {
+				this.objects.set(id, { value });
+			}
+		}
+	}
+
+	resolve(value: PdfValue | undefined): PdfValue | undefined {
+		let current = value;
+		for (let depth = 0; isRef(current) && depth < 8; depth++) {
+			current = this.objects.get(current.ref)?.value;
+		}
+		return current;
+	}
+
+	private object(value: PdfValue | undefined) {
+		return isRef(value) ? this.objects.get(value.ref) : undefined;
+	}
+
+	get(value: PdfValue | undefined, key: string) {
+		const resolved = this.resolve(value);
+		return isDict(resolved) ? this.resolve(resolved.dict[key]) : undefined;
+	}
+
+	private name(value: PdfValue | undefined, key: string) {
+		const entry = this.get(value, key);
+		return isName(entry) ? entry.name : undefined;
+	}
+
+	private number(value: PdfValue | undefined, key: string) {
+		const entry = this.get(value, key);
+		return typeof entry === "number" ? entry : undefined;
+	}
+
+	private filters(object: PdfObject) {
+		const filter = this.get(object.value, "Filter");
+		const list = Array.isArray(filter) ? filter : filter ? [filter] : [];
+		return list
+			.map((item) => this.resolve(item))
+			.filter(isName)
+			.map((item) => item.name);
+	}
+
+	/** Stream bytes with every filter undone, or up to the first image codec. */
+	decode(object: PdfObject, stopAtImage = false): Uint8Array {
+		let bytes = object.stream ?? new Uint8Array();
+		for (const filter of this.filters(object)) {
+			if (stopAtImage && IMAGE_FILTERS.has(filter)) {
+				break;
+			}
+			switch (filter) {
+				case "FlateDecode":
+				case "Fl":
+					bytes = inflate(bytes);
+					break;
+				case "ASCII85Decode":
+				case "A85":
+					bytes = decodeAscii85(bytes);
+					break;
+				case "ASCIIHexDecode":
+				case "AHx":
+					bytes = decodeAsciiHex(bytes);
+					break;
+				default:
+					throw new PdfError(`Unsupported stream filter ${filter}`);
+			}
+		}
+		return bytes;
+	}
+
+	pages(): PdfValue[] {
+		const catalog = [...this.objects.values()]
+			.reverse()
+			.find((object) => this.name(object.value, "Type") === "Catalog");
+		const pages: PdfValue[] = [];
+		const visit = (node: PdfValue | undefined, depth: number) => {
+			const kids = this.get(node, "Kids");
+			if (Array.isArray(kids) && depth < 32) {
+				kids.forEach((kid) => visit(kid, depth + 1));
+			} else if (this.name(node, "Type") === "Page") {
+				pages.push(node as PdfValue);
+			}
+		};
+		if (catalog) {
+			visit(this.get(catalog.value, "Pages"), 0);
+		}
+		if (!pages.length) {
+			// Damaged catalog: fall back to page objects in file order.
+			this.objects.forEach((object, id) => {
+				if (this.name(object.value, "Type") === "Page") {
+					pages.push({ ref: id });
+				}
+			});
+		}
+		return pages;
+	}
+
+	/** Page attribute, inherited from the page tree when the page lacks it. */
+	private inherited(page: PdfValue, key: string) {
+		let node: PdfValue | undefined = page;
+		for (let depth = 0; node && depth < 32; depth++) {
+			const value = this.get(node, key);
+			if (value !== undefined) {
+				return value;
+			}
+			node = this.get(node, "Parent");
+		}
+		return undefined;
+	}
+
+	private font(resources: PdfValue | undefined, key: string): FontDecoder {
+		const font = this.resolve(this.get(this.get(resources, "Font"), key));
+		if (!isDict(font)) {
+			return (bytes) => Array.from(bytes, cp1252).join("");
+		}
+		const cached = this.fonts.get(font);
+		if (cached) {
+			return cached;
+		}
+		const composite = this.name(font, "Subtype") === "Type0";
+		const toUnicode = this.object(font.dict.ToUnicode);
+		let decoder: FontDecoder;
+		if (toUnicode?.stream) {
+			try {
+				decoder = parseToUnicode(
+					latin1(this.decode(toUnicode)),
+					composite ? 2 : 1,
+				);
+			} catch {
+				decoder = () => "";
+			}
+		} else if (composite) {
+			// Glyph ids without a ToUnicode map cannot be turned back into text.
+			decoder = () => "";
+		} else {
+			const differences = this.get(this.get(font, "Encoding"), "Differences");
+			const table = Array.from({ length: 256 }, (_, code) => cp1252(code));
+			if (Array.isArray(differences)) {
+				let code = 0;
+				for (const entry of differences) {
+					if (typeof entry === "number") {
+						code = entry;
+					} else if (isName(entry) && code < 256) {
+						table[code++] = glyphChar(entry.name);
+					}
+				}
+			}
+			decoder = (bytes) => Array.from(bytes, (code) => table[code]).join("");
+		}
+		this.fonts.set(font, decoder);
+		return decoder;
+	}
+
+	/**
+	 * Text shown by a page's content streams, in drawing order. A change of
+	 * baseline starts a new line; a move along the line or a wide TJ gap is a space.
+	 */
+	pageText(page: PdfValue): string {
+		const resources = this.inherited(page, "Resources");
+		// Contents is a stream reference, or an array of them (possibly indirect).
+		const pageDict = this.resolve(page);
+		const entry = isDict(pageDict) ? pageDict.dict.Contents : undefined;
+		const contents = Array.isArray(this.resolve(entry))
+			? (this.resolve(entry) as PdfValue[])
+			: [entry];
+		const streams = contents
+			.map((item) => this.object(item))
+			.filter((object): object is PdfObject => Boolean(object?.stream));
+		const source = streams
+			.map((object) => {
+				try {
+					return latin1(this.decode(object));
+				} catch {
+					return "";
+				}
+			})
+			.join("\n");
+
+		const lexer = new Lexer(source);
+		const lines: string[] = [""];
+		let operands: PdfValue[] = [];
+		let decoder: FontDecoder = (bytes) => Array.from(bytes, cp1252).join("");
+		let y = 0;
+		let leading = 0;
+		let lastY: number | undefined;
+		let moved = false;
+		let newLine = false;
+		const show = (text: string) => {
+			if (!text) {
+				return;
+			}
+			if (lastY !== undefined && (newLine || Math.abs(y - lastY) > 1)) {
+				lines.push("");
+			} else if (moved) {
+				lines[lines.length - 1] += " ";
+			}
+			lines[lines.length - 1] += text;
+			lastY = y;
+			moved = false;
+			newLine = false;
+		};
+		const nextLine = () => {
+			y -= leading;
+			newLine = true;
+		};
+
+		for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+			if (!isOperator(token)) {
+				if (token !== END_ARRAY && token !== END_DICT) {
+					operands.push(token);
+				}
+				continue;
+			}
+			const numbers = operands.filter(
+				(operand): operand is number => typeof operand === "number",
+			);
+			switch (token.op) {
+				case "BT":
+					y = 0;
+					moved = true;
+					break;
+				case "Tf": {
+					const name = operands.find(isName);
+					if (name) {
+						decoder = this.font(resources, name.name);
+					}
+					break;
+				}
+				case "TL":
+					leading = numbers[0] ?? leading;
+					break;
+				case "Td":
+				case "TD":
+					y += numbers[1] ?? 0;
+					if (token.op === "TD") {
+						leading = -(numbers[1] ?? 0);
+					}
+					moved = true;
+					break;
+				case "Tm":
+					y = numbers[5] ?? y;
+					moved = true;
+					break;
+				case "T*":
+					nextLine();
+					break;
+				case "Tj":
+					show(
+						operands
+							.filter(isString)
+							.map((item) => decoder(item.bytes))
+							.join(""),
+					);
+					break;
+				case "'":
+				case '"':
+					nextLine();
+					show(
+						operands
+							.filter(isString)
+							.map((item) => decoder(item.bytes))
+							.join(""),
+					);
+					break;
+				case "TJ": {
+					const parts = operands.find(Array.isArray) ?? [];
+					show(
+						parts
+							.map((part) =>
+								isString(part)
+									? decoder(part.bytes)
+									: typeof part === "number" && part < TJ_SPACE
+										? " "
+										: "",
+							)
+							.join(""),
+					);
+					break;
+				}
+				case "ID": {
+					// Inline image data is binary; skip to its end marker.
+					const end = source.slice(lexer.position).search(/\sEI(?=\s|$)/);
+					lexer.position = end < 0 ? source.length : lexer.position + end + 3;
+					break;
+				}
+			}
+			operands = [];
+		}
+		return lines
+			.map((line) => line.replace(/[ \t]+/g, " ").trim())
+			.filter(Boolean)
+			.join("\n");
+	}
+
+	/** Image XObjects a page draws, including those wrapped in form XObjects. */
+	private pageImages(resources: PdfValue | undefined, depth = 0): PdfObject[] {
+		const xobjects = this.resolve(this.get(resources, "XObject"));
+		if (!isDict(xobjects) || depth > 2) {
+			return [];
+		}
+		return Object.values(xobjects.dict).flatMap((entry) => {
+			const object = this.object(entry);
+			if (!object?.stream) {
+				return [];
+			}
+			const subtype = this.name(object.value, "Subtype");
+			if (subtype === "Image" && this.get(object.value, "ImageMask") !== true) {
+				return [object];
+			}
+			return subtype === "Form"
+				? this.pageImages(this.get(object.value, "Resources"), depth + 1)
+				: [];
+		});
+	}
+
+	private colorComponents(object: PdfObject) {
+		const space = this.get(object.value, "ColorSpace");
+		const name = isName(space)
+			? space.name
+			: Array.isArray(space) && isName(space[0])
+				? space[0].name
+				: undefined;
+		if (name === "DeviceGray" || name === "CalGray" || name === "G") {
+			return 1;
+		}
+		if (name === "DeviceRGB" || name === "CalRGB" || name === "RGB") {
+			return 3;
+		}
+		if (name === "DeviceCMYK" || name === "CMYK") {
+			return 4;
+		}
+		if (name === "ICCBased" && Array.isArray(space)) {
+			return this.number(space[1], "N");
+		}
+		return undefined;
+	}
+
+	/** A page image as a JPEG or PNG file, or why it cannot be exported. */
+	exportImage(object: PdfObject): PdfImage | string {
+		const width = this.number(object.value, "Width") ?? 0;
+		const height = this.number(object.value, "Height") ?? 0;
+		const filters = this.filters(object);
+		const codec = filters.find((filter) => IMAGE_FILTERS.has(filter));
+		if (codec === "DCTDecode") {
+			return {
+				extension: "jpg",
+				bytes: this.decode(object, true),
+				width,
+				height,
+			};
+		}
+		if (codec) {
+			return `image encoded as ${codec.replace(/Decode$/, "")}`;
+		}
+		const colors = this.colorComponents(object);
+		const bits = this.number(object.value, "BitsPerComponent") ?? 8;
+		if (colors === 4) {
+			return "CMYK image";
+		}
+		// PNG has grey and RGB pixels only; anything else would be a corrupt file.
+		if (
+			(colors !== 1 && colors !== 3) ||
+			(colors === 3 && bits !== 8) ||
+			![1, 2, 4, 8].includes(bits)
+		) {
+			return "image in an unsupported colour space";
+		}
+		const params = this.get(object.value, "DecodeParms");
+		const predictor =
+			this.number(Array.isArray(params) ? params[0] : params, "Predictor") ?? 1;
+		if (
+			predictor >= 10 &&
+			filters.length === 1 &&
+			filters[0] === "FlateDecode"
+		) {
+			// PNG predictors are PNG's own row filters, so the stream is valid IDAT data.
+			return {
+				extension: "png",
+				bytes: encodePng(
+					width,
+					height,
+					bits,
+					colors,
+					object.stream ?? new Uint8Array(),
+				),
+				width,
+				height,
+			};
+		}
+		if (predictor !== 1) {
+			return "image with an unsupported predictor";
+		}
+		const pixels = this.decode(object);
+		const rowBytes = Math.ceil((width * colors * bits) / 8);
+		const rows = new Uint8Array((rowBytes + 1) * height);
+		for (let row = 0; row < height; row++) {
+			rows.set(
+				pixels.subarray(row * rowBytes, (row + 1) * rowBytes),
+				row * (rowBytes + 1) + 1,
+			);
+		}
+		return {
+			extension: "png",
+			bytes: encodePng(width, height, bits, colors, zlibStore(rows)),
+			width,
+			height,
+		};
+	}
+
+	page(page: PdfValue): PdfPage {
+		const text = this.pageText(page);
+		if (text.length >= MIN_PAGE_TEXT) {
+			return { text };
+		}
+		const images = this.pageImages(this.inherited(page, "Resources"));
+		const largest = images
+			.map((object) => ({
+				object,
+				area:
+					(this.number(object.value, "Width") ?? 0) *
+					(this.number(object.value, "Height") ?? 0),
+			}))
+			.sort((a, b) => b.area - a.area)[0];
+		if (!largest) {
+			return { text, skipped: "no text or image; drawings are not rendered" };
+		}
+		try {
+			const image = this.exportImage(largest.object);
+			return typeof image === "string"
+				? { text, skipped: `unsupported ${image}` }
+				: { text, image };
+		} catch {
+			return { text, skipped: "page image could not be decoded" };
+		}
+	}
+}
+
+/**
+ * Reads every page of a PDF. Pages with enough embedded text carry only that
+ * text; the others carry their largest image for OCR when it can be exported,
+ * or the reason they were skipped.
+ */
+export const readPdf = (data: Uint8Array): PdfPage[] => {
+	const document = new PdfDocument(data);
+	return document.pages().map((page) => document.page(page));
+};
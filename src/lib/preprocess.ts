@@ -0,0 +1,227 @@
+import { Action, manipulateAsync, SaveFormat } from "expo-image-manipulator";
+import { Image } from "react-native";
+import { OcrBox, OcrPage } from "../types";
+import type { FrameBox } from "./autocapture";
+
+export type PreprocessStep = "orient" | "edges" | "resize" | "crop" | "deskew";
+
+/** Sheet that auto capture outlined in the camera frame a photo was taken from. */
+export type SheetOutline = {
+	box: FrameBox; // upright, in fractions of the frame
+	aspect: number; // width / height of the upright frame
+};
+
+export type PreprocessOptions = Record<PreprocessStep, boolean> & {
+	maxEdge: number; // longest side in pixels after resizing
+	rotate?: number; // extra clockwise turn, for sideways photos without EXIF
+	sheet?: SheetOutline; // paper edges to crop to before the first pass
+};
+
+export type PreparedImage = {
+	uri: string;
+	width: number;
+	height: number;
+	applied: string[]; // steps that changed the image, for logs
+};
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+	orient: true,
+	edges: true,
+	resize: true,
+	crop: true,
+	deskew: true,
+	maxEdge: 2048,
+};
+
+const MIN_SKEW_DEGREES = 1;
+const MAX_SKEW_DEGREES = 20;
+const CROP_MARGIN = 0.04; // of the image's longest side
+const MIN_CROP_SAVING = 0.15; // crop only when it removes this share of the area
+// Photo and preview formats can differ in shape; then the outline does not fit.
+const MAX_SHEET_ASPECT_ERROR = 0.03;
+
+const save = (uri: string, actions: Action[]) =>
+	manipulateAsync(uri, actions, { compress: 0.9, format: SaveFormat.PNG });
+
+const cropAction = (box: OcrBox): Action => ({
+	crop: {
+		originX: Math.round(box.left),
+		originY: Math.round(box.top),
+		width: Math.round(box.width),
+		height: Math.round(box.height),
+	},
+});
+
+const savesArea = (box: OcrBox, width: number, height: number) =>
+	box.width * box.height < width * height * (1 - MIN_CROP_SAVING);
+
+/**
+ * Pixel box of a sheet outline in an upright photo, with a margin. Undefined
+ * when the photo's shape differs from the frame the outline was found in.
+ */
+export const sheetBounds = (
+	sheet: SheetOutline,
+	width: number,
+	height: number,
+): OcrBox | undefined => {
+	if (
+		!width ||
+		!height ||
+		Math.abs(width / height - sheet.aspect) >
+			sheet.aspect * MAX_SHEET_ASPECT_ERROR
+	) {
+		return undefined;
+	}
+	const margin = Math.max(width, height) * CROP_MARGIN;
+	const left = Math.max(0, sheet.box.left * width - margin);
+	const top = Math.max(0, sheet.box.top * height - margin);
+	const right = Math.min(
+		width,
+		(sheet.box.left + sheet.box.width) * width + margin,
+	);
+	const bottom = Math.min(
+		height,
+		(sheet.box.top + sheet.box.height) * height + margin,
+	);
+	return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Orientation, paper edges, extra rotation and downscaling, done before the
+ * first OCR pass. Re-encoding bakes the EXIF orientation into the pixels, so
+ * the recogniser and the crop maths below see the photo upright. The edges
+ * come from auto capture's sheet outline; picked images have none. There is
+ * no pixel filter in the image manipulator, so grayscale and contrast are
+ * left to ML Kit's own binarisation.
+ */
+export async function prepareImage(
+	uri: string,
+	options: PreprocessOptions,
+): Promise<PreparedImage> {
+	const applied: string[] = [];
+	let image = options.orient
+		? await save(uri, [])
+		: { uri, ...(await Image.getSize(uri)) };
+	if (options.orient) {
+		applied.push("orient");
+	}
+
+	const actions: Action[] = [];
+	let { width, height } = image;
+	const sheet =
+		options.edges && options.sheet
+			? sheetBounds(options.sheet, width, height)
+			: undefined;
+	if (sheet && savesArea(sheet, width, height)) {
+		// Before the rotation: the outline is in the upright photo's frame.
+		actions.push(cropAction(sheet));
+		applied.push("edges");
+		({ width, height } = sheet);
+	}
+	if (options.rotate) {
+		actions.push({ rotate: options.rotate });
+		applied.push(`rotate ${options.rotate}°`);
+		if (options.rotate % 180 !== 0) {
+			[width, height] = [height, width];
+		}
+	}
+	const longest = Math.max(width, height);
+	if (options.resize && longest > options.maxEdge) {
+		actions.push(
+			width >= height
+				? { resize: { width: options.maxEdge } }
+				: { resize: { height: options.maxEdge } },
+		);
+		applied.push(`resize ${options.maxEdge}px`);
+	}
+	if (actions.length) {
+		image = await save(image.uri, actions);
+	}
+	return { ...image, applied };
+}
+
+const center = (box: OcrBox) => ({
+	x: box.left + box.width / 2,
+	y: box.top + box.height / 2,
+});
+
+/**
+ * Tilt of the text in degrees, clockwise positive: the median slope from the
+ * first to the last word of each line with at least two words.
+ */
+export const estimateSkew = (page: OcrPage): number => {
+	const angles = page.blocks
+		.flatMap((block) => block.lines)
+		.flatMap((line) => {
+			const boxes = line.elements
+				.map((element) => element.box)
+				.filter((box): box is OcrBox => Boolean(box));
+			if (boxes.length < 2) {
+				return [];
+			}
+			const first = center(boxes[0]);
+			const last = center(boxes[boxes.length - 1]);
+			if (last.x <= first.x) {
+				return [];
+			}
+			return [(Math.atan2(last.y - first.y, last.x - first.x) * 180) / Math.PI];
+		})
+		.sort((a, b) => a - b);
+	return angles.length ? angles[Math.floor(angles.length / 2)] : 0;
+};
+
+/**
+ * Region of the page that holds text, with a margin. It tightens the sheet
+ * outline, and stands in for it on picked images, which have none.
+ */
+export const textBounds = (page: OcrPage): OcrBox | undefined => {
+	const boxes = page.blocks
+		.map((block) => block.box)
+		.filter((box): box is OcrBox => Boolean(box));
+	if (!boxes.length || !page.width || !page.height) {
+		return undefined;
+	}
+	const margin = Math.max(page.width, page.height) * CROP_MARGIN;
+	const left = Math.max(0, Math.min(...boxes.map((box) => box.left)) - margin);
+	const top = Math.max(0, Math.min(...boxes.map((box) => box.top)) - margin);
+	const right = Math.min(
+		page.width,
+		Math.max(...boxes.map((box) => box.left + box.width)) + margin,
+	);
+	const bottom = Math.min(
+		page.height,
+		Math.max(...boxes.map((box) => box.top + box.height)) + margin,
+	);
+	return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Crop and deskew worked out from a first OCR pass. Returns undefined when the
+ * page is already straight and filled with text, so no second pass is needed.
+ */
+export async function refineImage(
+	image: PreparedImage,
+	page: OcrPage,
+	options: PreprocessOptions,
+): Promise<PreparedImage | undefined> {
+	const actions: Action[] = [];
+	const applied: string[] = [];
+	const bounds = options.crop ? textBounds(page) : undefined;
+	if (bounds && savesArea(bounds, image.width, image.height)) {
+		actions.push(cropAction(bounds));
+		applied.push("crop");
+	}
+	const skew = options.deskew ? estimateSkew(page) : 0;
+	if (
+		Math.abs(skew) >= MIN_SKEW_DEGREES &&
+		Math.abs(skew) <= MAX_SKEW_DEGREES
+	) {
+		actions.push({ rotate: -skew });
+		applied.push(`deskew ${skew.toFixed(1)}°`);
+	}
+	if (!actions.length) {
+		return undefined;
+	}
+	const refined = await save(image.uri, actions);
+	return { ...refined, applied: [...image.applied, ...applied] };
+}
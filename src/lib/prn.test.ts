@@ -0,0 +1,75 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { MedicationPlan, ScheduleEvent } from "../types";
+import { parsePrescription } from "./parse";
+import { checkPrnDose, createPrnEventId } from "./prn";
+import { expandPlan } from "./schedule";
+
+const now = dayjs("2026-10-19T20:00");
+
+const parsePlan = (text: string) => {
+	const { plans } = parsePrescription(text, { referenceDate: now });
+	return plans[0];
+};
+
+describe("as-needed daily caps", () => {
+	it("converts a cap in mg into tablets through the strength", () => {
+		const { plan } = parsePlan(
+			"Ibuprofen 400 mg 1-2 tabs as needed, max 1200 mg per day",
+		);
+		expect(plan.instructions[0].prnLimits?.maxAmountPerDay).toBe(3);
+
+		const taken = (hour: number, amount: number): ScheduleEvent => {
+			const at = now.hour(hour).minute(0);
+			return {
+				id: createPrnEventId(plan.id, 0, at),
+				medPlanId: plan.id,
+				at: at.toISOString(),
+				dose: `${amount} tab`,
+				amount,
+				status: "taken",
+			};
+		};
+		const events = [taken(8, 2)];
+		expect(checkPrnDose(plan, 0, events, 1, now).allowed).toBe(true);
+		expect(checkPrnDose(plan, 0, events, 2, now).allowed).toBe(false);
+	});
+
+	it("keeps a cap already in the dose unit", () => {
+		const { plan } = parsePlan(
+			"Ibuprofen 400 mg as needed, max 1200 mg per day",
+		);
+		expect(plan.instructions[0].prnLimits?.maxAmountPerDay).toBe(1200);
+	});
+
+	it("flags a cap that cannot be counted in the dose unit", () => {
+		const { plan, instructionFields } = parsePlan(
+			"Paracetamol syrup 5 ml as needed, max 2 g per day",
+		);
+		expect(plan.instructions[0].prnLimits?.maxAmountPerDay).toBeUndefined();
+		expect(instructionFields[0].prnLimits?.confidence).toBeLessThan(0.6);
+	});
+});
+
+describe("as-needed doses at fixed times", () => {
+	it("counts doses taken at the fixed times toward the cap", () => {
+		const plan: MedicationPlan = {
+			id: "plan-ibuprofen",
+			name: "Ibuprofen",
+			instructions: [
+				{
+					dose: { amount: 1, unit: "tab" },
+					frequency: "BID",
+					timesOfDay: ["08:00", "14:00"],
+					prn: true,
+					prnLimits: { maxDosesPerDay: 2 },
+				},
+			],
+		};
+		const events = expandPlan(plan, now.startOf("day"), 1).map(
+			(event): ScheduleEvent => ({ ...event, status: "taken" }),
+		);
+		expect(events).toHaveLength(2);
+		expect(checkPrnDose(plan, 0, events, 1, now).allowed).toBe(false);
+	});
+});
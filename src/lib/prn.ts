@@ -0,0 +1,132 @@
+import dayjs, { Dayjs } from "dayjs";
+import { DosageInstruction, MedicationPlan, ScheduleEvent } from "../types";
+import { scheduledEventPrefix } from "./schedule";
+
+export type PrnCheck = {
+	allowed: boolean;
+	reason?: string;
+	nextAllowedAt?: Dayjs; // earliest moment every limit is satisfied again
+};
+
+const prnEventPrefix = (planId: string, instructionIndex: number) =>
+	`${planId}-prn-${instructionIndex}-`;
+
+/** Keeps the plan prefix so removing the plan also clears its logged doses. */
+export const createPrnEventId = (
+	planId: string,
+	instructionIndex: number,
+	at: Dayjs,
+): string => `${prnEventPrefix(planId, instructionIndex)}${at.valueOf()}`;
+
+export const isPrnInstruction = (instruction: DosageInstruction) =>
+	instruction.frequency === "PRN" || Boolean(instruction.prn);
+
+/**
+ * Doses of an as-needed instruction taken within the 24 hours before `now`,
+ * both logged as needed and taken at one of its fixed times.
+ */
+export const takenInLastDay = (
+	plan: MedicationPlan,
+	instructionIndex: number,
+	events: ScheduleEvent[],
+	now: Dayjs = dayjs(),
+): ScheduleEvent[] => {
+	const prefixes = [
+		prnEventPrefix(plan.id, instructionIndex),
+		scheduledEventPrefix(plan.id, instructionIndex),
+	];
+	const since = now.subtract(24, "hour");
+	return events
+		.filter(
+			(event) =>
+				event.medPlanId === plan.id &&
+				prefixes.some((prefix) => event.id.startsWith(prefix)) &&
+				event.status === "taken" &&
+				dayjs(event.at).isAfter(since) &&
+				!dayjs(event.at).isAfter(now),
+		)
+		.sort((a, b) => dayjs(a.at).valueOf() - dayjs(b.at).valueOf());
+};
+
+const capitalize = (text: string) =>
+	text.charAt(0).toUpperCase() + text.slice(1);
+
+const latest = (moments: Dayjs[]): Dayjs | undefined =>
+	moments.reduce<Dayjs | undefined>(
+		(result, moment) => (!result || moment.isAfter(result) ? moment : result),
+		undefined,
+	);
+
+/**
+ * Checks whether another as-needed dose fits the instruction's limits, counted
+ * over a rolling 24 hours rather than the calendar day.
+ */
+export const checkPrnDose = (
+	plan: MedicationPlan,
+	instructionIndex: number,
+	events: ScheduleEvent[],
+	amount: number,
+	now: Dayjs = dayjs(),
+): PrnCheck => {
+	const instruction = plan.instructions[instructionIndex];
+	const limits = instruction?.prnLimits;
+	if (!limits) {
+		return { allowed: true };
+	}
+
+	const taken = takenInLastDay(plan, instructionIndex, events, now);
+	const amountOf = (event: ScheduleEvent) =>
+		event.amount ?? instruction.dose.amount;
+	const reasons: string[] = [];
+	const waits: Dayjs[] = [];
+
+	if (
+		limits.maxDosesPerDay !== undefined &&
+		taken.length >= limits.maxDosesPerDay
+	) {
+		reasons.push(`already ${limits.maxDosesPerDay} doses in the last 24 hours`);
+		const freeing = taken[taken.length - limits.maxDosesPerDay];
+		if (freeing) {
+			waits.push(dayjs(freeing.at).add(24, "hour"));
+		}
+	}
+
+	const maxAmount = limits.maxAmountPerDay;
+	if (maxAmount !== undefined) {
+		let total = taken.reduce((sum, event) => sum + amountOf(event), 0);
+		if (total + amount > maxAmount) {
+			reasons.push(
+				`this would go over ${maxAmount} ${instruction.dose.unit} in 24 hours`,
+			);
+			// Wait until enough of the oldest doses drop out of the window.
+			const freeing = taken.find((event) => {
+				total -= amountOf(event);
+				return total + amount <= maxAmount;
+			});
+			if (freeing) {
+				waits.push(dayjs(freeing.at).add(24, "hour"));
+			}
+		}
+	}
+
+	if (limits.minIntervalHours !== undefined && taken.length) {
+		const allowedAt = dayjs(taken[taken.length - 1].at).add(
+			limits.minIntervalHours,
+			"hour",
+		);
+		if (allowedAt.isAfter(now)) {
+			reasons.push(
+				`less than ${limits.minIntervalHours} h since the last dose`,
+			);
+			waits.push(allowedAt);
+		}
+	}
+
+	return reasons.length
+		? {
+				allowed: false,
+				reason: capitalize(reasons.join("; ")),
+				nextAllowedAt: latest(waits),
+			}
+		: { allowed: true };
+};
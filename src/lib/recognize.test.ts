@@ -0,0 +1,129 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import recordedFixtures from "../../fixtures/ocr/fixtures.json";
+import { OcrEngine } from "../types";
+import {
+	createFixtureEngine,
+	imageHash,
+	MissingFixtureError,
+	OcrFixtures,
+	recordFixtures,
+} from "./ocrEngines/fixture";
+import { mergePageDocuments } from "./pages";
+import { parsePrescription } from "./parse";
+import { ImagePipeline, recognizeImage } from "./recognize";
+import { expandPlan } from "./schedule";
+
+const FIXTURES = path.resolve(__dirname, "../../fixtures/ocr");
+const fixturePath = (name: string) => path.join(FIXTURES, name);
+const readBytes = async (uri: string) => new Uint8Array(await readFile(uri));
+
+const fixtureEngine = createFixtureEngine(recordedFixtures, readBytes);
+
+describe("fixture OCR engine", () => {
+	it("runs a two-page capture through review and scheduling", async () => {
+		const documents = await Promise.all(
+			["prescription-page-1.png", "prescription-page-2.png"].map((name) =>
+				recognizeImage(fixtureEngine, fixturePath(name)),
+			),
+		);
+		const document = mergePageDocuments(documents);
+		expect(document.pages).toHaveLength(2);
+
+		const referenceDate = dayjs("2026-10-19T08:00");
+		const { plans } = parsePrescription(document.text, {
+			referenceDate,
+			locales: ["en"],
+		});
+		expect(
+			plans.map(({ plan }) => [plan.name, plan.sourcePage, plan.strength]),
+		).toEqual([
+			["Amoxicillin", 1, "500 mg"],
+			["Ibuprofen", 1, "400 mg"],
+			["Vitamin D", 2, "50000 IU"],
+		]);
+
+		const [amoxicillin, ibuprofen, vitaminD] = plans.map(({ plan }) => plan);
+		expect(expandPlan(amoxicillin, referenceDate, 14)).toHaveLength(21);
+		expect(ibuprofen.instructions[0].frequency).toBe("PRN");
+		expect(ibuprofen.instructions[0].prnLimits?.maxAmountPerDay).toBe(3);
+		expect(vitaminD.instructions[0].weekdays?.everyWeeks).toBe(2);
+	});
+
+	it("fails loudly for an image without a fixture", async () => {
+		const engine = createFixtureEngine({}, readBytes);
+		await expect(
+			engine.recognize(fixturePath("prescription-page-1.png")),
+		).rejects.toBeInstanceOf(MissingFixtureError);
+	});
+
+	it("replays what a recording engine saw", async () => {
+		const live: OcrEngine = {
+			name: "live",
+			preprocess: true,
+			recognize: async () => ({ text: "Aspirin 100 mg", page: { blocks: [] } }),
+		};
+		const recorded: OcrFixtures = {};
+		const recorder = recordFixtures(live, readBytes, (hash, fixture) => {
+			recorded[hash] = fixture;
+		});
+		const uri = fixturePath("prescription-page-2.png");
+		await recognizeImage(recorder, uri);
+
+		const hash = imageHash(await readBytes(uri));
+		expect(Object.keys(recorded)).toEqual([hash]);
+		const replay = createFixtureEngine(recorded, readBytes);
+		expect((await recognizeImage(replay, uri)).text).toBe("Aspirin 100 mg");
+	});
+});
+
+describe("preprocessing passes", () => {
+	const pipeline: ImagePipeline = {
+		options: {
+			orient: true,
+			edges: false,
+			resize: true,
+			crop: false,
+			deskew: false,
+			maxEdge: 2048,
+		},
+		prepare: async (uri, options) => ({
+			uri: options.rotate ? `${uri}#rotate${options.rotate}` : uri,
+			width: 100,
+			height: 100,
+			applied: options.rotate ? [`rotate ${options.rotate}°`] : [],
+		}),
+		refine: async () => undefined,
+	};
+
+	it("retries alternates while a pass finds little text", async () => {
+		const seen: string[] = [];
+		const engine: OcrEngine = {
+			name: "sideways",
+			preprocess: true,
+			recognize: async (uri) => {
+				seen.push(uri);
+				return {
+					text: uri.endsWith("#rotate90") ? "Metformin 850 mg twice a day" : "",
+					page: { blocks: [] },
+				};
+			},
+		};
+		const document = await recognizeImage(engine, "photo.jpg", pipeline);
+		expect(document.text).toBe("Metformin 850 mg twice a day");
+		expect(document.preprocessing).toEqual(["rotate 90°"]);
+		expect(seen).toEqual(["photo.jpg", "photo.jpg", "photo.jpg#rotate90"]);
+	});
+
+	it("skips the pipeline for engines keyed on the original file", async () => {
+		const document = await recognizeImage(
+			fixtureEngine,
+			fixturePath("prescription-page-2.png"),
+			pipeline,
+		);
+		expect(document.preprocessing).toEqual([]);
+		expect(document.text).toBe("Vitamin D 50000 IU every 2 weeks");
+	});
+});
@@ -0,0 +1,113 @@
+import { OcrDocument, OcrEngine, OcrPage } from "../types";
+import type { PreparedImage, PreprocessOptions } from "./preprocess";
+
+/**
+ * Tried in order when the first pass finds little text: the full-resolution
+ * image for small print, then quarter turns for photos taken sideways.
+ */
+export const ALTERNATE_PREPROCESS: Partial<PreprocessOptions>[] = [
+	{ resize: false },
+	{ rotate: 90 },
+	{ rotate: 270 },
+];
+
+// Below this many characters a pass counts as a failed read.
+export const MIN_OCR_TEXT_LENGTH = 20;
+
+/**
+ * Image steps done on the device. Kept apart from the engine loop so it also
+ * runs under Node, where there is no image manipulator.
+ */
+export type ImagePipeline = {
+	options: PreprocessOptions;
+	prepare: (uri: string, options: PreprocessOptions) => Promise<PreparedImage>;
+	refine: (
+		image: PreparedImage,
+		page: OcrPage,
+		options: PreprocessOptions,
+	) => Promise<PreparedImage | undefined>;
+};
+
+const recognizePage = async (
+	engine: OcrEngine,
+	uri: string,
+	image?: PreparedImage,
+): Promise<OcrDocument> => {
+	const { text, page } = await engine.recognize(
+		uri,
+		image && { width: image.width, height: image.height },
+	);
+	return { text, pages: [page], preprocessing: image?.applied ?? [] };
+};
+
+/**
+ * One pass of the pipeline: prepare the image, read it, then crop and deskew
+ * from the text geometry and read again if that changed anything.
+ */
+const runPass = async (
+	engine: OcrEngine,
+	uri: string,
+	options: PreprocessOptions,
+	pipeline: ImagePipeline,
+): Promise<OcrDocument> => {
+	let image: PreparedImage | undefined;
+	try {
+		image = await pipeline.prepare(uri, options);
+	} catch (error) {
+		// Preprocessing is a best-effort improvement only.
+		console.warn("[ocr] Preprocessing skipped:", error);
+	}
+
+	const first = await recognizePage(engine, image?.uri ?? uri, image);
+	if (!image) {
+		return first;
+	}
+	try {
+		const refined = await pipeline.refine(image, first.pages[0], options);
+		if (!refined) {
+			return first;
+		}
+		const second = await recognizePage(engine, refined.uri, refined);
+		return second.text.length >= first.text.length ? second : first;
+	} catch (error) {
+		console.warn("[ocr] Crop and deskew skipped:", error);
+		return first;
+	}
+};
+
+/**
+ * Reads one image with an engine. Without a pipeline, or for engines that opt
+ * out of preprocessing, the original file is read once; otherwise alternate
+ * preprocessing is tried while a pass finds little text, and the longest read
+ * wins.
+ */
+export const recognizeImage = async (
+	engine: OcrEngine,
+	uri: string,
+	pipeline?: ImagePipeline,
+): Promise<OcrDocument> => {
+	if (!pipeline || !engine.preprocess) {
+		return recognizePage(engine, uri);
+	}
+	const { options } = pipeline;
+	let best = await runPass(engine, uri, options, pipeline);
+	for (const alternate of ALTERNATE_PREPROCESS) {
+		if (best.text.length >= MIN_OCR_TEXT_LENGTH) {
+			break;
+		}
+		try {
+			const retry = await runPass(
+				engine,
+				uri,
+				{ ...options, ...alternate },
+				pipeline,
+			);
+			if (retry.text.length > best.text.length) {
+				best = retry;
+			}
+		} catch (error) {
+			console.warn("[ocr] Alternate preprocessing failed:", error);
+		}
+	}
+	return best;
+};
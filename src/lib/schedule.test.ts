@@ -0,0 +1,40 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { MedicationPlan } from "../types";
+import { planCycleDay } from "./schedule";
+
+const plan: MedicationPlan = {
+	id: "plan-cycle",
+	name: "Contraceptive",
+	startDate: "2026-10-01",
+	instructions: [
+		{
+			dose: { amount: 1, unit: "tab" },
+			frequency: "QD",
+			durationDays: 10,
+		},
+		{
+			dose: { amount: 1, unit: "tab" },
+			frequency: "QD",
+			cycle: { daysOn: 21, daysOff: 7 },
+			phase: 1,
+		},
+	],
+};
+
+describe("planCycleDay", () => {
+	it("counts a cycle without a start date from its phase start", () => {
+		expect(
+			planCycleDay(plan, plan.instructions[1], dayjs("2026-10-11T09:00")),
+		).toEqual({ day: 1, length: 28, active: true });
+		expect(
+			planCycleDay(plan, plan.instructions[1], dayjs("2026-11-02T09:00")),
+		).toEqual({ day: 23, length: 28, active: false });
+	});
+
+	it("has no cycle day before the phase starts", () => {
+		expect(
+			planCycleDay(plan, plan.instructions[1], dayjs("2026-10-05T09:00")),
+		).toBeUndefined();
+	});
+});
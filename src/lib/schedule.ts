@@ -1,5 +1,18 @@
-import { Dayjs } from "dayjs";
-import { Frequency, MedicationPlan, ScheduleEvent } from "../types";
+import dayjs, { Dayjs } from "dayjs";
+import {
+	CycleRule,
+	DosageInstruction,
+	Frequency,
+	IntervalRule,
+	MealTiming,
+	MedicationPlan,
+	Routine,
+	RoutineAnchor,
+	ScheduleEvent,
+	Weekday,
+} from "../types";
+import { getVocabulary, listLocales } from "./locales";
+import { describeSite, isInjectable } from "./sites";
 
 const DEFAULT_WINDOW_MINS = 30;
 
@@ -12,114 +25,590 @@ const DEFAULT_TIMES: Record<Frequency, string[]> = {
 	QAM: ["08:00"],
 	QPM: ["20:00"],
 	QOD: ["09:00"],
+	QW: ["09:00"],
+	INTERVAL: ["08:00"], // default anchor for the first dose
 	PRN: [],
 };
 
-const makeDoseLabel = (
-	plan: MedicationPlan,
-	instructionIndex: number,
-): string => {
-	const instruction = plan.instructions[instructionIndex];
-	const amount = instruction.dose.amount;
-	const unit = instruction.dose.unit;
+/** Dose label such as "1 tab" or "1–2 tabs"; a range takes the plural of its upper bound. */
+export const formatDose = (dose: DosageInstruction["dose"]): string => {
+	const amount = dose.maxAmount ?? dose.amount;
+	const unit = dose.unit;
 	const formattedUnit = (() => {
 		switch (unit) {
 			case "tab":
 				return amount === 1 ? "tab" : "tabs";
 			case "caps":
 				return amount === 1 ? "cap" : "caps";
-			case "ml":
-			case "mg":
-				return unit;
 			case "drops":
 				return amount === 1 ? "drop" : "drops";
 			case "sprays":
 				return amount === 1 ? "spray" : "sprays";
+			case "puffs":
+				return amount === 1 ? "puff" : "puffs";
+			case "patches":
+				return amount === 1 ? "patch" : "patches";
+			case "sachets":
+				return amount === 1 ? "sachet" : "sachets";
+			case "supp":
+				return amount === 1 ? "suppository" : "suppositories";
+			case "units":
+				return amount === 1 ? "unit" : "units";
 			default:
+				// Measures such as mg, mcg, g, ml and IU read the same in the plural.
 				return unit;
 		}
 	})();
-	return `${amount} ${formattedUnit}`;
+	const quantity =
+		dose.maxAmount !== undefined
+			? `${dose.amount}–${dose.maxAmount}`
+			: `${dose.amount}`;
+	return `${quantity} ${formattedUnit}`;
+};
+
+/**
+ * Tasks have no dose, so their events carry the directive instead. A fixed site
+ * ("left eye") is part of the label; rotating injection sites are picked per dose.
+ */
+const makeDoseLabel = (
+	plan: MedicationPlan,
+	instructionIndex: number,
+): string => {
+	if (plan.kind === "task") {
+		return plan.name;
+	}
+	const dose = formatDose(plan.instructions[instructionIndex].dose);
+	const site = plan.site && !isInjectable(plan) ? describeSite(plan.site) : "";
+	return site ? `${dose} · ${site}` : dose;
+};
+
+export const DEFAULT_ROUTINE: Routine = {
+	wake: "07:00",
+	breakfast: "08:00",
+	lunch: "13:00",
+	dinner: "19:00",
+	bed: "22:30",
 };
 
+// Which parts of the routine each frequency's doses fall on when tied to meals.
+const MEAL_SLOTS: Partial<Record<Frequency, RoutineAnchor[]>> = {
+	QD: ["breakfast"],
+	BID: ["breakfast", "dinner"],
+	TID: ["breakfast", "lunch", "dinner"],
+	QID: ["breakfast", "lunch", "dinner", "bed"],
+	QAM: ["breakfast"],
+	QPM: ["dinner"],
+	QHS: ["bed"],
+	QOD: ["breakfast"],
+	QW: ["breakfast"],
+};
+
+const DEFAULT_MEAL_OFFSET_MINS = 30;
+
+const shiftClock = (time: string, minutes: number): string => {
+	const [hour, minute] = parseClock(time);
+	const total = (((hour * 60 + minute + minutes) % 1440) + 1440) % 1440;
+	return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(
+		total % 60,
+	).padStart(2, "0")}`;
+};
+
+/** The meal timing an instruction asks for, falling back to its before/after-meal hint. */
+const mealTimingFor = (
+	instruction: DosageInstruction,
+): MealTiming | undefined => {
+	if (instruction.mealTiming) {
+		return instruction.mealTiming;
+	}
+	if (instruction.when?.includes("BEFORE_MEAL")) {
+		return { offsetMins: -DEFAULT_MEAL_OFFSET_MINS };
+	}
+	if (instruction.when?.includes("AFTER_MEAL")) {
+		return { offsetMins: DEFAULT_MEAL_OFFSET_MINS };
+	}
+	return undefined;
+};
+
+/**
+ * Clock times for each dose of the day. Explicit times win; meal-relative
+ * instructions follow the patient's routine; anything else uses the defaults.
+ */
 const timesForInstruction = (
-	frequency: Frequency,
-	times?: string[],
+	instruction: DosageInstruction,
+	routine: Routine,
 ): string[] => {
-	if (times && times.length) {
-		return Array.from(new Set(times)).sort();
+	const { frequency, timesOfDay } = instruction;
+	if (timesOfDay && timesOfDay.length) {
+		return Array.from(new Set(timesOfDay)).sort();
+	}
+	const mealTiming = mealTimingFor(instruction);
+	if (mealTiming && frequency !== "PRN" && frequency !== "INTERVAL") {
+		const anchors = mealTiming.anchors?.length
+			? mealTiming.anchors
+			: (MEAL_SLOTS[frequency] ?? MEAL_SLOTS.QD ?? []);
+		return Array.from(
+			new Set(
+				anchors.map((anchor) =>
+					shiftClock(routine[anchor], mealTiming.offsetMins),
+				),
+			),
+		).sort();
 	}
 	return DEFAULT_TIMES[frequency] ?? DEFAULT_TIMES.QD;
 };
 
-const shouldIncludeDay = (frequency: Frequency, dayOffset: number): boolean => {
-	if (frequency === "QOD") {
-		return dayOffset % 2 === 0;
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Short human-readable frequency, e.g. "BID", "q6h" or "QW Mon · every 2 wk". */
+export const describeFrequency = (instruction: DosageInstruction): string => {
+	const base =
+		instruction.frequency === "INTERVAL" && instruction.interval
+			? `q${instruction.interval.everyHours}h`
+			: instruction.frequency;
+	const parts = [base];
+	if (instruction.weekdays?.days?.length) {
+		parts.push(
+			instruction.weekdays.days.map((day) => WEEKDAY_LABELS[day]).join(", "),
+		);
+	}
+	if ((instruction.weekdays?.everyWeeks ?? 1) > 1) {
+		parts.push(`every ${instruction.weekdays?.everyWeeks} wk`);
+	}
+	return parts.join(" · ");
+};
+
+const parseClock = (time: string): [number, number] => {
+	const [hourString, minuteString] = time.split(":");
+	return [Number.parseInt(hourString, 10), Number.parseInt(minuteString, 10)];
+};
+
+/**
+ * Lays doses out every N hours on a continuous timeline from the anchor on the
+ * first course day, so e.g. q5h from 08:00 continues at 04:00 the next day.
+ */
+const intervalOccurrences = (
+	interval: IntervalRule,
+	courseStart: Dayjs,
+	courseEnd: Dayjs,
+): Dayjs[] => {
+	const occurrences: Dayjs[] = [];
+	if (interval.everyHours <= 0) {
+		return occurrences;
+	}
+	const [hour, minute] = parseClock(
+		interval.anchor ?? DEFAULT_TIMES.INTERVAL[0],
+	);
+	let cursor = courseStart.hour(hour).minute(minute).second(0);
+	while (cursor.isBefore(courseEnd)) {
+		occurrences.push(cursor);
+		cursor = cursor.add(interval.everyHours, "hour");
+	}
+	return occurrences;
+};
+
+export type CycleDay = {
+	day: number; // 1-based position within the current cycle
+	length: number;
+	active: boolean;
+};
+
+/** Where a date falls within an on/off cycle, or undefined before it starts. */
+export const cycleDayOn = (
+	cycle: CycleRule,
+	date: Dayjs,
+	fallbackStart: Dayjs = date,
+): CycleDay | undefined => {
+	const start = cycle.startDate ? dayjs(cycle.startDate) : fallbackStart;
+	const length = cycle.daysOn + cycle.daysOff;
+	const elapsed = date.startOf("day").diff(start.startOf("day"), "day");
+	if (elapsed < 0 || length <= 0) {
+		return undefined;
+	}
+	const position = elapsed % length;
+	return { day: position + 1, length, active: position < cycle.daysOn };
+};
+
+/**
+ * Decides whether an instruction doses on a given date. `courseDay` counts days
+ * from the start of the instruction's phase.
+ */
+const shouldIncludeDay = (
+	instruction: DosageInstruction,
+	courseDay: number,
+	date: Dayjs,
+): boolean => {
+	if (instruction.cycle) {
+		const position = cycleDayOn(
+			instruction.cycle,
+			date,
+			date.subtract(courseDay, "day"),
+		);
+		if (!position?.active) {
+			return false;
+		}
+	}
+	if (instruction.frequency === "QOD") {
+		return courseDay % 2 === 0;
+	}
+	const rule =
+		instruction.weekdays ?? (instruction.frequency === "QW" ? {} : undefined);
+	if (rule) {
+		const courseStart = date.subtract(courseDay, "day");
+		const days = rule.days?.length ? rule.days : [courseStart.day()];
+		if (!days.includes(date.day() as Weekday)) {
+			return false;
+		}
+		const everyWeeks = Math.max(rule.everyWeeks ?? 1, 1);
+		const weekIndex = Math.floor(
+			date.diff(courseStart.startOf("week"), "day") / 7,
+		);
+		return weekIndex % everyWeeks === 0;
 	}
 	return true;
 };
 
+/** "50 mg" as a dose, when the unit is one a dose can be given in. */
+export const strengthAsDose = (
+	strength: string,
+): DosageInstruction["dose"] | undefined => {
+	const match = strength.match(/^(\d+(?:[.,]\d+)?)\s*(\S+)$/);
+	if (!match) {
+		return undefined;
+	}
+	const { doseUnits } = getVocabulary(listLocales().map((pack) => pack.code));
+	const unit = doseUnits[match[2].toLowerCase()];
+	const amount = Number.parseFloat(match[1].replace(",", "."));
+	return unit && amount > 0 ? { amount, unit } : undefined;
+};
+
+// Doses of the active substance itself; a pack of them is counted in tablets
+// or capsules of the plan's strength.
+export const SUBSTANCE_DOSE_UNITS: DosageInstruction["dose"]["unit"][] = [
+	"mg",
+	"mcg",
+	"g",
+	"IU",
+	"units",
+];
+
+/**
+ * How many scheduled doses a dispensed quantity covers, if one is known. A pack
+ * of "500 mg" doses is converted through the strength; without a strength in
+ * the dose unit it covers an unknown number of doses.
+ */
+export const doseLimit = (
+	instruction: DosageInstruction,
+	strength?: string,
+): number | undefined => {
+	const { quantity, dose } = instruction;
+	if (
+		quantity === undefined ||
+		dose.amount <= 0 ||
+		instruction.frequency === "PRN"
+	) {
+		return undefined;
+	}
+	if (!SUBSTANCE_DOSE_UNITS.includes(dose.unit)) {
+		return Math.floor(quantity / dose.amount);
+	}
+	const item = strength ? strengthAsDose(strength) : undefined;
+	return item?.unit === dose.unit
+		? Math.floor((quantity * item.amount) / dose.amount)
+		: undefined;
+};
+
+/**
+ * Estimates how many days a dispensed quantity lasts, so a phase that ends when
+ * the pack runs out can be followed by the next one.
+ */
+const supplyDays = (
+	instruction: DosageInstruction,
+	strength?: string,
+): number | undefined => {
+	const doses = doseLimit(instruction, strength);
+	if (doses === undefined) {
+		return undefined;
+	}
+	const perDay =
+		instruction.frequency === "INTERVAL" && instruction.interval
+			? 24 / instruction.interval.everyHours
+			: timesForInstruction(instruction, DEFAULT_ROUTINE).length;
+	const cycle = instruction.cycle;
+	const activeShare =
+		(instruction.frequency === "QOD" ? 1 / 2 : 1) *
+		(instruction.weekdays?.days?.length
+			? instruction.weekdays.days.length / 7
+			: instruction.frequency === "QW"
+				? 1 / 7
+				: 1) *
+		(cycle ? cycle.daysOn / (cycle.daysOn + cycle.daysOff) : 1);
+	const dosesPerDay = perDay * activeShare;
+	return dosesPerDay > 0 ? Math.ceil(doses / dosesPerDay) : undefined;
+};
+
+/**
+ * Returns the day offset each phase starts on. A phase without a duration runs
+ * indefinitely, so every phase after it starts beyond any horizon.
+ */
+const phaseStartOffsets = (plan: MedicationPlan): Map<number, number> => {
+	const durations = new Map<number, number>();
+	plan.instructions.forEach((instruction) => {
+		const phase = instruction.phase ?? 0;
+		const duration =
+			instruction.durationDays ??
+			supplyDays(instruction, plan.strength) ??
+			Number.POSITIVE_INFINITY;
+		durations.set(phase, Math.max(durations.get(phase) ?? 0, duration));
+	});
+
+	const starts = new Map<number, number>();
+	let offset = 0;
+	Array.from(durations.keys())
+		.sort((a, b) => a - b)
+		.forEach((phase) => {
+			starts.set(phase, offset);
+			offset += durations.get(phase) ?? 0;
+		});
+	return starts;
+};
+
+type InstructionWindow = {
+	from: Dayjs; // first course day of the instruction
+	until?: Dayjs; // first day after it ends
+};
+
+/**
+ * Resolves where an instruction runs in calendar terms: the plan's start date
+ * (or the scheduling day) plus its phase offset, unless the instruction has
+ * absolute dates of its own, clipped by the plan's end date.
+ */
+const instructionWindow = (
+	plan: MedicationPlan,
+	instruction: DosageInstruction,
+	phaseStarts: Map<number, number>,
+	fallbackStart: Dayjs,
+): InstructionWindow | undefined => {
+	const courseStart = plan.startDate
+		? dayjs(plan.startDate)
+		: fallbackStart.startOf("day");
+	const phaseStart = phaseStarts.get(instruction.phase ?? 0) ?? 0;
+	if (!instruction.startDate && !Number.isFinite(phaseStart)) {
+		return undefined;
+	}
+	const from = instruction.startDate
+		? dayjs(instruction.startDate)
+		: courseStart.add(phaseStart, "day");
+
+	const limits = [
+		instruction.durationDays !== undefined
+			? from.add(instruction.durationDays, "day")
+			: undefined,
+		instruction.endDate ? dayjs(instruction.endDate).add(1, "day") : undefined,
+		plan.endDate ? dayjs(plan.endDate).add(1, "day") : undefined,
+	].filter((limit): limit is Dayjs => Boolean(limit));
+	const until = limits.length
+		? limits.reduce((earliest, limit) =>
+				limit.isBefore(earliest) ? limit : earliest,
+			)
+		: undefined;
+	return { from, until };
+};
+
+/**
+ * Where an instruction of a plan is in its cycle on a date. A cycle without a
+ * start date counts from its phase start, as when the plan is scheduled.
+ */
+export const planCycleDay = (
+	plan: MedicationPlan,
+	instruction: DosageInstruction,
+	date: Dayjs,
+): CycleDay | undefined => {
+	if (!instruction.cycle) {
+		return undefined;
+	}
+	const window = instructionWindow(
+		plan,
+		instruction,
+		phaseStartOffsets(plan),
+		date,
+	);
+	if (!window || (window.until && !date.isBefore(window.until, "day"))) {
+		return undefined;
+	}
+	return cycleDayOn(instruction.cycle, date, window.from);
+};
+
+/**
+ * Pins cycles without an explicit start to the day their phase begins, so the
+ * cycle day stays stable after the plan is saved.
+ */
+export const withCycleStartDates = (
+	plan: MedicationPlan,
+	start: Dayjs,
+): MedicationPlan => {
+	const phaseStarts = phaseStartOffsets(plan);
+	return {
+		...plan,
+		instructions: plan.instructions.map((instruction) => {
+			if (!instruction.cycle || instruction.cycle.startDate) {
+				return instruction;
+			}
+			const window = instructionWindow(plan, instruction, phaseStarts, start);
+			return window
+				? {
+						...instruction,
+						cycle: {
+							...instruction.cycle,
+							startDate: window.from.format("YYYY-MM-DD"),
+						},
+					}
+				: instruction;
+		}),
+	};
+};
+
+/** Start of the id of every scheduled event of one instruction. */
+export const scheduledEventPrefix = (
+	planId: string,
+	instructionIndex: number,
+) => `${planId}-${instructionIndex}-`;
+
+/**
+ * Keyed by calendar date rather than day offset so a plan rescheduled later
+ * (e.g. after a dose change) never reuses the id of an earlier event.
+ */
 const createEventId = (
 	planId: string,
 	instructionIndex: number,
-	dayOffset: number,
-	time: string,
-): string => {
-	const sanitized = time.replace(":", "");
-	return `${planId}-${instructionIndex}-${dayOffset}-${sanitized}`;
-};
+	occurrence: Dayjs,
+): string =>
+	`${scheduledEventPrefix(planId, instructionIndex)}${occurrence.format("YYYYMMDD-HHmm")}`;
 
 export const expandPlan = (
 	plan: MedicationPlan,
 	start: Dayjs,
 	horizonDays: number,
+	routine: Routine = DEFAULT_ROUTINE,
 ): ScheduleEvent[] => {
 	const startOfDay = start.startOf("day");
+	const horizonEnd = startOfDay.add(horizonDays, "day");
 	const events: ScheduleEvent[] = [];
+	const phaseStarts = phaseStartOffsets(plan);
+
+	if (plan.startsWith && !plan.startDate) {
+		// Waiting for a start date the prescription only describes (e.g. next period).
+		return events;
+	}
 
 	plan.instructions.forEach((instruction, instructionIndex) => {
-		const times = timesForInstruction(
-			instruction.frequency,
-			instruction.timesOfDay,
-		);
+		const times = timesForInstruction(instruction, routine);
 		if (instruction.frequency === "PRN" && times.length === 0) {
 			// As-needed medications without defined times are surfaced without scheduling.
 			return;
 		}
 
-		const durationLimit = instruction.durationDays ?? horizonDays;
+		const window = instructionWindow(
+			plan,
+			instruction,
+			phaseStarts,
+			startOfDay,
+		);
+		if (!window) {
+			return;
+		}
+
+		const pushEvent = (occurrence: Dayjs) => {
+			events.push({
+				id: createEventId(plan.id, instructionIndex, occurrence),
+				medPlanId: plan.id,
+				at: occurrence.toISOString(),
+				windowMins:
+					instruction.frequency === "PRN" ? undefined : DEFAULT_WINDOW_MINS,
+				dose: makeDoseLabel(plan, instructionIndex),
+				amount: instruction.dose.amount,
+				condition: instruction.condition,
+				status: "scheduled",
+			});
+		};
+
+		// With a dispensed quantity the course ends after its last dose, counting
+		// doses due before the scheduling day as already taken from the pack.
+		const limit = doseLimit(instruction, plan.strength);
+
+		if (instruction.frequency === "INTERVAL" && instruction.interval) {
+			const courseEnd =
+				window.until && window.until.isBefore(horizonEnd)
+					? window.until
+					: horizonEnd;
+			intervalOccurrences(instruction.interval, window.from, courseEnd)
+				.slice(0, limit)
+				.filter((occurrence) => !occurrence.isBefore(startOfDay))
+				.forEach(pushEvent);
+			return;
+		}
 
-		for (let dayOffset = 0; dayOffset < horizonDays; dayOffset += 1) {
-			if (dayOffset >= durationLimit) {
+		let remaining = limit ?? Number.POSITIVE_INFINITY;
+		const firstOffset =
+			limit === undefined
+				? 0
+				: Math.min(0, window.from.diff(startOfDay, "day"));
+		for (
+			let dayOffset = firstOffset;
+			dayOffset < horizonDays && remaining > 0;
+			dayOffset += 1
+		) {
+			const date = startOfDay.add(dayOffset, "day");
+			if (date.isBefore(window.from)) {
+				continue;
+			}
+			if (window.until && !date.isBefore(window.until)) {
 				break;
 			}
 
-			if (!shouldIncludeDay(instruction.frequency, dayOffset)) {
+			if (!shouldIncludeDay(instruction, date.diff(window.from, "day"), date)) {
 				continue;
 			}
 
-			times.forEach((time) => {
-				const [hourString, minuteString] = time.split(":");
-				const hour = Number.parseInt(hourString, 10);
-				const minute = Number.parseInt(minuteString, 10);
-				const occurrence = startOfDay
-					.add(dayOffset, "day")
-					.hour(hour)
-					.minute(minute)
-					.second(0);
-
-				events.push({
-					id: createEventId(plan.id, instructionIndex, dayOffset, time),
-					medPlanId: plan.id,
-					at: occurrence.toISOString(),
-					windowMins:
-						instruction.frequency === "PRN" ? undefined : DEFAULT_WINDOW_MINS,
-					dose: makeDoseLabel(plan, instructionIndex),
-					status: "scheduled",
-				});
+			times.slice(0, remaining).forEach((time) => {
+				const [hour, minute] = parseClock(time);
+				const occurrence = date.hour(hour).minute(minute).second(0);
+
+				if (dayOffset >= 0) {
+					pushEvent(occurrence);
+				}
 			});
+			remaining -= times.length;
 		}
 	});
 
 	return events;
 };
+
+const COURSE_END_SEARCH_DAYS = 366;
+
+/**
+ * The last scheduled dose of a plan whose course ends, within a year of
+ * `start`. Open-ended plans have none.
+ */
+export const courseEndDate = (
+	plan: MedicationPlan,
+	start: Dayjs,
+	routine: Routine = DEFAULT_ROUTINE,
+): Dayjs | undefined => {
+	const ends = plan.instructions.every(
+		(instruction) =>
+			instruction.frequency === "PRN" ||
+			instruction.durationDays !== undefined ||
+			doseLimit(instruction, plan.strength) !== undefined ||
+			instruction.endDate ||
+			plan.endDate,
+	);
+	if (!ends) {
+		return undefined;
+	}
+	const events = expandPlan(plan, start, COURSE_END_SEARCH_DAYS, routine);
+	return events.reduce<Dayjs | undefined>((last, event) => {
+		const at = dayjs(event.at);
+		return !last || at.isAfter(last) ? at : last;
+	}, undefined);
+};
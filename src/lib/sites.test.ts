@@ -0,0 +1,20 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { parsePrescription } from "./parse";
+import { injectionSites, isInjectable } from "./sites";
+
+const referenceDate = dayjs("2026-10-19T10:00");
+
+describe("injection sites", () => {
+	it.each([
+		["Clexane 0.4 ml injection into the abdomen", ["en"]],
+		["Инсулин 10 ед укол в живот", ["ru"]],
+	])("treats '%s' as an injection with site rotation", (text, locales) => {
+		const { plans } = parsePrescription(text, { referenceDate, locales });
+		const { plan } = plans[0];
+		expect(plan.route).toBe("sc");
+		expect(plan.site?.location).toBe("abdomen");
+		expect(isInjectable(plan)).toBe(true);
+		expect(injectionSites(plan).length).toBeGreaterThan(1);
+	});
+});
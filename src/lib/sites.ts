@@ -0,0 +1,89 @@
+import dayjs from "dayjs";
+import {
+	AdministrationSite,
+	MedicationPlan,
+	ScheduleEvent,
+	SiteLocation,
+} from "../types";
+
+const LOCATION_LABELS: Record<SiteLocation, { one: string; many: string }> = {
+	eye: { one: "eye", many: "eyes" },
+	ear: { one: "ear", many: "ears" },
+	nostril: { one: "nostril", many: "nostrils" },
+	abdomen: { one: "abdomen", many: "abdomen" },
+	thigh: { one: "thigh", many: "thighs" },
+	arm: { one: "upper arm", many: "upper arms" },
+	buttock: { one: "buttock", many: "buttocks" },
+};
+
+// Order injections move through when rotating: one side, then the other.
+const ROTATION_SITES: AdministrationSite[] = [
+	{ location: "abdomen", side: "left" },
+	{ location: "abdomen", side: "right" },
+	{ location: "thigh", side: "left" },
+	{ location: "thigh", side: "right" },
+	{ location: "arm", side: "left" },
+	{ location: "arm", side: "right" },
+];
+
+/** "left eye", "each nostril", "abdomen, right". */
+export const describeSite = (site: AdministrationSite): string => {
+	if (!site.location) {
+		return site.side ? `${site.side} side` : "";
+	}
+	const labels = LOCATION_LABELS[site.location];
+	switch (site.side) {
+		case "both":
+			return `each ${labels.one}`;
+		case "left":
+		case "right":
+			return site.location === "abdomen"
+				? `abdomen, ${site.side}`
+				: `${site.side} ${labels.one}`;
+		default:
+			return labels.one;
+	}
+};
+
+export const sameSite = (a?: AdministrationSite, b?: AdministrationSite) =>
+	Boolean(a && b && a.location === b.location && a.side === b.side);
+
+export const isInjectable = (plan: MedicationPlan) =>
+	plan.route === "sc" || plan.route === "im";
+
+/**
+ * Sites the patient can pick from for an injection: the whole rotation, or
+ * only the sides of the body area the prescription names.
+ */
+export const injectionSites = (plan: MedicationPlan): AdministrationSite[] => {
+	const location = plan.site?.location;
+	const sites = ROTATION_SITES.filter(
+		(site) => !location || site.location === location,
+	);
+	return sites.length ? sites : [{ location, side: plan.site?.side }];
+};
+
+/**
+ * Suggests where the next injection goes: the site after the one used last,
+ * unless the prescription fixes one side ("left thigh").
+ */
+export const suggestNextSite = (
+	plan: MedicationPlan,
+	events: ScheduleEvent[],
+): AdministrationSite | undefined => {
+	if (!isInjectable(plan)) {
+		return undefined;
+	}
+	if (plan.site?.side === "left" || plan.site?.side === "right") {
+		return plan.site;
+	}
+	const sites = injectionSites(plan);
+	const last = events
+		.filter(
+			(event) =>
+				event.medPlanId === plan.id && event.status === "taken" && event.site,
+		)
+		.sort((a, b) => dayjs(b.at).valueOf() - dayjs(a.at).valueOf())[0];
+	const lastIndex = sites.findIndex((site) => sameSite(site, last?.site));
+	return sites[(lastIndex + 1) % sites.length];
+};
@@ -0,0 +1,51 @@
+import { deflateRawSync, deflateSync, inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { crc32, inflate, zlibStore } from "./zlib";
+
+const encoder = new TextEncoder();
+const prose = encoder.encode(
+	"Amoxicillin 500 mg every 8 hours for 7 days. ".repeat(200),
+);
+// Pseudo-random bytes compress poorly, so deflate mixes in literal runs.
+const noise = Uint8Array.from({ length: 5000 }, (_, index) =>
+	Math.floor(Math.abs(Math.sin(index + 1)) * 256),
+);
+
+describe("inflate", () => {
+	it.each([
+		["stored blocks", 0],
+		["fixed Huffman codes", 1],
+		["dynamic Huffman codes", 9],
+	])("decodes %s", (_, level) => {
+		for (const data of [prose, noise]) {
+			expect(inflate(deflateSync(data, { level }))).toEqual(data);
+		}
+	});
+
+	it("decodes raw deflate data without a zlib header", () => {
+		expect(inflate(deflateRawSync(prose))).toEqual(prose);
+	});
+
+	it("rejects an invalid block type", () => {
+		expect(() => inflate(Uint8Array.from([0x07]))).toThrow(
+			"Invalid deflate block type",
+		);
+	});
+});
+
+describe("zlibStore", () => {
+	it("writes a stream other decoders accept", () => {
+		const large = new Uint8Array(70_000).map((_, index) => index % 251);
+		for (const data of [new Uint8Array(), prose, large]) {
+			const stored = zlibStore(data);
+			expect(new Uint8Array(inflateSync(stored))).toEqual(data);
+			expect(inflate(stored)).toEqual(data);
+		}
+	});
+});
+
+describe("crc32", () => {
+	it("matches the standard check value", () => {
+		expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+	});
+});
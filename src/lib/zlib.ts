@@ -0,0 +1,268 @@
+/**
+ * Just enough zlib for PDF import: inflating FlateDecode streams, and storing
+ * bytes uncompressed inside a zlib wrapper for the PNG writer.
+ */
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+const LENGTH_BASE = [
+	3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+	83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+	0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+	5, 5, 0,
+];
+const DISTANCE_BASE = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+	1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+	0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+	11, 12, 12, 13, 13,
+];
+// Order in which code length code lengths are sent in a dynamic block.
+const CODE_LENGTH_ORDER = [
+	16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+	const counts = new Uint16Array(16);
+	for (let index = 0; index < lengths.length; index++) {
+		counts[lengths[index]]++;
+	}
+	counts[0] = 0;
+	const offsets = new Uint16Array(16);
+	for (let length = 1; length < 16; length++) {
+		offsets[length] = offsets[length - 1] + counts[length - 1];
+	}
+	const symbols = new Uint16Array(lengths.length);
+	for (let symbol = 0; symbol < lengths.length; symbol++) {
+		if (lengths[symbol]) {
+			symbols[offsets[lengths[symbol]]++] = symbol;
+		}
+	}
+	return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(
+	Array.from({ length: 288 }, (_, symbol) =>
+		symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8,
+	),
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class BitReader {
+	private position: number;
+	private bitBuffer = 0;
+	private bitCount = 0;
+
+	constructor(
+		private readonly input: Uint8Array,
+		start: number,
+	) {
+		this.position = start;
+	}
+
+	bits(count: number): number {
+		while (this.bitCount < count) {
+			if (this.position >= this.input.length) {
+				throw new Error("Unexpected end of compressed data");
+			}
+			this.bitBuffer |= this.input[this.position++] << this.bitCount;
+			this.bitCount += 8;
+		}
+		const value = this.bitBuffer & ((1 << count) - 1);
+		this.bitBuffer >>>= count;
+		this.bitCount -= count;
+		return value;
+	}
+
+	decode({ counts, symbols }: Huffman): number {
+		let code = 0;
+		let first = 0;
+		let index = 0;
+		for (let length = 1; length < 16; length++) {
+			code |= this.bits(1);
+			const count = counts[length];
+			if (code - first < count) {
+				return symbols[index + code - first];
+			}
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+		throw new Error("Invalid Huffman code");
+	}
+
+	/** Drops the rest of the current byte and returns the byte position. */
+	align(): number {
+		this.bitBuffer = 0;
+		this.bitCount = 0;
+		return this.position;
+	}
+
+	seek(position: number) {
+		this.position = position;
+	}
+}
+
+class Output {
+	bytes = new Uint8Array(1 << 16);
+	length = 0;
+
+	push(value: number) {
+		if (this.length === this.bytes.length) {
+			const grown = new Uint8Array(this.bytes.length * 2);
+			grown.set(this.bytes);
+			this.bytes = grown;
+		}
+		this.bytes[this.length++] = value;
+	}
+}
+
+const readDynamicTables = (reader: BitReader) => {
+	const literalCount = reader.bits(5) + 257;
+	const distanceCount = reader.bits(5) + 1;
+	const codeLengthCount = reader.bits(4) + 4;
+	const codeLengths = new Uint8Array(19);
+	for (let index = 0; index < codeLengthCount; index++) {
+		codeLengths[CODE_LENGTH_ORDER[index]] = reader.bits(3);
+	}
+	const codeLengthTable = buildHuffman(codeLengths);
+	const lengths = new Uint8Array(literalCount + distanceCount);
+	let index = 0;
+	while (index < lengths.length) {
+		const symbol = reader.decode(codeLengthTable);
+		if (symbol < 16) {
+			lengths[index++] = symbol;
+			continue;
+		}
+		let repeat = 0;
+		let value = 0;
+		if (symbol === 16) {
+			if (index === 0) {
+				throw new Error("Repeat with no previous length");
+			}
+			value = lengths[index - 1];
+			repeat = 3 + reader.bits(2);
+		} else if (symbol === 17) {
+			repeat = 3 + reader.bits(3);
+		} else {
+			repeat = 11 + reader.bits(7);
+		}
+		lengths.fill(value, index, index + repeat);
+		index += repeat;
+	}
+	return {
+		literals: buildHuffman(lengths.subarray(0, literalCount)),
+		distances: buildHuffman(lengths.subarray(literalCount)),
+	};
+};
+
+/** Decompresses a zlib stream (or raw deflate data when it has no zlib header). */
+export const inflate = (input: Uint8Array): Uint8Array => {
+	const hasHeader =
+		input.length > 2 &&
+		(input[0] & 0x0f) === 8 &&
+		((input[0] << 8) | input[1]) % 31 === 0;
+	const reader = new BitReader(input, hasHeader ? 2 : 0);
+	const output = new Output();
+	let last = 0;
+	while (!last) {
+		last = reader.bits(1);
+		const type = reader.bits(2);
+		if (type === 0) {
+			const start = reader.align();
+			const length = input[start] | (input[start + 1] << 8);
+			for (let offset = 0; offset < length; offset++) {
+				output.push(input[start + 4 + offset]);
+			}
+			reader.seek(start + 4 + length);
+			continue;
+		}
+		if (type === 3) {
+			throw new Error("Invalid deflate block type");
+		}
+		const { literals, distances } =
+			type === 1
+				? { literals: FIXED_LITERALS, distances: FIXED_DISTANCES }
+				: readDynamicTables(reader);
+		for (;;) {
+			const symbol = reader.decode(literals);
+			if (symbol < 256) {
+				output.push(symbol);
+				continue;
+			}
+			if (symbol === 256) {
+				break;
+			}
+			const lengthIndex = symbol - 257;
+			const length =
+				LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+			const distanceIndex = reader.decode(distances);
+			const distance =
+				DISTANCE_BASE[distanceIndex] +
+				reader.bits(DISTANCE_EXTRA[distanceIndex]);
+			if (distance > output.length) {
+				throw new Error("Back reference before start of data");
+			}
+			for (let copied = 0; copied < length; copied++) {
+				output.push(output.bytes[output.length - distance]);
+			}
+		}
+	}
+	return output.bytes.slice(0, output.length);
+};
+
+const adler32 = (data: Uint8Array) => {
+	let a = 1;
+	let b = 0;
+	for (let index = 0; index < data.length; index++) {
+		a = (a + data[index]) % 65521;
+		b = (b + a) % 65521;
+	}
+	return ((b << 16) | a) >>> 0;
+};
+
+/** Wraps bytes in a zlib stream of stored (uncompressed) blocks. */
+export const zlibStore = (data: Uint8Array): Uint8Array => {
+	const blockSize = 0xffff;
+	const blocks = Math.max(1, Math.ceil(data.length / blockSize));
+	const output = new Uint8Array(2 + blocks * 5 + data.length + 4);
+	output[0] = 0x78;
+	output[1] = 0x01;
+	let position = 2;
+	for (let block = 0; block < blocks; block++) {
+		const chunk = data.subarray(block * blockSize, (block + 1) * blockSize);
+		output[position++] = block === blocks - 1 ? 1 : 0;
+		output[position++] = chunk.length & 0xff;
+		output[position++] = chunk.length >>> 8;
+		output[position++] = ~chunk.length & 0xff;
+		output[position++] = (~chunk.length >>> 8) & 0xff;
+		output.set(chunk, position);
+		position += chunk.length;
+	}
+	const checksum = adler32(data);
+	output[position++] = checksum >>> 24;
+	output[position++] = (checksum >>> 16) & 0xff;
+	output[position++] = (checksum >>> 8) & 0xff;
+	output[position] = checksum & 0xff;
+	return output;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+	}
+	return value >>> 0;
+});
+
+export const crc32 = (data: Uint8Array) => {
+	let crc = 0xffffffff;
+	for (let index = 0; index < data.length; index++) {
+		crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
@@ -2,7 +2,14 @@ import dayjs from "dayjs";
 import { MMKV } from "react-native-mmkv";
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
-import { MedicationPlan, ScheduleEvent } from "./types";
+import {
+	applyDirective,
+	findDirectiveTarget,
+	isDirective,
+	isFutureEvent,
+} from "./lib/directives";
+import { DEFAULT_ROUTINE } from "./lib/schedule";
+import { MedicationPlan, OcrDocument, Routine, ScheduleEvent } from "./types";
 
 const fallbackMemory = new Map<string, string>();
 
@@ -41,11 +48,14 @@ type SettingsState = {
 	horizonDays: number;
 	windowMins: number;
 	defaultTimes: Record<string, string[]>;
+	routine: Routine; // anchors for meal-relative doses
+	developerMode: boolean; // shows parser traces on the Review screen
 };
 
 type DraftState = {
 	rawText: string;
 	parsed: MedicationPlan[];
+	ocr?: OcrDocument; // layout of the captured text, when it came from OCR
 };
 
 type NotificationRefs = Record<string, string | undefined>;
@@ -58,14 +68,22 @@ type StoreState = {
 	settings: SettingsState;
 	setDraftText: (text: string) => void;
 	setDraftPlans: (plans: MedicationPlan[]) => void;
+	setDraftOcr: (document?: OcrDocument) => void;
 	clearDraft: () => void;
 	upsertPlans: (plans: MedicationPlan[]) => void;
 	removePlan: (planId: string) => void;
 	setEventsForPlan: (planId: string, events: ScheduleEvent[]) => void;
 	overwriteEvents: (events: ScheduleEvent[]) => void;
+	logEvent: (event: ScheduleEvent) => void;
 	updateEventStatus: (eventId: string, status: ScheduleEvent["status"]) => void;
 	shiftEvent: (eventId: string, newIso: string) => void;
+	annotateEvent: (
+		eventId: string,
+		changes: Partial<Pick<ScheduleEvent, "measurement" | "site">>,
+	) => void;
 	setNotificationRef: (eventId: string, notificationId?: string) => void;
+	updateRoutine: (changes: Partial<Routine>) => void;
+	setDeveloperMode: (enabled: boolean) => void;
 	clearNotificationsForPlan: (planId: string) => void;
 };
 
@@ -92,6 +110,8 @@ export const useAppStore = create<StoreState>()(
 					QPM: ["20:00"],
 					QOD: ["09:00"],
 				},
+				routine: DEFAULT_ROUTINE,
+				developerMode: false,
 			},
 			setDraftText: (text) =>
 				set((state) => ({
@@ -101,20 +121,49 @@ export const useAppStore = create<StoreState>()(
 				set((state) => ({
 					draft: { ...state.draft, parsed: plans },
 				})),
+			setDraftOcr: (document) =>
+				set((state) => ({
+					draft: { ...state.draft, ocr: document },
+				})),
 			clearDraft: () =>
 				set(() => ({
 					draft: { rawText: "", parsed: [] },
 				})),
 			upsertPlans: (plans) =>
 				set((state) => {
+					const now = dayjs();
 					const map = new Map(
 						state.medPlans.map((plan) => [plan.id, plan] as const),
 					);
+					let events = state.events;
+					let notificationRefs = state.notificationRefs;
 					plans.forEach((plan) => {
-						map.set(plan.id, plan);
+						if (!isDirective(plan)) {
+							map.set(plan.id, plan);
+							return;
+						}
+						// Stop/change lines act on the current plan and are not kept themselves.
+						const target = findDirectiveTarget(plan, Array.from(map.values()));
+						if (!target) {
+							return;
+						}
+						map.set(target.id, applyDirective(target, plan, now));
+						const dropped = new Set(
+							events
+								.filter((event) => isFutureEvent(event, target.id, now))
+								.map((event) => event.id),
+						);
+						events = events.filter((event) => !dropped.has(event.id));
+						notificationRefs = Object.fromEntries(
+							Object.entries(notificationRefs).filter(
+								([eventId]) => !dropped.has(eventId),
+							),
+						);
 					});
 					return {
 						medPlans: Array.from(map.values()),
+						events,
+						notificationRefs,
 					};
 				}),
 			removePlan: (planId) =>
@@ -139,6 +188,10 @@ export const useAppStore = create<StoreState>()(
 				set(() => ({
 					events: sortEvents(events),
 				})),
+			logEvent: (event) =>
+				set((state) => ({
+					events: sortEvents([...state.events, event]),
+				})),
 			updateEventStatus: (eventId, status) =>
 				set((state) => ({
 					events: state.events.map((event) =>
@@ -163,6 +216,17 @@ export const useAppStore = create<StoreState>()(
 						),
 					),
 				})),
+			annotateEvent: (eventId, changes) =>
+				set((state) => ({
+					events: state.events.map((event) =>
+						event.id === eventId
+							? {
+									...event,
+									...changes,
+								}
+							: event,
+					),
+				})),
 			setNotificationRef: (eventId, notificationId) =>
 				set((state) => {
 					const next = { ...state.notificationRefs };
@@ -173,6 +237,17 @@ export const useAppStore = create<StoreState>()(
 					}
 					return { notificationRefs: next };
 				}),
+			updateRoutine: (changes) =>
+				set((state) => ({
+					settings: {
+						...state.settings,
+						routine: { ...state.settings.routine, ...changes },
+					},
+				})),
+			setDeveloperMode: (enabled) =>
+				set((state) => ({
+					settings: { ...state.settings, developerMode: enabled },
+				})),
 			clearNotificationsForPlan: (planId) =>
 				set((state) => ({
 					notificationRefs: Object.fromEntries(
@@ -192,6 +267,15 @@ export const useAppStore = create<StoreState>()(
 				settings: state.settings,
 				notificationRefs: state.notificationRefs,
 			}),
+			// Settings saved by older versions lack newer keys such as the routine.
+			merge: (persisted, current) => {
+				const saved = persisted as Partial<StoreState> | undefined;
+				return {
+					...current,
+					...saved,
+					settings: { ...current.settings, ...saved?.settings },
+				};
+			},
 			skipHydration: true,
 		},
 	),
@@ -7,6 +7,8 @@ export type Frequency =
 	| "QAM"
 	| "QPM"
 	| "QOD"
+	| "QW"
+	| "INTERVAL"
 	| "PRN";
 export type TimingWhen =
 	| "MORN"
@@ -16,25 +18,145 @@ export type TimingWhen =
 	| "BEFORE_MEAL"
 	| "AFTER_MEAL";
 
+export type RoutineAnchor = "wake" | "breakfast" | "lunch" | "dinner" | "bed";
+
+export type Routine = Record<RoutineAnchor, string>; // HH:mm for each part of the day
+
+export type MealTiming = {
+	offsetMins: number; // negative before the anchor, e.g. -30 for "30 min before"
+	anchors?: RoutineAnchor[]; // named meals; otherwise the meals nearest each dose
+};
+
+export type IntervalRule = {
+	everyHours: number;
+	anchor?: string; // first dose of each course day, e.g. '06:00'
+};
+
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday, as in dayjs
+
+export type WeekdayRule = {
+	days?: Weekday[]; // empty/undefined: the weekday the course starts on
+	everyWeeks?: number; // defaults to 1
+};
+
+export type CycleRule = {
+	daysOn: number;
+	daysOff: number;
+	startDate?: string; // YYYY-MM-DD of cycle day 1; defaults to the course start
+};
+
+export type Measurement = "bloodPressure" | "pulse" | "temperature" | "glucose";
+
+// "skip if BP < 100": the action applies when `measurement comparator threshold` holds.
+export type DoseCondition = {
+	measurement: Measurement; // blood pressure is compared by its systolic value
+	comparator: "<" | "<=" | ">" | ">=";
+	threshold: number;
+	action: "take" | "skip";
+};
+
+export type PrnLimits = {
+	maxAmountPerDay?: number; // in the dose unit, over any rolling 24 h
+	maxDosesPerDay?: number; // over any rolling 24 h
+	minIntervalHours?: number;
+};
+
+export type DoseUnit =
+	| "mg"
+	| "mcg"
+	| "g"
+	| "ml"
+	| "IU"
+	| "units" // insulin and other products dosed in units
+	| "tab"
+	| "caps"
+	| "drops"
+	| "sprays"
+	| "puffs"
+	| "patches"
+	| "sachets"
+	| "supp"; // suppositories
+
 export type DosageInstruction = {
 	dose: {
 		amount: number;
-		unit: "mg" | "ml" | "tab" | "caps" | "drops" | "sprays";
+		maxAmount?: number; // upper bound of a range such as "1–2 tabs"
+		unit: DoseUnit;
 	};
 	frequency: Frequency;
+	interval?: IntervalRule; // set when frequency is INTERVAL
+	weekdays?: WeekdayRule; // limits dosing to these days of the week
+	cycle?: CycleRule; // repeating active/pause days, e.g. 21 on, 7 off
 	timesOfDay?: string[]; // e.g. ['08:00', '20:00']
 	when?: TimingWhen[];
+	mealTiming?: MealTiming; // places doses relative to the daily routine
 	durationDays?: number;
+	// Dispensed amount in dose units, or in tablets of the plan's strength for a
+	// dose in mg, IU and the like; the course ends when it runs out.
+	quantity?: number;
+	untilFinished?: boolean; // "until the pack is finished"; needs a quantity to end
+	startDate?: string; // YYYY-MM-DD, overrides where the phase would start
+	endDate?: string; // YYYY-MM-DD, inclusive
 	prn?: boolean;
+	prnLimits?: PrnLimits;
+	condition?: DoseCondition; // the patient checks a measurement before each dose
+	phase?: number; // 0-based; phases run back to back, same-phase instructions run together
+};
+
+export type SiteLocation =
+	| "eye"
+	| "ear"
+	| "nostril"
+	| "abdomen"
+	| "thigh"
+	| "arm"
+	| "buttock";
+
+// "both" also covers "each eye" / "per nostril": the dose goes on every side.
+export type Laterality = "left" | "right" | "both";
+
+export type AdministrationSite = {
+	location?: SiteLocation;
+	side?: Laterality;
 };
 
+// Doctor's directives that are not medicines, such as "measure blood pressure".
+export type TaskCategory = "measurement" | "exercise" | "hydration" | "care";
+
+// What a prescription line does to a plan the patient already has.
+export type PlanDirective =
+	| { action: "stop" }
+	| {
+			action: "modify";
+			strength?: string;
+			instruction?: Partial<DosageInstruction>; // only what the line changes
+	  };
+
 export type MedicationPlan = {
 	id: string;
 	name: string;
+	kind?: "medication" | "task"; // defaults to medication; task instructions carry no real dose
+	taskCategory?: TaskCategory;
+	directive?: PlanDirective; // set when the text changes an existing plan instead of adding one
+	genericName?: string; // INN matched in the offline drug dictionary, e.g. "amoxicillin"
 	strength?: string;
-	route?: "po" | "im" | "iv" | "inh" | "sl" | "topical" | "nasal" | "oph";
+	route?:
+		| "po"
+		| "im"
+		| "sc"
+		| "iv"
+		| "inh"
+		| "sl"
+		| "topical"
+		| "nasal"
+		| "oph";
+	site?: AdministrationSite; // where it goes, e.g. left eye or abdomen
 	instructions: DosageInstruction[];
+	startDate?: string; // YYYY-MM-DD of the first course day; defaults to scheduling day
+	endDate?: string; // YYYY-MM-DD, inclusive
+	startsWith?: "next_period"; // start is tied to an event whose date is not known yet
 	notes?: string;
+	sourcePage?: number; // page of a multi-page capture it was read from, 1-based
 };
 
 export type ScheduleEvent = {
@@ -43,5 +165,136 @@ export type ScheduleEvent = {
 	at: string;
 	windowMins?: number;
 	dose: string;
+	amount?: number; // numeric dose in the instruction's unit, for PRN accounting
+	condition?: DoseCondition; // copied from the instruction so Today can ask for the reading
+	measurement?: number; // reading the patient entered before resolving the dose
+	site?: AdministrationSite; // where an injection was actually given
 	status: "scheduled" | "taken" | "missed" | "snoozed";
 };
+
+/** Pixel rectangle in the recognised image. */
+export type OcrBox = {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+};
+
+export type OcrElement = {
+	text: string; // usually one word
+	box?: OcrBox;
+	confidence?: number; // 0..1, when the engine reports it
+};
+
+export type OcrLine = {
+	text: string;
+	box?: OcrBox;
+	confidence?: number;
+	languages: string[]; // BCP-47 codes the engine recognised
+	elements: OcrElement[];
+};
+
+export type OcrBlock = {
+	text: string;
+	box?: OcrBox;
+	languages: string[];
+	lines: OcrLine[];
+};
+
+export type OcrPage = {
+	width?: number; // size of the image the boxes refer to
+	height?: number;
+	blocks: OcrBlock[];
+};
+
+/** Recognised text with the layout it came from. */
+export type OcrDocument = {
+	text: string;
+	pages: OcrPage[];
+	preprocessing?: string[]; // image steps behind the pass that was kept
+};
+
+export type RecognizedPage = { text: string; page: OcrPage };
+
+/** A text recogniser the OCR pipeline can run a single image through. */
+export type OcrEngine = {
+	name: string;
+	// Whether the pipeline may resize, crop and deskew images before this
+	// engine sees them. Engines keyed on the original file turn it off.
+	preprocess: boolean;
+	recognize: (
+		uri: string,
+		size?: { width: number; height: number },
+	) => Promise<RecognizedPage>;
+};
+
+export type SourceSpan = {
+	start: number;
+	end: number;
+};
+
+export type FieldMeta = {
+	source: "detected" | "defaulted" | "user";
+	span?: SourceSpan; // character offsets into the raw text
+	confidence: number; // 0..1
+};
+
+export type PlanField =
+	| "name"
+	| "strength"
+	| "route"
+	| "site"
+	| "startDate"
+	| "endDate";
+export type InstructionField =
+	| "dose"
+	| "frequency"
+	| "timesOfDay"
+	| "when"
+	| "mealTiming"
+	| "weekdays"
+	| "cycle"
+	| "durationDays"
+	| "quantity"
+	| "prnLimits"
+	| "condition"
+	| "startDate"
+	| "endDate";
+
+export type ParsedPlan = {
+	plan: MedicationPlan;
+	fields: Partial<Record<PlanField, FieldMeta>>;
+	instructionFields: Partial<Record<InstructionField, FieldMeta>>[];
+};
+
+export type TraceStep = {
+	stage: "match" | "default" | "decision" | "name";
+	block?: number; // index into ParseTrace.blocks
+	rule: string; // field or rule that fired, e.g. "frequency"
+	message: string;
+	span?: SourceSpan;
+};
+
+/** How the parser read the text, recorded only when asked to explain. */
+export type ParseTrace = {
+	blocks: { lines: string[]; span: SourceSpan; reason: string }[];
+	steps: TraceStep[];
+};
+
+/** A guess the parser could not settle, asked back before scheduling. */
+export type ClarificationQuestion = {
+	id: string;
+	planId: string;
+	instruction: number; // index into plan.instructions
+	field: "dose" | "frequency" | "quantity";
+	prompt: string; // "How often should Melatonin be taken?"
+	options: { label: string; changes: Partial<DosageInstruction> }[];
+};
+
+export type ParseResult = {
+	rawText: string;
+	plans: ParsedPlan[];
+	questions: ClarificationQuestion[];
+	locale?: string; // language pack detected for the document
+	trace?: ParseTrace;
+};